@@ -1,56 +1,345 @@
 
 import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import * as pdfjsLib from 'pdfjs-dist';
-import { AppStatus, Scene, ScriptAnalysis, UserSettings, GeneratedImageRecord } from './types';
-import { parseScript, suggestStyleFromTopic, generateSceneImage } from './services/geminiService';
+import { Animatic, AnimaticShot, AppStatus, Cinematography, Scene, ScriptAnalysis, UserSettings, GeneratedImageRecord, Take, Project, ProjectSummary, RenderQueueState, Screenplay, BibleEntry, BibleEntryKind, PromptRevision, ContinuityIssue, Anachronism, ReviewStatus, CommentPin, ReviewComment, ImportedSource, FrameAnnotations } from './types';
+import {
+  parseScript, suggestStyleFromTopic, generateSceneImage, refineSceneImage, extractBible, draftScene, suggestSoftenedPrompt, rewriteScenePrompt, checkContinuity, researchPeriod,
+  AnalysisProgress, ContinuityProgress, ResearchProgress
+} from './services/geminiService';
+import { errorAdvice, errorHeadline, toAIServiceError, toSceneError } from './services/aiErrors';
+import { ContinuityReference, DEFAULT_MODEL_SETTINGS, setModelSettings } from './services/aiProvider';
+import {
+  createId, saveImage, saveAudio, getImageData, listProjects, loadProject, saveProject, renameProject, duplicateProject, deleteProject,
+  addHistoryRecord, deleteUnreferencedImages, listHistory, clearHistory, setHistoryReviewStatus, loadSettings, saveSettings
+} from './services/storageService';
+import { createRenderQueue } from './services/renderQueue';
+import { openIssuesFor } from './services/continuity';
+import { applyCorrection, hasPeriodWarnings } from './services/periodResearch';
+import { addReviewComment, deleteReviewComment, REVIEW_STATUSES, reviewStatusOf, setReviewStatus, updateReviewComment } from './services/review';
+import { chunkScript, MAX_CHUNK_CHARS } from './services/scriptChunker';
+import {
+  updateSceneFields, reviseScenePrompt, moveScene, createBlankScene, insertScene, deleteScene, splitScene, mergeWithNext, reconcileLiveFields,
+  appendTake, setHeroTake, deleteTake, setTakeAnnotations
+} from './services/sceneEditing';
+import { buildStoryboardPdf, StoryboardPdfOptions } from './services/storyboardPdf';
+import { exportProjectPackage, importProjectPackage, PackageOptions } from './services/projectPackage';
+import { shotFor } from './services/animatic';
+import { flattenAnnotations, isVisible } from './services/annotations';
+import { allToneProfiles, DEFAULT_TONE_PROFILE_ID, resolveToneProfile } from './services/toneProfiles';
+import { CAMERA_ANGLES, composeImagePrompt, labelOf, LIGHTING_KEYS, Option, SHOT_SIZES, TIMES_OF_DAY } from './services/cinematography';
+import { useEditHistory } from './hooks/useEditHistory';
+import { parseFountain, parseFdx, screenplayToSceneBlocks, screenplayToText, countScenes } from './services/screenplayParser';
+import { importDocx, importPdf, ImportProgress, OcrLoadError } from './services/documentImport';
 import SceneCard from './components/SceneCard';
+import ProjectLibrary from './components/ProjectLibrary';
+import RenderQueuePanel from './components/RenderQueuePanel';
+import BiblePanel from './components/BiblePanel';
+import SettingsPanel from './components/SettingsPanel';
+import InsertBeatBar from './components/InsertBeatBar';
+import StoryboardExportMenu from './components/StoryboardExportMenu';
+import ScriptSourcePanel from './components/ScriptSourcePanel';
+import ValidationReportPanel from './components/ValidationReportPanel';
+import ContinuityPanel from './components/ContinuityPanel';
+import PeriodResearchPanel from './components/PeriodResearchPanel';
+import ReviewSummaryPanel from './components/ReviewSummaryPanel';
+import { REVIEW_STATUS_CLASS } from './components/FrameReviewPanel';
+import AnimaticPanel from './components/AnimaticPanel';
 
 // Initialize PDF.js worker
 pdfjsLib.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@4.10.38/build/pdf.worker.mjs`;
 
 const App: React.FC = () => {
+  const [projectId, setProjectId] = useState<string>(() => createId());
+  const [projectName, setProjectName] = useState('');
+  const [projectCreatedAt, setProjectCreatedAt] = useState(() => Date.now());
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
   const [scriptText, setScriptText] = useState('');
+  const [screenplay, setScreenplay] = useState<Screenplay | null>(null);
+  const [importedSource, setImportedSource] = useState<ImportedSource | null>(null);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
   const [style, setStyle] = useState('');
   const [topic, setTopic] = useState('');
   const [requestedPrompts, setRequestedPrompts] = useState(24);
-  const [analysis, setAnalysis] = useState<ScriptAnalysis | null>(null);
+  const [toneProfileId, setToneProfileId] = useState(DEFAULT_TONE_PROFILE_ID);
+  const edits = useEditHistory<ScriptAnalysis | null>(null, reconcileLiveFields);
+  const { value: analysis, setValue: setAnalysis } = edits;
   const [error, setError] = useState<string | null>(null);
   const [isSuggestingStyle, setIsSuggestingStyle] = useState(false);
+  const [isExtractingBible, setIsExtractingBible] = useState(false);
+  const [dragSceneId, setDragSceneId] = useState<string | null>(null);
+  const [isDraggingScene, setIsDraggingScene] = useState(false);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
   const [history, setHistory] = useState<GeneratedImageRecord[]>([]);
   
   // History Filters
+  const [historyScope, setHistoryScope] = useState<'project' | 'all'>('project');
   const [historySearch, setHistorySearch] = useState('');
   const [historyStyleFilter, setHistoryStyleFilter] = useState<string>('all');
   const [historySort, setHistorySort] = useState<'newest' | 'oldest' | 'scene_asc' | 'scene_desc'>('newest');
+  const [historyCameraFilter, setHistoryCameraFilter] = useState<Pick<Cinematography, 'shotSize' | 'cameraAngle' | 'lighting' | 'timeOfDay'>>({});
+  const [historyReviewFilter, setHistoryReviewFilter] = useState<ReviewStatus | 'all'>('all');
   
   const [userSettings, setUserSettings] = useState<UserSettings>({
     generatedImageCount: 0,
+    models: DEFAULT_MODEL_SETTINGS,
   });
 
+  const toneProfiles = useMemo(() => allToneProfiles(userSettings.toneProfiles), [userSettings.toneProfiles]);
+
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const continuityAbortRef = useRef<AbortController | null>(null);
+  const [continuityProgress, setContinuityProgress] = useState<ContinuityProgress | null>(null);
+  const [continuityError, setContinuityError] = useState<string | null>(null);
+  const researchAbortRef = useRef<AbortController | null>(null);
+  const [researchProgress, setResearchProgress] = useState<ResearchProgress | null>(null);
+  const [researchError, setResearchError] = useState<string | null>(null);
+  const [packageError, setPackageError] = useState<string | null>(null);
+  const [historyExportError, setHistoryExportError] = useState<{ recordId: string; message: string } | null>(null);
+  const [sceneFilter, setSceneFilter] = useState<'all' | 'period-warnings' | 'needs-changes'>('all');
+
+  const analysisRef = useRef(analysis);
+  analysisRef.current = analysis;
+  const projectIdRef = useRef(projectId);
+  projectIdRef.current = projectId;
+  const renderSceneRef = useRef<(sceneId: string) => Promise<void>>(async () => {});
+
+  const [queueState, setQueueState] = useState<RenderQueueState>({ jobs: [], isRunning: false, isPaused: false, concurrency: 2 });
+  const renderQueue = useMemo(() => createRenderQueue(
+    (sceneId) => renderSceneRef.current(sceneId),
+    { concurrency: 2, onChange: setQueueState }
+  ), []);
+
+  // Undo/redo shortcuts, left to the browser while typing so text fields keep their own undo.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      if (!(e.metaKey || e.ctrlKey) || e.key.toLowerCase() !== 'z') return;
+      e.preventDefault();
+      // Streamed beats are not edit history; undoing mid-stream would drop them.
+      if (analysisAbortRef.current) return;
+      if (e.shiftKey) edits.redo(); else edits.undo();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [edits]);
+
+  // A drag handle arms its card on mousedown; releasing without dragging disarms it.
+  useEffect(() => {
+    const disarm = () => setDragSceneId(null);
+    window.addEventListener('mouseup', disarm);
+    return () => window.removeEventListener('mouseup', disarm);
+  }, []);
+
+  const applyProject = (project: Project) => {
+    analysisAbortRef.current?.abort();
+    continuityAbortRef.current?.abort();
+    setContinuityError(null);
+    researchAbortRef.current?.abort();
+    setResearchError(null);
+    setPackageError(null);
+    setSceneFilter('all');
+    renderQueue.cancel();
+    edits.clear();
+    setProjectId(project.id);
+    setProjectName(project.name);
+    setProjectCreatedAt(project.createdAt);
+    setScriptText(project.scriptText);
+    setScreenplay(project.screenplay ?? null);
+    setImportedSource(project.importedSource ?? null);
+    setTopic(project.topic);
+    setStyle(project.style);
+    setRequestedPrompts(project.frameCount);
+    setToneProfileId(project.toneProfileId ?? DEFAULT_TONE_PROFILE_ID);
+    setAnalysis(project.analysis);
+    setStatus(project.analysis ? AppStatus.READY : AppStatus.IDLE);
+    setError(null);
+    // Frames of beats deleted in an earlier session can no longer be undone back, so they are collected on open.
+    deleteUnreferencedImages(project.id, project.analysis).catch(err => console.error("Image cleanup error:", err));
+  };
+
+  // Restore settings and the last open project once per session.
+  useEffect(() => {
+    (async () => {
+      try {
+        const settings = await loadSettings();
+        if (settings) {
+          setUserSettings({ ...settings, models: { ...DEFAULT_MODEL_SETTINGS, ...settings.models } });
+          const last = settings.lastProjectId && await loadProject(settings.lastProjectId);
+          if (last) applyProject(last);
+        }
+      } catch (err) {
+        console.error("Storage restore error:", err);
+      } finally {
+        setIsHydrated(true);
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    setModelSettings(userSettings.models);
+  }, [userSettings.models]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    saveSettings({ ...userSettings, lastProjectId: projectId }).catch(err => console.error("Settings save error:", err));
+  }, [isHydrated, userSettings, projectId]);
+
+  const currentProject = (): Project => ({
+    id: projectId,
+    name: projectName || analysis?.projectTitle || topic || 'Untitled Project',
+    scriptText,
+    screenplay,
+    importedSource,
+    topic,
+    style,
+    frameCount: requestedPrompts,
+    toneProfileId,
+    analysis,
+    createdAt: projectCreatedAt,
+    updatedAt: Date.now(),
+  });
+
+  // Autosave the open project. Empty drafts are not written so the library only lists real work.
+  useEffect(() => {
+    if (!isHydrated || (!scriptText.trim() && !analysis)) return;
+    const timer = setTimeout(() => {
+      saveProject(currentProject()).catch(err => console.error("Project save error:", err));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [isHydrated, projectId, projectName, projectCreatedAt, scriptText, screenplay, importedSource, topic, style, requestedPrompts, toneProfileId, analysis]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    listHistory(historyScope === 'project' ? projectId : undefined)
+      .then(setHistory)
+      .catch(err => console.error("History load error:", err));
+  }, [isHydrated, historyScope, projectId]);
+
+  const refreshProjects = async () => {
+    setProjects(await listProjects());
+  };
+
+  const handleOpenLibrary = async () => {
+    await refreshProjects();
+    setShowLibrary(true);
+  };
+
+  const handleOpenProject = async (id: string) => {
+    const project = await loadProject(id);
+    if (project) applyProject(project);
+    setShowLibrary(false);
+  };
+
+  const handleRenameProject = async (id: string, name: string) => {
+    await renameProject(id, name);
+    if (id === projectId) setProjectName(name);
+    await refreshProjects();
+  };
+
+  const handleDuplicateProject = async (id: string) => {
+    await duplicateProject(id);
+    await refreshProjects();
+  };
+
+  // Failures reach the caller, which reports them next to the button that started the export.
+  const handleExportPackage = async (id: string, options: PackageOptions = {}) => {
+    // The package is built from storage, so flush edits the autosave has not written yet.
+    if (id === projectId) await saveProject(currentProject());
+    const { fileName, blob } = await exportProjectPackage(id, userSettings.toneProfiles, options);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleExportCurrentPackage = async () => {
+    setPackageError(null);
+    try {
+      await handleExportPackage(projectId);
+    } catch (err) {
+      console.error("Package Export Error:", err);
+      setPackageError(`Package export failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleImportPackage = async (file: File) => {
+    const { toneProfiles: imported } = await importProjectPackage(file);
+    setUserSettings(prev => {
+      const known = new Set(allToneProfiles(prev.toneProfiles).map(profile => profile.id));
+      const added = imported.filter(profile => !known.has(profile.id));
+      return added.length ? { ...prev, toneProfiles: [...(prev.toneProfiles ?? []), ...added] } : prev;
+    });
+    await refreshProjects();
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    await deleteProject(id);
+    if (id === projectId) handleReset();
+    await refreshProjects();
+  };
+
+  const handleClearHistory = async () => {
+    await clearHistory(historyScope === 'project' ? projectId : undefined);
+    setHistory([]);
+  };
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    if (file.type === 'application/pdf') {
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    if (extension === 'fountain' || extension === 'spmd' || extension === 'fdx') {
       try {
-        const arrayBuffer = await file.arrayBuffer();
-        const pdf = await pdfjsLib.getDocument(arrayBuffer).promise;
-        let fullText = '';
-        for (let i = 1; i <= pdf.numPages; i++) {
-          const page = await pdf.getPage(i);
-          const textContent = await page.getTextContent();
-          fullText += textContent.items.map((item: any) => (item as any).str).join(' ') + '\n';
-        }
-        setScriptText(fullText);
+        const source = await file.text();
+        const parsed = extension === 'fdx' ? parseFdx(source) : parseFountain(source);
+        setScreenplay(parsed);
+        setImportedSource(null);
+        setScriptText(screenplayToText(parsed));
+        if (!topic && parsed.title) setTopic(parsed.title);
+        setError(null);
       } catch (err) {
-        setError("Error processing PDF. Ensure it has readable text.");
+        console.error("Screenplay import error:", err);
+        setError(`Error reading ${extension === 'fdx' ? 'Final Draft' : 'Fountain'} file. Ensure it is a valid screenplay.`);
+      }
+    } else if (file.type === 'application/pdf' || extension === 'pdf' || extension === 'docx') {
+      const isPdf = extension !== 'docx';
+      try {
+        const data = await file.arrayBuffer();
+        const result = isPdf
+          ? await importPdf(file.name, data, { onProgress: setImportProgress })
+          : await importDocx(file.name, data);
+        if (!result.text.trim()) throw new Error("No text found.");
+        setScreenplay(null);
+        setImportedSource(result.source);
+        setScriptText(result.text);
+        setError(null);
+      } catch (err) {
+        console.error("Document import error:", err);
+        setError(err instanceof OcrLoadError
+          ? err.message
+          : isPdf
+            ? "Error processing PDF. Neither its text layer nor OCR produced readable text."
+            : "Error reading Word document. Ensure it is a valid .docx file.");
+      } finally {
+        setImportProgress(null);
+        // Lets the same file be picked again, e.g. after a failed import.
+        event.target.value = '';
       }
     } else {
       const reader = new FileReader();
-      reader.onload = (e) => setScriptText(e.target?.result as string);
+      reader.onload = (e) => {
+        setScreenplay(null);
+        setImportedSource(null);
+        setScriptText(e.target?.result as string);
+      };
       reader.readAsText(file);
     }
   };
@@ -74,55 +363,554 @@ const App: React.FC = () => {
       return;
     }
     
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    const targetProjectId = projectId;
+    let received = 0;
     setStatus(AppStatus.ANALYZING);
     setError(null);
+    setAnalysis(null);
+    edits.clear();
     try {
-      const result = await parseScript(scriptText, topic || "Untitled", style || "Cinematic", requestedPrompts);
-      setAnalysis(result);
+      const result = await parseScript(
+        screenplay ?? scriptText, topic || "Untitled", style || "Cinematic", resolveToneProfile(toneProfiles, toneProfileId), requestedPrompts,
+        {
+          signal: controller.signal,
+          onProgress: progress => analysisAbortRef.current === controller && setAnalysisProgress(progress),
+          // Beats go on screen as they stream in, so early ones can be reviewed and rendered before the rest arrive.
+          onScene: scene => {
+            if (controller.signal.aborted || analysisAbortRef.current !== controller) return;
+            received++;
+            setAnalysis(prev => ({
+              projectTitle: topic || "Untitled",
+              projectStyle: style || "Cinematic",
+              ...prev,
+              scenes: [...(prev?.scenes ?? []), scene],
+            }));
+            setStatus(AppStatus.READY);
+          },
+          // A chunk with the wrong beat count, or a malformed streamed beat, is fixed after it streamed; its beats are the tail of the list.
+          onReplaceScenes: (removedIds, replacements) => {
+            if (controller.signal.aborted || analysisAbortRef.current !== controller) return;
+            const removed = new Set(removedIds);
+            setAnalysis(prev => prev && { ...prev, scenes: [...prev.scenes.filter(scene => !removed.has(scene.id)), ...replacements] });
+          },
+        }
+      );
+      // Opening or starting another project aborts the analysis; its late result must not land there.
+      if (projectIdRef.current !== targetProjectId) return;
+      if (!result.scenes.length) {
+        setError(controller.signal.aborted ? "Analysis cancelled before any beats arrived." : "The analysis returned no beats.");
+        setStatus(AppStatus.IDLE);
+        return;
+      }
+      // Scenes may already have been edited or rendered while streaming, so only the finishing fields are merged in.
+      const spans = new Map(result.scenes.map(scene => [scene.id, scene.sourceSpan]));
+      setAnalysis(prev => prev && {
+        ...prev,
+        projectTitle: result.projectTitle,
+        projectStyle: result.projectStyle,
+        sourceFingerprint: result.sourceFingerprint,
+        validation: result.validation,
+        scenes: prev.scenes.map(scene => spans.has(scene.id) ? { ...scene, sourceSpan: spans.get(scene.id) } : scene),
+      });
+      edits.clear();
       setStatus(AppStatus.READY);
+      buildBible(result.scenes, result.projectTitle, result.projectStyle);
     } catch (err) {
+      if (projectIdRef.current !== targetProjectId) return;
       console.error("Analysis Error:", err);
-      setError("Failed to understand script. Try reducing prompt count or checking script content for complex formatting errors.");
-      setStatus(AppStatus.ERROR);
+      const typed = toAIServiceError(err);
+      setError(`Analysis failed${received ? ` after ${received} beats` : ''}. ${errorHeadline(typed.kind)}: ${typed.message} ${errorAdvice(typed.kind)}`);
+      // Beats that already arrived are kept.
+      setStatus(received ? AppStatus.READY : AppStatus.ERROR);
+    } finally {
+      if (analysisAbortRef.current === controller) {
+        analysisAbortRef.current = null;
+        setAnalysisProgress(null);
+      }
     }
   };
 
-  const onGenerateImage = async (scene: Scene, seed?: number) => {
+  const handleCancelAnalysis = () => {
+    analysisAbortRef.current?.abort();
+  };
+
+  const buildBible = async (scenes: Scene[], title: string, projectStyle: string) => {
+    setIsExtractingBible(true);
     try {
-      const imageUrl = await generateSceneImage(scene.imagePrompt, seed);
-      
+      const extracted = await extractBible(scenes, title, projectStyle);
+      const entries: BibleEntry[] = extracted.map(({ kind, name, description }) => ({ id: createId(), kind, name, description }));
       setAnalysis(prev => {
         if (!prev) return null;
         return {
           ...prev,
-          scenes: prev.scenes.map(s => s.id === scene.id ? { ...s, imageUrl } : s)
+          bible: entries,
+          scenes: prev.scenes.map(scene => ({
+            ...scene,
+            bibleIds: entries.filter((_, i) => extracted[i].sceneNumbers.includes(scene.sceneNumber)).map(entry => entry.id),
+          })),
         };
       });
+    } catch (err) {
+      console.error("Bible Extraction Error:", err);
+    } finally {
+      setIsExtractingBible(false);
+    }
+  };
+
+  const handleExtractBible = () => {
+    if (!analysis) return;
+    if (analysis.bible?.length && !confirm("Re-extracting replaces the current bible, including your edits and reference images. Continue?")) return;
+    buildBible(analysis.scenes, analysis.projectTitle, analysis.projectStyle);
+  };
+
+  const updateBible = (update: (bible: BibleEntry[]) => BibleEntry[]) => {
+    setAnalysis(prev => prev && { ...prev, bible: update(prev.bible ?? []) });
+  };
+
+  const handleAddBibleEntry = (kind: BibleEntryKind) => {
+    updateBible(bible => [...bible, { id: createId(), kind, name: kind === 'character' ? 'New Character' : 'New Location', description: '' }]);
+  };
+
+  const handleUpdateBibleEntry = (id: string, patch: Partial<BibleEntry>) => {
+    updateBible(bible => bible.map(entry => entry.id === id ? { ...entry, ...patch } : entry));
+  };
+
+  const handleDeleteBibleEntry = (id: string) => {
+    setAnalysis(prev => prev && {
+      ...prev,
+      bible: (prev.bible ?? []).filter(entry => entry.id !== id),
+      scenes: prev.scenes.map(scene => ({ ...scene, bibleIds: scene.bibleIds?.filter(entryId => entryId !== id) })),
+    });
+  };
+
+  const handleUploadBibleReference = async (id: string, file: File) => {
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(file);
+    });
+    const { imageId, imageUrl } = await saveImage(projectId, dataUrl);
+    handleUpdateBibleEntry(id, { referenceImageId: imageId, referenceImageUrl: imageUrl });
+  };
+
+  const updateAnimatic = (update: (animatic: Animatic) => Animatic) => {
+    setAnalysis(prev => prev && { ...prev, animatic: update(prev.animatic ?? { shots: {} }) });
+  };
+
+  const handleUpdateShot = (sceneId: string, patch: Partial<AnimaticShot>) => {
+    updateAnimatic(animatic => ({ ...animatic, shots: { ...animatic.shots, [sceneId]: { ...shotFor(animatic, sceneId), ...patch } } }));
+  };
+
+  const handleUploadAudio = async (file: File) => {
+    const { audioId, audioUrl } = await saveAudio(projectId, file);
+    updateAnimatic(animatic => ({ ...animatic, audioId, audioUrl, audioName: file.name }));
+  };
+
+  const handleRemoveAudio = () => {
+    updateAnimatic(({ audioId, audioUrl, audioName, ...animatic }) => animatic);
+  };
+
+  const handleToggleBibleEntry = (sceneId: string, entryId: string) => {
+    const scene = analysis?.scenes.find(s => s.id === sceneId);
+    if (!scene) return;
+    const bibleIds = scene.bibleIds?.includes(entryId)
+      ? scene.bibleIds.filter(id => id !== entryId)
+      : [...(scene.bibleIds ?? []), entryId];
+    updateScene(sceneId, { bibleIds });
+  };
+
+  const continuityFor = async (scene: Scene): Promise<ContinuityReference[]> => {
+    const entries = (analysisRef.current?.bible ?? []).filter(entry => scene.bibleIds?.includes(entry.id));
+    return Promise.all(entries.map(async entry => ({
+      entry,
+      image: entry.referenceImageId ? await getImageData(entry.referenceImageId) : undefined,
+    })));
+  };
+
+  const updateScene = (sceneId: string, patch: Partial<Scene>) => {
+    setAnalysis(prev => {
+      if (!prev) return null;
+      return {
+        ...prev,
+        scenes: prev.scenes.map(s => s.id === sceneId ? { ...s, ...patch } : s)
+      };
+    });
+  };
+
+  // Shared by the per-card button and the batch queue. Throws so each caller can report failures its own way.
+  // `imagePrompt` renders a prompt the user approved but that may not have reached state yet.
+  const renderScene = async (sceneId: string, seed?: number, imagePrompt?: string) => {
+    const found = analysisRef.current?.scenes.find(s => s.id === sceneId);
+    if (!found) return;
+    const scene = imagePrompt === undefined ? found : { ...found, imagePrompt };
+    const targetProjectId = projectId;
+    updateScene(sceneId, { isGenerating: true, renderError: undefined });
+    try {
+      const tone = resolveToneProfile(toneProfiles, scene.toneProfileId, toneProfileId);
+      const result = await generateSceneImage(composeImagePrompt(scene), tone, seed, await continuityFor(scene));
+      const { imageId, imageUrl } = await saveImage(targetProjectId, result.dataUrl);
+      const take: Take = {
+        id: createId(),
+        imageId,
+        imageUrl,
+        seed: result.seed,
+        prompt: result.fullPrompt,
+        model: result.model,
+        timestamp: Date.now(),
+      };
 
       const record: GeneratedImageRecord = {
+        id: createId(),
+        projectId: targetProjectId,
+        imageId,
         timestamp: Date.now(),
         imageUrl,
         prompt: scene.imagePrompt,
         sceneTitle: scene.title,
         sceneNumber: scene.sceneNumber,
-        style: analysis?.projectStyle || style || 'Cinematic'
+        style: analysisRef.current?.projectStyle || style || 'Cinematic',
+        seed: result.seed,
+        model: result.model,
+        takeId: take.id,
+        cinematography: scene.cinematography,
+        reviewStatus: reviewStatusOf(analysisRef.current?.scenes.find(s => s.id === sceneId) ?? scene),
       };
-      setHistory(prev => [record, ...prev].slice(0, 100)); // Increased history limit
+      await addHistoryRecord(record);
 
+      // The user may have switched projects while this frame was rendering.
+      if (projectIdRef.current === targetProjectId) {
+        setAnalysis(prev => prev && appendTake(prev, sceneId, take));
+        setHistory(prev => [record, ...prev]);
+      }
       setUserSettings(prev => ({ ...prev, generatedImageCount: prev.generatedImageCount + 1 }));
+    } catch (err) {
+      if (projectIdRef.current === targetProjectId) updateScene(sceneId, { renderError: toSceneError(err, scene.imagePrompt) });
+      throw err;
+    } finally {
+      updateScene(sceneId, { isGenerating: false });
+    }
+  };
+  renderSceneRef.current = renderScene;
+
+  // The failure is shown on the scene card, so there is nothing more to report here.
+  const onGenerateImage = async (scene: Scene, seed?: number, imagePrompt?: string) => {
+    try {
+      await renderScene(scene.id, seed, imagePrompt);
     } catch (err) {
       console.error("Image Generation Error:", err);
-      alert("Error generating image. This may be due to safety filters regarding historical distress or network issues.");
     }
   };
 
+  const handleSuggestSoftened = (scene: Scene) => {
+    const error = scene.renderError;
+    const tone = resolveToneProfile(toneProfiles, scene.toneProfileId, toneProfileId);
+    return suggestSoftenedPrompt(error?.prompt ?? scene.imagePrompt, error?.blockReason ?? error?.message ?? 'content filter', tone);
+  };
+
+  // The approved wording becomes the scene's prompt (undoable like any edit) and is rendered straight away.
+  const handleApproveSoftened = async (scene: Scene, imagePrompt: string) => {
+    editAnalysis(current => updateSceneFields(current, scene.id, { imagePrompt }));
+    await onGenerateImage(scene, undefined, imagePrompt);
+  };
+
+  const handleRewritePrompt = (scene: Scene, instruction: string) => {
+    const scenes = analysisRef.current?.scenes ?? [];
+    const index = scenes.findIndex(s => s.id === scene.id);
+    const tone = resolveToneProfile(toneProfiles, scene.toneProfileId, toneProfileId);
+    return rewriteScenePrompt(
+      scene, scenes[index - 1], scenes[index + 1], instruction,
+      analysisRef.current?.projectTitle || topic || "Untitled", analysisRef.current?.projectStyle || style || "Cinematic", tone
+    );
+  };
+
+  const handleRestorePrompt = (sceneId: string, revision: PromptRevision) => {
+    editAnalysis(current => reviseScenePrompt(current, sceneId, revision.prompt, `Restored the prompt from before "${revision.instruction}"`));
+  };
+
+  const updateContinuityIssue = (issueId: string, patch: Partial<ContinuityIssue>) => {
+    setAnalysis(prev => prev?.continuity ? {
+      ...prev,
+      continuity: { ...prev.continuity, issues: prev.continuity.issues.map(issue => issue.id === issueId ? { ...issue, ...patch } : issue) },
+    } : prev);
+  };
+
+  // Only rendered frames are compared; their hero images are read back from storage for the model.
+  const handleCheckContinuity = async () => {
+    const current = analysisRef.current;
+    if (!current || continuityAbortRef.current) return;
+    const controller = new AbortController();
+    continuityAbortRef.current = controller;
+    const targetProjectId = projectId;
+    setContinuityError(null);
+    setContinuityProgress({ completedWindows: 0, totalWindows: 0 });
+    try {
+      const loaded = await Promise.all(current.scenes
+        .filter(scene => scene.imageId)
+        .map(async scene => ({ scene, image: await getImageData(scene.imageId!) })));
+      const frames = loaded.flatMap(({ scene, image }) => image ? [{ scene, image }] : []);
+      const report = await checkContinuity(frames, current.bible ?? [], current.projectTitle, current.projectStyle, {
+        signal: controller.signal,
+        onProgress: progress => continuityAbortRef.current === controller && setContinuityProgress(progress),
+      });
+      if (projectIdRef.current !== targetProjectId) return;
+      setAnalysis(prev => prev && { ...prev, continuity: report });
+    } catch (err) {
+      if (projectIdRef.current !== targetProjectId) return;
+      console.error("Continuity Check Error:", err);
+      const typed = toAIServiceError(err);
+      setContinuityError(`${errorHeadline(typed.kind)}: ${typed.message} ${errorAdvice(typed.kind)}`);
+    } finally {
+      if (continuityAbortRef.current === controller) {
+        continuityAbortRef.current = null;
+        setContinuityProgress(null);
+      }
+    }
+  };
+
+  // The suggested prompt goes through the beat's revision history, so the fix is undoable and the old prompt restorable.
+  const handleApplyContinuityFix = async (issueId: string) => {
+    const issue = analysisRef.current?.continuity?.issues.find(i => i.id === issueId);
+    const scene = analysisRef.current?.scenes.find(s => s.id === issue?.fixSceneId);
+    if (!issue || !scene) return;
+    editAnalysis(current => reviseScenePrompt(current, scene.id, issue.suggestedPrompt, `Continuity fix: ${issue.description}`));
+    updateContinuityIssue(issueId, { resolved: true });
+    await onGenerateImage(scene, undefined, issue.suggestedPrompt);
+  };
+
+  // Notes are merged by beat id as a live field; a cancelled run keeps the batches that already finished.
+  const handleResearchPeriod = async () => {
+    const current = analysisRef.current;
+    if (!current || researchAbortRef.current) return;
+    const controller = new AbortController();
+    researchAbortRef.current = controller;
+    const targetProjectId = projectId;
+    setResearchError(null);
+    setResearchProgress({ completedBatches: 0, totalBatches: 0 });
+    try {
+      const notes = await researchPeriod(current.scenes, current.projectTitle, current.projectStyle, {
+        signal: controller.signal,
+        onProgress: progress => researchAbortRef.current === controller && setResearchProgress(progress),
+      });
+      if (projectIdRef.current !== targetProjectId) return;
+      setAnalysis(prev => prev && {
+        ...prev,
+        scenes: prev.scenes.map(scene => notes[scene.id] ? { ...scene, periodNotes: notes[scene.id] } : scene),
+      });
+    } catch (err) {
+      if (projectIdRef.current !== targetProjectId) return;
+      console.error("Period Research Error:", err);
+      const typed = toAIServiceError(err);
+      setResearchError(`${errorHeadline(typed.kind)}: ${typed.message} ${errorAdvice(typed.kind)}`);
+    } finally {
+      if (researchAbortRef.current === controller) {
+        researchAbortRef.current = null;
+        setResearchProgress(null);
+      }
+    }
+  };
+
+  const updateAnachronism = (sceneId: string, anachronismId: string, patch: Partial<Anachronism>, researchedPrompt?: string) => {
+    setAnalysis(prev => prev && {
+      ...prev,
+      scenes: prev.scenes.map(scene => scene.id === sceneId && scene.periodNotes ? {
+        ...scene,
+        periodNotes: {
+          ...scene.periodNotes,
+          researchedPrompt: researchedPrompt ?? scene.periodNotes.researchedPrompt,
+          anachronisms: scene.periodNotes.anachronisms.map(a => a.id === anachronismId ? { ...a, ...patch } : a),
+        },
+      } : scene),
+    });
+  };
+
+  // The corrected wording goes through the revision history like any other suggested fix. The notes still
+  // describe the corrected prompt, so they are not marked stale by it.
+  const handleApplyPeriodCorrection = (sceneId: string, anachronismId: string) => {
+    const scene = analysisRef.current?.scenes.find(s => s.id === sceneId);
+    const anachronism = scene?.periodNotes?.anachronisms.find(a => a.id === anachronismId);
+    if (!scene || !anachronism) return;
+    const corrected = applyCorrection(scene.imagePrompt, anachronism);
+    if (corrected === null) return;
+    const wasCurrent = scene.periodNotes?.researchedPrompt === scene.imagePrompt;
+    editAnalysis(current => reviseScenePrompt(current, sceneId, corrected, `Period fix: "${anachronism.term}" \u2192 "${anachronism.correction}"`));
+    updateAnachronism(sceneId, anachronismId, { resolved: true }, wasCurrent ? corrected : undefined);
+  };
+
+  const reviewerName = userSettings.reviewerName?.trim() || 'Reviewer';
+
+  // Review state is a live field like renders: undo never takes back a comment or a sign-off.
+  const handleReviewStatusChange = async (sceneId: string, status: ReviewStatus) => {
+    const scene = analysisRef.current?.scenes.find(s => s.id === sceneId);
+    if (!scene) return;
+    const targetProjectId = projectId;
+    setAnalysis(prev => prev && setReviewStatus(prev, sceneId, status, reviewerName));
+    const takeIds = new Set<string>((scene.takes ?? []).map(take => take.id));
+    setHistory(prev => prev.map(record => record.takeId && takeIds.has(record.takeId) ? { ...record, reviewStatus: status } : record));
+    try {
+      await setHistoryReviewStatus(targetProjectId, Array.from(takeIds), status);
+    } catch (err) {
+      console.error("History review status error:", err);
+    }
+  };
+
+  const handleAddComment = (sceneId: string, text: string, pin?: CommentPin, parentId?: string) => {
+    const scene = analysisRef.current?.scenes.find(s => s.id === sceneId);
+    if (!scene) return;
+    const comment: ReviewComment = {
+      id: createId(),
+      author: reviewerName,
+      text,
+      timestamp: Date.now(),
+      imageId: scene.imageId,
+      parentId,
+      pin,
+    };
+    setAnalysis(prev => prev && addReviewComment(prev, sceneId, comment));
+  };
+
+  // A refinement never replaces its source: the result is a new take pointing back at the one it was made from.
+  const handleRefineTake = async (sceneId: string, takeId: string, instruction: string, maskDataUrl?: string) => {
+    const scene = analysisRef.current?.scenes.find(s => s.id === sceneId);
+    const source = scene?.takes?.find(t => t.id === takeId);
+    if (!scene || !source) return;
+    const targetProjectId = projectId;
+    updateScene(sceneId, { isGenerating: true, renderError: undefined });
+    try {
+      const image = await getImageData(source.imageId);
+      if (!image) throw new Error("The source frame is missing from storage.");
+      const mask = maskDataUrl ? { mimeType: 'image/png', data: maskDataUrl.split(',')[1] } : undefined;
+      const tone = resolveToneProfile(toneProfiles, scene.toneProfileId, toneProfileId);
+      const result = await refineSceneImage(image, instruction, tone, mask, source.seed);
+      const { imageId, imageUrl } = await saveImage(targetProjectId, result.dataUrl);
+      const take: Take = {
+        id: createId(),
+        imageId,
+        imageUrl,
+        seed: result.seed,
+        prompt: result.fullPrompt,
+        model: result.model,
+        timestamp: Date.now(),
+        parentTakeId: source.id,
+        refinement: instruction,
+        masked: !!mask,
+      };
+
+      const record: GeneratedImageRecord = {
+        id: createId(),
+        projectId: targetProjectId,
+        imageId,
+        timestamp: Date.now(),
+        imageUrl,
+        prompt: `${scene.imagePrompt}\nREFINED: ${instruction}`,
+        sceneTitle: scene.title,
+        sceneNumber: scene.sceneNumber,
+        style: analysisRef.current?.projectStyle || style || 'Cinematic',
+        seed: result.seed,
+        model: result.model,
+        takeId: take.id,
+        cinematography: scene.cinematography,
+        reviewStatus: reviewStatusOf(analysisRef.current?.scenes.find(s => s.id === sceneId) ?? scene),
+      };
+      await addHistoryRecord(record);
+
+      if (projectIdRef.current === targetProjectId) {
+        setAnalysis(prev => prev && appendTake(prev, sceneId, take));
+        setHistory(prev => [record, ...prev]);
+      }
+      setUserSettings(prev => ({ ...prev, generatedImageCount: prev.generatedImageCount + 1 }));
+    } catch (err) {
+      console.error("Refinement Error:", err);
+      if (projectIdRef.current === targetProjectId) updateScene(sceneId, { renderError: toSceneError(err) });
+    } finally {
+      updateScene(sceneId, { isGenerating: false });
+    }
+  };
+
+  const handleSelectHero = (sceneId: string, takeId: string) => {
+    setAnalysis(prev => prev && setHeroTake(prev, sceneId, takeId));
+  };
+
+  // Take deletion is not undoable, so the frame's blob can go as soon as nothing else (history, a review comment) uses it.
+  const handleDeleteTake = (sceneId: string, takeId: string) => {
+    const current = analysisRef.current;
+    const take = current?.scenes.find(s => s.id === sceneId)?.takes?.find(t => t.id === takeId);
+    setAnalysis(prev => prev && deleteTake(prev, sceneId, takeId));
+    if (current && take) {
+      deleteUnreferencedImages(projectId, deleteTake(current, sceneId, takeId), [take.imageId])
+        .catch(err => console.error("Image cleanup error:", err));
+    }
+  };
+
+  const editAnalysis = (edit: (current: ScriptAnalysis) => ScriptAnalysis) => {
+    edits.commit(current => current && edit(current));
+  };
+
+  const handleInsertBlank = (index: number) => {
+    editAnalysis(current => insertScene(current, index, createBlankScene()));
+  };
+
+  const handleInsertDrafted = async (index: number) => {
+    if (!analysis) return;
+    const draft = await draftScene(analysis.scenes[index - 1], analysis.scenes[index], analysis.projectTitle, analysis.projectStyle);
+    editAnalysis(current => insertScene(current, index, { ...createBlankScene(), ...draft }));
+  };
+
+  const handleDeleteScene = (scene: Scene) => {
+    editAnalysis(current => deleteScene(current, scene.id));
+  };
+
+  const handleDropScene = (targetId: string) => {
+    if (!dragSceneId || dragSceneId === targetId) return;
+    editAnalysis(current => moveScene(
+      current,
+      current.scenes.findIndex(s => s.id === dragSceneId),
+      current.scenes.findIndex(s => s.id === targetId)
+    ));
+    setDragSceneId(null);
+    setIsDraggingScene(false);
+  };
+
+  const handleJumpToScene = (sceneId: string) => {
+    document.getElementById(`scene-card-${sceneId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  const handleExportPdf = async (options: StoryboardPdfOptions) => {
+    if (!analysis) return;
+    const blob = await buildStoryboardPdf(analysis, options);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${(projectName || analysis.projectTitle || 'storyboard').replace(/[^\w-]+/g, '_')}_${options.layout}up.pdf`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
   const handleReset = () => {
+    analysisAbortRef.current?.abort();
+    continuityAbortRef.current?.abort();
+    setContinuityError(null);
+    researchAbortRef.current?.abort();
+    setResearchError(null);
+    setPackageError(null);
+    setSceneFilter('all');
+    renderQueue.cancel();
+    edits.clear();
+    setProjectId(createId());
+    setProjectName('');
+    setProjectCreatedAt(Date.now());
+    setHistory([]);
     setAnalysis(null);
     setStatus(AppStatus.IDLE);
     setScriptText('');
+    setScreenplay(null);
+    setImportedSource(null);
     setTopic('');
     setStyle('');
     setRequestedPrompts(24);
+    setToneProfileId(DEFAULT_TONE_PROFILE_ID);
     setError(null);
   };
 
@@ -130,11 +918,24 @@ const App: React.FC = () => {
     return new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
+  const chunkCount = useMemo(() => {
+    if (scriptText.length <= MAX_CHUNK_CHARS) return 1;
+    return screenplay
+      ? chunkScript('', requestedPrompts, screenplayToSceneBlocks(screenplay)).length
+      : chunkScript(scriptText, requestedPrompts).length;
+  }, [scriptText, screenplay, requestedPrompts]);
+
   // Filter Logic
   const uniqueStyles = useMemo(() => {
     return Array.from(new Set(history.map(r => r.style))).filter(Boolean);
   }, [history]);
 
+  const matchesSceneFilter = (scene: Scene) => {
+    if (sceneFilter === 'period-warnings') return hasPeriodWarnings(scene);
+    if (sceneFilter === 'needs-changes') return reviewStatusOf(scene) === 'needs-changes';
+    return true;
+  };
+
   const filteredHistory = useMemo(() => {
     return history
       .filter(record => {
@@ -144,7 +945,11 @@ const App: React.FC = () => {
           record.sceneNumber.toString().includes(historySearch)
         );
         const matchesStyle = historyStyleFilter === 'all' || record.style === historyStyleFilter;
-        return matchesSearch && matchesStyle;
+        const matchesCamera = Object.entries(historyCameraFilter).every(([key, value]) => (
+          !value || record.cinematography?.[key as keyof Cinematography] === value
+        ));
+        const matchesReview = historyReviewFilter === 'all' || (record.reviewStatus ?? 'draft') === historyReviewFilter;
+        return matchesSearch && matchesStyle && matchesCamera && matchesReview;
       })
       .sort((a, b) => {
         if (historySort === 'newest') return b.timestamp - a.timestamp;
@@ -153,7 +958,27 @@ const App: React.FC = () => {
         if (historySort === 'scene_desc') return b.sceneNumber - a.sceneNumber;
         return 0;
       });
-  }, [history, historySearch, historyStyleFilter, historySort]);
+  }, [history, historySearch, historyStyleFilter, historySort, historyCameraFilter, historyReviewFilter]);
+
+  // A history record keeps the raw render; its markup lives on the take, so only takes still in the open project have any.
+  const markupByTake = useMemo(() => new Map(
+    (analysis?.scenes ?? []).flatMap(scene => scene.takes ?? [])
+      .filter(take => isVisible(take.annotations))
+      .map(take => [take.id, take.annotations!] as const)
+  ), [analysis]);
+
+  const handleExportHistoryFrame = async (record: GeneratedImageRecord, markup?: FrameAnnotations) => {
+    setHistoryExportError(null);
+    try {
+      const link = document.createElement('a');
+      link.href = markup ? await flattenAnnotations(record.imageUrl, markup) : record.imageUrl;
+      link.download = `frame_${record.sceneNumber}_${record.timestamp}${markup ? '_markup' : ''}.png`;
+      link.click();
+    } catch (err) {
+      console.error("History Export Error:", err);
+      setHistoryExportError({ recordId: record.id, message: `Export failed: ${err instanceof Error ? err.message : String(err)}` });
+    }
+  };
 
   return (
     <div className="min-h-screen bg-[#020617] text-slate-100 flex flex-col relative overflow-x-hidden selection:bg-blue-500/30">
@@ -168,12 +993,39 @@ const App: React.FC = () => {
           <span className="text-indigo-400">UNLIMITED GENERATION ENABLED</span>
         </div>
         <div className="flex items-center gap-8">
+          <button onClick={() => setShowSettings(true)} className="text-slate-400 hover:text-white transition-colors uppercase tracking-widest">
+            {userSettings.models.provider === 'mock' ? <span className="text-amber-400">Offline Mock</span> : 'Settings'}
+          </button>
+          <button onClick={handleOpenLibrary} className="text-slate-400 hover:text-white transition-colors uppercase tracking-widest">Project Library</button>
           <div className="text-slate-400">Total Assets Created: <span className="text-blue-500">{userSettings.generatedImageCount}</span></div>
         </div>
       </nav>
 
+      {showSettings && (
+        <SettingsPanel
+          models={userSettings.models}
+          toneProfiles={userSettings.toneProfiles ?? []}
+          onChange={(models) => setUserSettings(prev => ({ ...prev, models }))}
+          onToneProfilesChange={(profiles) => setUserSettings(prev => ({ ...prev, toneProfiles: profiles }))}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
       <main className="max-w-4xl mx-auto px-6 py-16 w-full flex-1">
-        {status !== AppStatus.READY ? (
+        {showLibrary ? (
+          <ProjectLibrary
+            projects={projects}
+            currentProjectId={projectId}
+            onOpen={handleOpenProject}
+            onRename={handleRenameProject}
+            onDuplicate={handleDuplicateProject}
+            onExport={handleExportPackage}
+            onImport={handleImportPackage}
+            onDelete={handleDeleteProject}
+            onNew={() => { handleReset(); setShowLibrary(false); }}
+            onClose={() => setShowLibrary(false)}
+          />
+        ) : status !== AppStatus.READY ? (
           <div className="space-y-16">
             <div className="text-center space-y-5">
               <h1 className="text-6xl font-black text-white tracking-tighter">ScriptVisualizer</h1>
@@ -194,13 +1046,43 @@ const App: React.FC = () => {
                     onClick={() => fileInputRef.current?.click()}
                     className="text-[10px] font-black text-slate-400 hover:text-white uppercase tracking-widest bg-slate-800/50 px-4 py-2 rounded-xl border border-slate-700 hover:border-slate-500 transition-all"
                   >
-                    Upload PDF / TXT
+                    Upload PDF / DOCX / TXT / Fountain / FDX
                   </button>
-                  <input type="file" ref={fileInputRef} className="hidden" accept=".txt,.pdf" onChange={handleFileUpload} />
+                  <input type="file" ref={fileInputRef} className="hidden" accept=".txt,.pdf,.docx,.fountain,.spmd,.fdx" onChange={handleFileUpload} />
                 </div>
+                {importProgress && (
+                  <div className="flex items-center gap-3 px-2 text-[10px] font-black uppercase tracking-widest text-blue-400">
+                    <div className="w-3 h-3 border-2 border-blue-400/30 border-t-blue-400 rounded-full animate-spin"></div>
+                    Reading page {importProgress.page} of {importProgress.pageCount}
+                    {importProgress.ocr && <span className="text-amber-400/80">OCR {Math.round(100 * (importProgress.ocrProgress ?? 0))}%</span>}
+                  </div>
+                )}
+                {importedSource && !importProgress && (
+                  <div className="flex items-center justify-between px-2 text-[10px] font-black uppercase tracking-widest">
+                    <span className="text-green-400/80">
+                      {importedSource.format === 'docx' ? 'Word document' : 'PDF'}
+                      {importedSource.pageCount !== undefined && <> &bull; {importedSource.pageCount} pages</>}
+                      {importedSource.format === 'docx' && <> &bull; {importedSource.lines.length} paragraphs</>}
+                      {importedSource.ocrPages.length > 0 && <span className="text-amber-400/80"> &bull; {importedSource.ocrPages.length} read with OCR</span>}
+                    </span>
+                    <span className="text-slate-600">Editing the text below discards the page and line map</span>
+                  </div>
+                )}
+                {screenplay && (
+                  <div className="flex items-center justify-between px-2 text-[10px] font-black uppercase tracking-widest">
+                    <span className="text-green-400/80">
+                      {screenplay.format === 'fdx' ? 'Final Draft' : 'Fountain'} screenplay &bull; {countScenes(screenplay)} scene headings detected
+                    </span>
+                    <span className="text-slate-600">Editing the text below discards the parsed structure</span>
+                  </div>
+                )}
                 <textarea 
                   value={scriptText}
-                  onChange={(e) => setScriptText(e.target.value)}
+                  onChange={(e) => {
+                    setScreenplay(null);
+                    setImportedSource(null);
+                    setScriptText(e.target.value);
+                  }}
                   placeholder="Paste your screenplay here..."
                   className="w-full h-64 bg-slate-950 border border-slate-800 rounded-[2rem] p-8 text-slate-200 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all resize-none font-mono text-xs leading-relaxed"
                 />
@@ -235,7 +1117,18 @@ const App: React.FC = () => {
               </div>
 
               <div className="space-y-4">
-                <label className="text-[11px] font-black text-blue-500 uppercase tracking-widest px-2">4. Precision Frames (1-500)</label>
+                <label className="text-[11px] font-black text-blue-500 uppercase tracking-widest px-2">4. Tone Profile</label>
+                <select
+                  value={toneProfileId}
+                  onChange={(e) => setToneProfileId(e.target.value)}
+                  className="w-full bg-slate-950 border border-slate-800 rounded-2xl p-5 text-white font-bold focus:ring-2 focus:ring-blue-500/20 outline-none transition-all"
+                >
+                  {toneProfiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name} &bull; {profile.aspectRatio}</option>)}
+                </select>
+              </div>
+
+              <div className="space-y-4">
+                <label className="text-[11px] font-black text-blue-500 uppercase tracking-widest px-2">5. Precision Frames (1-500)</label>
                 <div className="flex items-center gap-6">
                   <input 
                     type="range"
@@ -254,6 +1147,14 @@ const App: React.FC = () => {
                 </div>
               </div>
 
+              {chunkCount > 1 && (
+                <div className="bg-amber-500/10 border border-amber-500/30 text-amber-400 p-6 rounded-3xl text-xs font-bold">
+                  This script is {scriptText.length.toLocaleString()} characters long, more than a single analysis pass handles.
+                  It will be split at scene headings into {chunkCount} parts, analysed in order and merged into one storyboard.
+                  {requestedPrompts < chunkCount && <> Each part needs at least one frame, so {chunkCount} frames will be generated instead of {requestedPrompts}.</>}
+                </div>
+              )}
+
               {error && <div className="bg-red-500/10 border border-red-500/30 text-red-400 p-6 rounded-3xl text-xs font-bold animate-pulse">{error}</div>}
 
               <button 
@@ -266,7 +1167,11 @@ const App: React.FC = () => {
                 {status === AppStatus.ANALYZING ? (
                   <>
                     <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-400"></div>
-                    <span className="uppercase tracking-widest text-sm">Understanding Subtext...</span>
+                    <span className="uppercase tracking-widest text-sm">
+                      {analysisProgress && analysisProgress.totalChunks > 1
+                        ? `Understanding Part ${Math.min(analysisProgress.completedChunks + 1, analysisProgress.totalChunks)} of ${analysisProgress.totalChunks}...`
+                        : 'Understanding Subtext...'}
+                    </span>
                   </>
                 ) : (
                   <>
@@ -275,6 +1180,11 @@ const App: React.FC = () => {
                   </>
                 )}
               </button>
+              {status === AppStatus.ANALYZING && (
+                <button onClick={handleCancelAnalysis} className="w-full text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-white transition-all">
+                  Cancel Analysis
+                </button>
+              )}
             </div>
           </div>
         ) : (
@@ -282,7 +1192,11 @@ const App: React.FC = () => {
             <div className="flex flex-col md:flex-row items-end justify-between gap-8 border-b border-slate-800 pb-12">
               <div className="space-y-4">
                 <div className="flex items-center gap-3">
-                  <span className="px-3 py-1 bg-blue-600 text-white text-[10px] font-black uppercase tracking-[0.2em] rounded-full">Analysis Complete</span>
+                  {analysisProgress ? (
+                    <span className="px-3 py-1 bg-amber-500/20 text-amber-300 text-[10px] font-black uppercase tracking-[0.2em] rounded-full animate-pulse">Analysing</span>
+                  ) : (
+                    <span className="px-3 py-1 bg-blue-600 text-white text-[10px] font-black uppercase tracking-[0.2em] rounded-full">Analysis Complete</span>
+                  )}
                   <span className="text-slate-500 text-[10px] font-black uppercase tracking-widest">{analysis?.scenes.length} Authentic Beats</span>
                 </div>
                 <h2 className="text-6xl font-black text-white tracking-tighter leading-tight">{analysis?.projectTitle}</h2>
@@ -290,23 +1204,238 @@ const App: React.FC = () => {
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6" /></svg>
                   <p className="text-sm font-black uppercase tracking-[0.2em]">{analysis?.projectStyle}</p>
                 </div>
+                <select
+                  value={toneProfileId}
+                  onChange={(e) => setToneProfileId(e.target.value)}
+                  title="Tone profile used for frames without their own override"
+                  className="bg-slate-900/50 border border-slate-800 rounded-xl py-2 px-3 text-[10px] font-black uppercase tracking-widest text-slate-400 outline-none cursor-pointer"
+                >
+                  {toneProfiles.map(profile => <option key={profile.id} value={profile.id}>Tone: {profile.name}</option>)}
+                </select>
+              </div>
+              <div className="flex flex-wrap items-center justify-end gap-3">
+                <StoryboardExportMenu onExport={handleExportPdf} />
+                <button
+                  onClick={handleExportCurrentPackage}
+                  title="ZIP of hero frames, manifest and shot list"
+                  className="px-6 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-white bg-slate-900/50 border border-slate-800 hover:border-slate-600 transition-all"
+                >
+                  Export Package
+                </button>
+                {packageError && <span className="text-[10px] text-red-400">{packageError}</span>}
+                <div className="flex items-center bg-slate-900/50 rounded-2xl border border-slate-800 p-1">
+                  <button
+                    onClick={edits.undo}
+                    disabled={!edits.canUndo || !!analysisProgress}
+                    title="Undo (Ctrl+Z)"
+                    className="px-4 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-white disabled:text-slate-700 transition-all"
+                  >
+                    Undo
+                  </button>
+                  <button
+                    onClick={edits.redo}
+                    disabled={!edits.canRedo || !!analysisProgress}
+                    title="Redo (Ctrl+Shift+Z)"
+                    className="px-4 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-white disabled:text-slate-700 transition-all"
+                  >
+                    Redo
+                  </button>
+                </div>
+                <button 
+                  onClick={handleReset} 
+                  className="px-8 py-4 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-500 hover:text-white border border-slate-800 hover:border-slate-600 transition-all flex items-center gap-3"
+                >
+                  Start New Project
+                </button>
               </div>
-              <button 
-                onClick={handleReset} 
-                className="px-8 py-4 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-500 hover:text-white border border-slate-800 hover:border-slate-600 transition-all flex items-center gap-3"
-              >
-                Start New Project
-              </button>
             </div>
 
+            {analysisProgress && (
+              <div className="bg-amber-500/5 border border-amber-500/20 rounded-[2.5rem] p-8 space-y-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-4">
+                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-amber-400"></div>
+                    <span className="text-[11px] font-black text-amber-300 uppercase tracking-widest">
+                      {analysisProgress.beats} of {analysisProgress.totalBeats} beats
+                      {analysisProgress.totalChunks > 1 && ` \u2022 Part ${Math.min(analysisProgress.completedChunks + 1, analysisProgress.totalChunks)} of ${analysisProgress.totalChunks}`}
+                    </span>
+                  </div>
+                  <button
+                    onClick={handleCancelAnalysis}
+                    title="Stop analysing and keep the beats received so far"
+                    className="px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest bg-red-500/10 text-red-400 hover:bg-red-500/20 transition-all"
+                  >
+                    Cancel
+                  </button>
+                </div>
+                <div className="h-1.5 bg-slate-950 rounded-full overflow-hidden">
+                  <div className="h-full bg-amber-400 transition-all" style={{ width: `${100 * analysisProgress.beats / Math.max(1, analysisProgress.totalBeats)}%` }} />
+                </div>
+                <p className="text-[10px] font-bold text-slate-500">Beats can be reviewed and rendered as they arrive. Undo becomes available once the analysis finishes.</p>
+              </div>
+            )}
+
+            {error && <div className="bg-red-500/10 border border-red-500/30 text-red-400 p-6 rounded-3xl text-xs font-bold">{error}</div>}
+
+            {analysis?.validation && (
+              <ValidationReportPanel
+                report={analysis.validation}
+                scenes={analysis.scenes}
+                onJumpToScene={handleJumpToScene}
+              />
+            )}
+
+            {analysis && (
+              <ScriptSourcePanel
+                scriptText={scriptText}
+                scenes={analysis.scenes}
+                sourceFingerprint={analysis.sourceFingerprint}
+                importedSource={importedSource}
+                onJumpToScene={handleJumpToScene}
+              />
+            )}
+
+            {analysis && (
+              <BiblePanel
+                entries={analysis.bible ?? []}
+                scenes={analysis.scenes}
+                isExtracting={isExtractingBible}
+                onExtract={handleExtractBible}
+                onAdd={handleAddBibleEntry}
+                onUpdate={handleUpdateBibleEntry}
+                onDelete={handleDeleteBibleEntry}
+                onUploadReference={handleUploadBibleReference}
+              />
+            )}
+
+            {analysis && (
+              <ContinuityPanel
+                report={analysis.continuity}
+                scenes={analysis.scenes}
+                progress={continuityProgress}
+                error={continuityError}
+                onCheck={handleCheckContinuity}
+                onCancel={() => continuityAbortRef.current?.abort()}
+                onApplyFix={handleApplyContinuityFix}
+                onDismiss={(issueId) => updateContinuityIssue(issueId, { resolved: true })}
+                onJumpToScene={handleJumpToScene}
+              />
+            )}
+
+            {analysis && (
+              <PeriodResearchPanel
+                scenes={analysis.scenes}
+                progress={researchProgress}
+                error={researchError}
+                warningsOnly={sceneFilter === 'period-warnings'}
+                onResearch={handleResearchPeriod}
+                onCancel={() => researchAbortRef.current?.abort()}
+                onWarningsOnlyChange={(on) => setSceneFilter(on ? 'period-warnings' : 'all')}
+              />
+            )}
+
+            {analysis && (
+              <ReviewSummaryPanel
+                scenes={analysis.scenes}
+                needsChangesOnly={sceneFilter === 'needs-changes'}
+                onNeedsChangesOnlyChange={(on) => setSceneFilter(on ? 'needs-changes' : 'all')}
+              />
+            )}
+
+            {analysis && (
+              <RenderQueuePanel
+                scenes={analysis.scenes}
+                queue={queueState}
+                onStart={renderQueue.enqueue}
+                onPause={renderQueue.pause}
+                onResume={renderQueue.resume}
+                onCancel={renderQueue.cancel}
+                onRetryFailed={renderQueue.retryFailed}
+                onConcurrencyChange={renderQueue.setConcurrency}
+              />
+            )}
+
+            {analysis && (
+              <AnimaticPanel
+                scenes={analysis.scenes}
+                animatic={analysis.animatic}
+                projectTitle={analysis.projectTitle}
+                onUpdateShot={handleUpdateShot}
+                onUploadAudio={handleUploadAudio}
+                onRemoveAudio={handleRemoveAudio}
+              />
+            )}
+
             <div className="space-y-20">
-              {analysis?.scenes.map((scene) => (
-                <SceneCard 
-                  key={scene.id} 
-                  scene={scene} 
-                  onGenerate={(seed?: number) => onGenerateImage(scene, seed)}
-                />
+              {analysis?.scenes.map((scene, index) => !matchesSceneFilter(scene) ? null : (
+                <React.Fragment key={scene.id}>
+                  {sceneFilter === 'all' && (
+                    <InsertBeatBar
+                      onInsertBlank={() => handleInsertBlank(index)}
+                      onInsertDrafted={() => handleInsertDrafted(index)}
+                    />
+                  )}
+                  <div
+                    draggable={dragSceneId === scene.id}
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData('text/plain', scene.id);
+                      setIsDraggingScene(true);
+                    }}
+                    onDragEnd={() => {
+                      setDragSceneId(null);
+                      setIsDraggingScene(false);
+                    }}
+                    onDragOver={(e) => isDraggingScene && e.preventDefault()}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      handleDropScene(scene.id);
+                    }}
+                    id={`scene-card-${scene.id}`}
+                    className={isDraggingScene && dragSceneId === scene.id ? 'opacity-50' : ''}
+                  >
+                    <SceneCard 
+                      scene={scene} 
+                      bible={analysis.bible ?? []}
+                      canMergeNext={index < analysis.scenes.length - 1}
+                      onGenerate={(seed?: number) => onGenerateImage(scene, seed)}
+                      onToggleBibleEntry={(entryId) => handleToggleBibleEntry(scene.id, entryId)}
+                      onEdit={(patch) => editAnalysis(current => updateSceneFields(current, scene.id, patch))}
+                      onSplit={() => editAnalysis(current => splitScene(current, scene.id))}
+                      onMergeNext={() => editAnalysis(current => mergeWithNext(current, scene.id))}
+                      onDelete={() => handleDeleteScene(scene)}
+                      onDragHandleDown={() => setDragSceneId(scene.id)}
+                      onSelectHero={(takeId) => handleSelectHero(scene.id, takeId)}
+                      onDeleteTake={(takeId) => handleDeleteTake(scene.id, takeId)}
+                      onRefineTake={(takeId, instruction, maskDataUrl) => handleRefineTake(scene.id, takeId, instruction, maskDataUrl)}
+                      onSaveAnnotations={(takeId, annotations) => setAnalysis(prev => prev && setTakeAnnotations(prev, scene.id, takeId, annotations))}
+                      toneProfiles={toneProfiles}
+                      onToneChange={(id) => editAnalysis(current => updateSceneFields(current, scene.id, { toneProfileId: id }))}
+                      onDismissError={() => updateScene(scene.id, { renderError: undefined })}
+                      onSuggestSoftened={() => handleSuggestSoftened(scene)}
+                      onApproveSoftened={(imagePrompt) => handleApproveSoftened(scene, imagePrompt)}
+                      onRewritePrompt={(instruction) => handleRewritePrompt(scene, instruction)}
+                      onAcceptRewrite={(imagePrompt, instruction) => editAnalysis(current => reviseScenePrompt(current, scene.id, imagePrompt, instruction))}
+                      onRestorePrompt={(revision) => handleRestorePrompt(scene.id, revision)}
+                      continuityIssues={openIssuesFor(analysis.continuity, scene.id)}
+                      onApplyContinuityFix={handleApplyContinuityFix}
+                      onApplyPeriodCorrection={(anachronismId) => handleApplyPeriodCorrection(scene.id, anachronismId)}
+                      onDismissAnachronism={(anachronismId) => updateAnachronism(scene.id, anachronismId, { resolved: true })}
+                      reviewerName={userSettings.reviewerName ?? ''}
+                      onReviewerNameChange={(name) => setUserSettings(prev => ({ ...prev, reviewerName: name }))}
+                      onReviewStatusChange={(status) => handleReviewStatusChange(scene.id, status)}
+                      onAddComment={(text, pin, parentId) => handleAddComment(scene.id, text, pin, parentId)}
+                      onUpdateComment={(commentId, patch) => setAnalysis(prev => prev && updateReviewComment(prev, scene.id, commentId, patch))}
+                      onDeleteComment={(commentId) => setAnalysis(prev => prev && deleteReviewComment(prev, scene.id, commentId))}
+                    />
+                  </div>
+                </React.Fragment>
               ))}
+              {analysis && sceneFilter === 'all' && (
+                <InsertBeatBar
+                  onInsertBlank={() => handleInsertBlank(analysis.scenes.length)}
+                  onInsertDrafted={() => handleInsertDrafted(analysis.scenes.length)}
+                />
+              )}
             </div>
           </div>
         )}
@@ -322,9 +1451,20 @@ const App: React.FC = () => {
                 <p className="text-[10px] font-bold text-slate-500 uppercase tracking-[0.3em]">Historical Archive & Visual Metadata</p>
               </div>
               <div className="flex items-center gap-4 bg-slate-900/50 p-2 rounded-2xl border border-slate-800">
+                <div className="flex items-center bg-slate-950 rounded-xl border border-slate-800 p-1">
+                  {(['project', 'all'] as const).map(scope => (
+                    <button
+                      key={scope}
+                      onClick={() => setHistoryScope(scope)}
+                      className={`text-[9px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg transition-all ${historyScope === scope ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-white'}`}
+                    >
+                      {scope === 'project' ? 'This Project' : 'All Projects'}
+                    </button>
+                  ))}
+                </div>
                 <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-4">{history.length} Assets Logged</span>
                 {history.length > 0 && (
-                  <button onClick={() => setHistory([])} className="text-[9px] font-black text-red-500/50 hover:text-red-400 uppercase tracking-widest bg-red-500/10 px-3 py-1.5 rounded-xl transition-all">Clear Archive</button>
+                  <button onClick={handleClearHistory} className="text-[9px] font-black text-red-500/50 hover:text-red-400 uppercase tracking-widest bg-red-500/10 px-3 py-1.5 rounded-xl transition-all">Clear Archive</button>
                 )}
               </div>
             </div>
@@ -358,6 +1498,32 @@ const App: React.FC = () => {
                     </div>
                   </div>
 
+                  {([
+                    ['shotSize', 'All Shot Sizes', SHOT_SIZES],
+                    ['cameraAngle', 'All Angles', CAMERA_ANGLES],
+                    ['lighting', 'All Lighting', LIGHTING_KEYS],
+                    ['timeOfDay', 'Any Time', TIMES_OF_DAY],
+                  ] as const).map(([key, placeholder, options]) => (
+                    <select
+                      key={key}
+                      value={historyCameraFilter[key] ?? ''}
+                      onChange={(e) => setHistoryCameraFilter(prev => ({ ...prev, [key]: e.target.value || undefined }))}
+                      className="bg-slate-950 border border-slate-800 rounded-xl py-3 px-4 text-[10px] font-black uppercase tracking-widest text-slate-400 focus:text-white outline-none cursor-pointer hover:border-slate-600 transition-colors"
+                    >
+                      <option value="">{placeholder}</option>
+                      {options.map((option: Option<string>) => <option key={option.value} value={option.value}>{option.label}</option>)}
+                    </select>
+                  ))}
+
+                  <select
+                    value={historyReviewFilter}
+                    onChange={(e) => setHistoryReviewFilter(e.target.value as ReviewStatus | 'all')}
+                    className="bg-slate-950 border border-slate-800 rounded-xl py-3 px-4 text-[10px] font-black uppercase tracking-widest text-slate-400 focus:text-white outline-none cursor-pointer hover:border-slate-600 transition-colors"
+                  >
+                    <option value="all">Any Review Status</option>
+                    {REVIEW_STATUSES.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                  </select>
+
                   <div className="relative group">
                     <select 
                       value={historySort} 
@@ -389,17 +1555,22 @@ const App: React.FC = () => {
           ) : filteredHistory.length === 0 ? (
             <div className="text-center py-20 border border-slate-800 rounded-[3rem] bg-slate-900/20">
               <p className="text-slate-500 font-bold uppercase tracking-widest text-xs">No assets match current filters</p>
-              <button onClick={() => {setHistorySearch(''); setHistoryStyleFilter('all');}} className="mt-4 text-blue-500 hover:text-white text-xs font-black uppercase tracking-widest transition-colors">Clear Filters</button>
+              <button onClick={() => {setHistorySearch(''); setHistoryStyleFilter('all'); setHistoryCameraFilter({}); setHistoryReviewFilter('all');}} className="mt-4 text-blue-500 hover:text-white text-xs font-black uppercase tracking-widest transition-colors">Clear Filters</button>
             </div>
           ) : (
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-8">
               {filteredHistory.map((record) => (
-                <div key={record.timestamp} className="group relative bg-[#020617] border border-slate-800 rounded-3xl overflow-hidden hover:border-blue-500/40 transition-all flex flex-col shadow-2xl">
+                <div key={record.id} className="group relative bg-[#020617] border border-slate-800 rounded-3xl overflow-hidden hover:border-blue-500/40 transition-all flex flex-col shadow-2xl">
                   <div className="aspect-video bg-black overflow-hidden relative">
                     <img src={record.imageUrl} className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-1000" loading="lazy" />
                     <div className="absolute top-3 right-3 bg-black/60 backdrop-blur-md px-2 py-1 rounded-lg text-[8px] font-black text-slate-400 border border-white/5">
                       {formatDate(record.timestamp)}
                     </div>
+                    {record.reviewStatus && record.reviewStatus !== 'draft' && (
+                      <div className={`absolute top-3 left-3 px-2 py-1 rounded-lg border text-[8px] font-black uppercase tracking-widest backdrop-blur-md ${REVIEW_STATUS_CLASS[record.reviewStatus]}`}>
+                        {labelOf(REVIEW_STATUSES, record.reviewStatus)}
+                      </div>
+                    )}
                   </div>
 
                   <div className="p-6 space-y-4 flex-1 flex flex-col">
@@ -409,6 +1580,11 @@ const App: React.FC = () => {
                     </div>
                     
                     <h4 className="text-xs font-black text-white truncate group-hover:text-blue-400 transition-colors uppercase">{record.sceneTitle}</h4>
+                    {record.cinematography && (
+                      <p className="text-[8px] font-black text-slate-500 uppercase tracking-widest truncate">
+                        {[labelOf(SHOT_SIZES, record.cinematography.shotSize), labelOf(CAMERA_ANGLES, record.cinematography.cameraAngle), record.cinematography.lens, labelOf(TIMES_OF_DAY, record.cinematography.timeOfDay)].filter(Boolean).join(' \u2022 ')}
+                      </p>
+                    )}
                     
                     <div className="relative flex-1">
                       <p className="text-[9px] text-slate-500 font-medium leading-relaxed line-clamp-4 italic bg-slate-900/50 p-3 rounded-xl border border-slate-800">
@@ -416,19 +1592,26 @@ const App: React.FC = () => {
                       </p>
                     </div>
 
+                    {historyExportError?.recordId === record.id && (
+                      <p className="text-[10px] text-red-400">{historyExportError.message}</p>
+                    )}
                     <div className="pt-2 border-t border-slate-800 mt-auto flex items-center justify-between gap-2">
                        <button 
-                         onClick={() => {
-                            const link = document.createElement('a');
-                            link.href = record.imageUrl;
-                            link.download = `frame_${record.sceneNumber}_${record.timestamp}.png`;
-                            link.click();
-                         }}
+                         onClick={() => handleExportHistoryFrame(record)}
                          className="text-[9px] font-black text-slate-400 hover:text-white uppercase tracking-widest flex items-center gap-2 transition-colors"
                        >
                          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
                          Export
                        </button>
+                       {record.takeId && markupByTake.has(record.takeId) && (
+                         <button
+                           onClick={() => handleExportHistoryFrame(record, markupByTake.get(record.takeId!))}
+                           title="The frame with its take's markup drawn in"
+                           className="text-[9px] font-black text-yellow-400/70 hover:text-white uppercase tracking-widest transition-colors"
+                         >
+                           With Markup
+                         </button>
+                       )}
                        <span className="text-[8px] font-bold text-slate-700 uppercase">Contextual-ID: {record.timestamp.toString().slice(-4)}</span>
                     </div>
                   </div>
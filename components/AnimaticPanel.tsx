@@ -0,0 +1,260 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Animatic, AnimaticShot, AnimaticTransition, CameraMove, Scene } from '../types';
+import {
+  ANIMATIC_HEIGHT, ANIMATIC_WIDTH, buildTimeline, drawAnimaticFrame, loadTimelineImages, playAnimatic, PlaybackHandle,
+  recordAnimatic, shotFor
+} from '../services/animatic';
+
+interface AnimaticPanelProps {
+  scenes: Scene[];
+  animatic?: Animatic;
+  projectTitle: string;
+  onUpdateShot: (sceneId: string, patch: Partial<AnimaticShot>) => void;
+  onUploadAudio: (file: File) => Promise<void>;
+  onRemoveAudio: () => void;
+}
+
+const TRANSITIONS: { value: AnimaticTransition; label: string }[] = [
+  { value: 'cut', label: 'Cut' },
+  { value: 'crossfade', label: 'Crossfade' },
+  { value: 'fade-black', label: 'Fade Black' },
+];
+
+const MOVES: { value: CameraMove; label: string }[] = [
+  { value: 'none', label: 'Static' },
+  { value: 'zoom-in', label: 'Zoom In' },
+  { value: 'zoom-out', label: 'Zoom Out' },
+  { value: 'pan-left', label: 'Pan Left' },
+  { value: 'pan-right', label: 'Pan Right' },
+];
+
+const formatTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const AnimaticPanel: React.FC<AnimaticPanelProps> = ({ scenes, animatic, projectTitle, onUpdateShot, onUploadAudio, onRemoveAudio }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [images, setImages] = useState<Map<string, HTMLImageElement>>(new Map());
+  const [playhead, setPlayhead] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const audioInputRef = useRef<HTMLInputElement>(null);
+  const playbackRef = useRef<PlaybackHandle | null>(null);
+  const cancelRecordingRef = useRef<(() => void) | null>(null);
+
+  const timeline = useMemo(() => buildTimeline(scenes, animatic), [scenes, animatic]);
+  const frameKey = timeline.segments.map(s => s.imageUrl ?? '').join('|');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    loadTimelineImages(timeline).then(setImages).catch(err => console.error("Animatic frame load error:", err));
+  }, [isOpen, frameKey]);
+
+  // Show the still under the playhead whenever nothing is running.
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || isPlaying || isRecording) return;
+    drawAnimaticFrame(ctx, timeline, images, Math.min(playhead, Math.max(0, timeline.duration - 1)));
+  }, [timeline, images, playhead, isPlaying, isRecording, isOpen]);
+
+  useEffect(() => () => {
+    playbackRef.current?.stop();
+    cancelRecordingRef.current?.();
+  }, []);
+
+  const stopPlayback = () => {
+    playbackRef.current?.stop();
+    playbackRef.current = null;
+    setIsPlaying(false);
+  };
+
+  const handlePlay = () => {
+    if (!canvasRef.current || !timeline.duration) return;
+    setIsPlaying(true);
+    playbackRef.current = playAnimatic(canvasRef.current, timeline, images, {
+      audio: audioRef.current ?? undefined,
+      onProgress: setPlayhead,
+      onEnd: () => {
+        playbackRef.current = null;
+        setIsPlaying(false);
+      },
+    });
+  };
+
+  const handleExport = async () => {
+    if (!canvasRef.current || !timeline.duration) return;
+    stopPlayback();
+    setIsRecording(true);
+    setExportError(null);
+    const recording = recordAnimatic(canvasRef.current, timeline, images, { audioUrl: animatic?.audioUrl, onProgress: setPlayhead });
+    cancelRecordingRef.current = recording.cancel;
+    try {
+      const blob = await recording.done;
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${(projectTitle || 'animatic').replace(/[^\w-]+/g, '_')}_animatic.webm`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      if (message !== "Recording cancelled.") {
+        console.error("Animatic Export Error:", err);
+        setExportError(`Animatic export failed: ${message}`);
+      }
+    } finally {
+      cancelRecordingRef.current = null;
+      setIsRecording(false);
+    }
+  };
+
+  const handleAudio = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) await onUploadAudio(file);
+  };
+
+  const isBusy = isPlaying || isRecording;
+  const rendered = scenes.filter(scene => scene.imageUrl).length;
+
+  return (
+    <div className="bg-slate-900/40 border border-slate-800 rounded-[2.5rem] p-8 space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+        <div className="space-y-1">
+          <h3 className="text-lg font-black text-white tracking-tighter uppercase">Animatic</h3>
+          <p className="text-[9px] font-black text-slate-500 uppercase tracking-[0.3em]">
+            {formatTime(timeline.duration)} Runtime &bull; {rendered}/{scenes.length} Frames Rendered
+          </p>
+        </div>
+        <button
+          onClick={() => { stopPlayback(); setIsOpen(!isOpen); }}
+          disabled={isRecording}
+          className="px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-800 hover:bg-slate-700 text-slate-300 transition-all"
+        >
+          {isOpen ? 'Hide Timeline' : 'Open Timeline'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <>
+          <div className="relative aspect-video bg-black rounded-3xl overflow-hidden border border-slate-700">
+            <canvas ref={canvasRef} width={ANIMATIC_WIDTH} height={ANIMATIC_HEIGHT} className="w-full h-full" />
+            {isRecording && (
+              <div className="absolute top-4 left-4 flex items-center gap-2 bg-black/70 px-3 py-1.5 rounded-lg text-[9px] font-black text-red-400 uppercase tracking-widest">
+                <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></span>
+                Recording {formatTime(playhead)} / {formatTime(timeline.duration)}
+              </div>
+            )}
+          </div>
+          {animatic?.audioUrl && <audio ref={audioRef} src={animatic.audioUrl} preload="auto" />}
+
+          <div className="space-y-3">
+            <input
+              type="range"
+              min={0}
+              max={timeline.duration}
+              value={playhead}
+              onChange={(e) => setPlayhead(parseInt(e.target.value))}
+              disabled={isBusy}
+              className="w-full accent-blue-500"
+            />
+            <div className="flex flex-wrap items-center gap-3">
+              {isPlaying ? (
+                <button onClick={stopPlayback} className="px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest bg-amber-500/20 text-amber-400 hover:bg-amber-500/30 transition-all">Stop</button>
+              ) : (
+                <button onClick={handlePlay} disabled={isRecording || !timeline.duration} className="px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest bg-blue-600 hover:bg-blue-500 text-white disabled:bg-slate-800 disabled:text-slate-500 transition-all">Play</button>
+              )}
+              <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{formatTime(playhead)} / {formatTime(timeline.duration)}</span>
+              <div className="flex-1" />
+              {animatic?.audioId ? (
+                <div className="flex items-center gap-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                  <span className="truncate max-w-[200px]">&#9835; {animatic.audioName ?? 'Scratch Track'}</span>
+                  <button onClick={onRemoveAudio} disabled={isBusy} className="text-red-500/60 hover:text-red-400">Remove</button>
+                </div>
+              ) : (
+                <button onClick={() => audioInputRef.current?.click()} disabled={isBusy} className="px-4 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-white border border-slate-800 transition-all">+ Scratch Audio</button>
+              )}
+              <input ref={audioInputRef} type="file" accept="audio/*" className="hidden" onChange={handleAudio} />
+              {isRecording ? (
+                <button onClick={() => cancelRecordingRef.current?.()} className="px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest bg-red-500/20 text-red-400 hover:bg-red-500/30 transition-all">Cancel Export</button>
+              ) : (
+                <button
+                  onClick={handleExport}
+                  disabled={isPlaying || !timeline.duration}
+                  title="Records in real time, so this takes as long as the animatic runs"
+                  className="px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-800 hover:bg-slate-700 text-slate-300 transition-all"
+                >
+                  Export WebM
+                </button>
+              )}
+            </div>
+            {exportError && <p className="text-[10px] text-red-400">{exportError}</p>}
+          </div>
+
+          <div className="flex gap-3 overflow-x-auto pb-2">
+            {scenes.map(scene => {
+              const shot = shotFor(animatic, scene.id);
+              return (
+                <div
+                  key={scene.id}
+                  style={{ width: Math.max(200, shot.durationMs / 20) }}
+                  className="shrink-0 bg-slate-950 border border-slate-800 rounded-2xl p-3 space-y-2"
+                >
+                  <div className="aspect-video rounded-lg overflow-hidden bg-slate-900 flex items-center justify-center">
+                    {scene.imageUrl
+                      ? <img src={scene.imageUrl} alt={scene.title} className="w-full h-full object-cover" />
+                      : <span className="text-[8px] font-black text-slate-700 uppercase tracking-widest">Unrendered</span>}
+                  </div>
+                  <p className="text-[9px] font-black text-slate-300 uppercase tracking-widest truncate">{scene.sceneNumber}. {scene.title}</p>
+                  <input
+                    value={shot.titleCard ?? ''}
+                    onChange={(e) => onUpdateShot(scene.id, { titleCard: e.target.value || undefined })}
+                    placeholder="Title card (optional)"
+                    disabled={isBusy}
+                    className="w-full bg-slate-900 border border-slate-800 rounded-lg px-2 py-1.5 text-[10px] text-slate-300 outline-none"
+                  />
+                  <div className="grid grid-cols-3 gap-1">
+                    <label className="flex items-center gap-1 bg-slate-900 border border-slate-800 rounded-lg px-2 text-[9px] font-black text-slate-500">
+                      <input
+                        type="number"
+                        min={0.5}
+                        step={0.5}
+                        value={shot.durationMs / 1000}
+                        onChange={(e) => onUpdateShot(scene.id, { durationMs: Math.max(500, (parseFloat(e.target.value) || 0.5) * 1000) })}
+                        disabled={isBusy}
+                        className="w-full bg-transparent py-1.5 text-white outline-none"
+                      />
+                      s
+                    </label>
+                    <select
+                      value={shot.transition}
+                      onChange={(e) => onUpdateShot(scene.id, { transition: e.target.value as AnimaticTransition })}
+                      disabled={isBusy}
+                      className="bg-slate-900 border border-slate-800 rounded-lg py-1.5 px-1 text-[9px] font-black uppercase text-slate-400 outline-none"
+                    >
+                      {TRANSITIONS.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                    </select>
+                    <select
+                      value={shot.move}
+                      onChange={(e) => onUpdateShot(scene.id, { move: e.target.value as CameraMove })}
+                      disabled={isBusy}
+                      className="bg-slate-900 border border-slate-800 rounded-lg py-1.5 px-1 text-[9px] font-black uppercase text-slate-400 outline-none"
+                    >
+                      {MOVES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                    </select>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnimaticPanel;
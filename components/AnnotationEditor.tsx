@@ -0,0 +1,169 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Annotation, AnnotationTool, FrameAnnotations, FrameGuide, FramePoint, Take } from '../types';
+import { ANNOTATION_COLORS, ANNOTATION_TOOLS, drawAnnotations, FRAME_GUIDES, STROKE_WIDTH, TEXT_HEIGHT } from '../services/annotations';
+import { createId } from '../services/storageService';
+
+interface AnnotationEditorProps {
+  take: Take;
+  title: string;
+  onSave: (annotations: FrameAnnotations) => void;
+  onClose: () => void;
+}
+
+// Drags shorter than this (as a fraction of the frame) are treated as stray clicks.
+const MIN_DRAG = 0.005;
+
+/**
+ * Draws camera moves, blocking paths, boxes and labels over a take. Nothing is kept until Save, and the
+ * frame itself is never modified.
+ */
+const AnnotationEditor: React.FC<AnnotationEditorProps> = ({ take, title, onSave, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [shapes, setShapes] = useState<Annotation[]>(take.annotations?.shapes ?? []);
+  const [guides, setGuides] = useState<FrameGuide[]>(take.annotations?.guides ?? []);
+  const [tool, setTool] = useState<AnnotationTool>('arrow');
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const [label, setLabel] = useState('');
+  const [draft, setDraft] = useState<Annotation | null>(null);
+
+  const redraw = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !canvas.width) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    drawAnnotations(ctx, { shapes: draft ? [...shapes, draft] : shapes, guides }, canvas.width, canvas.height);
+  };
+
+  useEffect(redraw, [shapes, guides, draft]);
+
+  // Like the refine mask, the canvas matches the image's natural size so the markup is drawn at full resolution.
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = e.currentTarget.naturalWidth;
+    canvas.height = e.currentTarget.naturalHeight;
+    redraw();
+  };
+
+  const pointFor = (e: React.PointerEvent<HTMLCanvasElement>): FramePoint => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = pointFor(e);
+    const base = { id: createId(), color, width: STROKE_WIDTH };
+    if (tool === 'text') {
+      if (label.trim()) setShapes(prev => [...prev, { ...base, kind: 'text', at: point, text: label.trim(), width: TEXT_HEIGHT }]);
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraft(tool === 'freehand'
+      ? { ...base, kind: 'freehand', points: [point] }
+      : { ...base, kind: tool, from: point, to: point });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!draft) return;
+    const point = pointFor(e);
+    if (draft.kind === 'freehand') setDraft({ ...draft, points: [...draft.points, point] });
+    else if (draft.kind === 'arrow' || draft.kind === 'rect') setDraft({ ...draft, to: point });
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+    const keep = draft.kind === 'arrow' || draft.kind === 'rect'
+      ? Math.hypot(draft.to.x - draft.from.x, draft.to.y - draft.from.y) >= MIN_DRAG
+      : true;
+    if (keep) setShapes(prev => [...prev, draft]);
+    setDraft(null);
+  };
+
+  const toggleGuide = (guide: FrameGuide) =>
+    setGuides(prev => prev.includes(guide) ? prev.filter(g => g !== guide) : [...prev, guide]);
+
+  const chipClass = (active: boolean) => `text-[9px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg transition-all ${
+    active ? 'bg-blue-600 text-white' : 'bg-slate-800/60 text-slate-400 hover:text-white'
+  }`;
+
+  return (
+    <div className="space-y-4 bg-slate-950/60 border border-blue-500/20 rounded-3xl p-5">
+      <div className="flex items-center justify-between">
+        <label className="text-[9px] font-black text-blue-500/70 uppercase tracking-[0.3em]">Annotate Frame</label>
+        <button onClick={onClose} className="text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-white transition-all">Close</button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {ANNOTATION_TOOLS.map(option => (
+          <button key={option.value} onClick={() => setTool(option.value)} className={chipClass(tool === option.value)}>{option.label}</button>
+        ))}
+        <div className="flex items-center gap-1.5 ml-2">
+          {ANNOTATION_COLORS.map(swatch => (
+            <button
+              key={swatch}
+              onClick={() => setColor(swatch)}
+              title={swatch}
+              style={{ backgroundColor: swatch }}
+              className={`w-5 h-5 rounded-full border-2 transition-all ${color === swatch ? 'border-white scale-110' : 'border-transparent opacity-70'}`}
+            />
+          ))}
+        </div>
+        {tool === 'text' && (
+          <input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Label, then click the frame"
+            className="flex-1 min-w-[160px] bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-xs text-slate-300 outline-none focus:ring-2 focus:ring-blue-500/20"
+          />
+        )}
+      </div>
+
+      <div className="relative bg-black rounded-2xl overflow-hidden border border-slate-800">
+        <img src={take.imageUrl} alt={title} onLoad={handleImageLoad} className="w-full h-auto block select-none" draggable={false} />
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[9px] font-black text-slate-600 uppercase tracking-widest mr-1">Guides</span>
+        {FRAME_GUIDES.map(option => (
+          <button key={option.value} onClick={() => toggleGuide(option.value)} className={chipClass(guides.includes(option.value))}>{option.label}</button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-end gap-3">
+        <button
+          onClick={() => setShapes(prev => prev.slice(0, -1))}
+          disabled={!shapes.length}
+          className="px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest bg-slate-800 hover:bg-slate-700 text-slate-300 transition-all disabled:opacity-40"
+        >
+          Undo
+        </button>
+        <button
+          onClick={() => { setShapes([]); setGuides([]); }}
+          disabled={!shapes.length && !guides.length}
+          className="px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest text-red-500/60 hover:text-red-400 transition-all disabled:opacity-40"
+        >
+          Clear All
+        </button>
+        <button
+          onClick={() => onSave({ shapes, guides, hidden: false })}
+          className="px-5 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest bg-blue-600 hover:bg-blue-500 text-white transition-all"
+        >
+          Save Markup
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AnnotationEditor;
@@ -0,0 +1,33 @@
+import React, { useEffect, useRef } from 'react';
+import { FrameAnnotations } from '../types';
+import { drawAnnotations } from '../services/annotations';
+
+interface AnnotationOverlayProps {
+  imageUrl: string;
+  annotations: FrameAnnotations;
+}
+
+// Sits over an object-contain image. The canvas takes the frame's natural size and is fitted the same way,
+// so the markup lines up with the picture inside any letterboxing.
+const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({ imageUrl, annotations }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const image = new Image();
+    image.onload = () => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (cancelled || !canvas || !ctx) return;
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      drawAnnotations(ctx, annotations, canvas.width, canvas.height);
+    };
+    image.src = imageUrl;
+    return () => { cancelled = true; };
+  }, [imageUrl, annotations]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full object-contain pointer-events-none" />;
+};
+
+export default AnnotationOverlay;
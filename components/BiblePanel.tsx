@@ -0,0 +1,151 @@
+import React, { useRef, useState } from 'react';
+import { BibleEntry, BibleEntryKind, Scene } from '../types';
+
+interface BiblePanelProps {
+  entries: BibleEntry[];
+  scenes: Scene[];
+  isExtracting: boolean;
+  onExtract: () => void;
+  onAdd: (kind: BibleEntryKind) => void;
+  onUpdate: (id: string, patch: Partial<BibleEntry>) => void;
+  onDelete: (id: string) => void;
+  onUploadReference: (id: string, file: File) => Promise<void>;
+}
+
+const BibleEntryCard: React.FC<{
+  entry: BibleEntry;
+  scenes: Scene[];
+  onUpdate: (patch: Partial<BibleEntry>) => void;
+  onDelete: () => void;
+  onUploadReference: (file: File) => Promise<void>;
+}> = ({ entry, scenes, onUpdate, onDelete, onUploadReference }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isPicking, setIsPicking] = useState(false);
+  const rendered = scenes.filter(s => s.imageId && s.imageUrl);
+  const appearances = scenes.filter(s => s.bibleIds?.includes(entry.id)).length;
+
+  return (
+    <div className="bg-black/30 border border-slate-800 rounded-3xl p-5 space-y-4">
+      <div className="flex items-start gap-4">
+        <div className="w-24 aspect-video shrink-0 bg-slate-950 rounded-xl overflow-hidden border border-slate-800 flex items-center justify-center">
+          {entry.referenceImageUrl
+            ? <img src={entry.referenceImageUrl} alt={entry.name} className="w-full h-full object-cover" />
+            : <span className="text-[8px] font-black text-slate-700 uppercase tracking-widest">No Ref</span>}
+        </div>
+        <div className="flex-1 min-w-0 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              value={entry.name}
+              onChange={(e) => onUpdate({ name: e.target.value })}
+              className="flex-1 min-w-0 bg-transparent text-sm font-black text-white uppercase tracking-tight outline-none border-b border-transparent focus:border-blue-500/40"
+            />
+            <span className="text-[8px] font-black text-slate-600 uppercase tracking-widest shrink-0">{appearances} Beats</span>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => fileInputRef.current?.click()} className="text-[8px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg bg-slate-800/50 text-slate-400 hover:text-white transition-all">Upload Ref</button>
+            {rendered.length > 0 && (
+              <button onClick={() => setIsPicking(!isPicking)} className="text-[8px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg bg-slate-800/50 text-slate-400 hover:text-white transition-all">Pick From Render</button>
+            )}
+            {entry.referenceImageId && (
+              <button onClick={() => onUpdate({ referenceImageId: undefined, referenceImageUrl: undefined })} className="text-[8px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg bg-slate-800/50 text-slate-500 hover:text-white transition-all">Clear Ref</button>
+            )}
+            <button onClick={onDelete} className="text-[8px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg bg-red-500/10 text-red-500/60 hover:text-red-400 transition-all">Remove</button>
+          </div>
+          <input
+            type="file"
+            ref={fileInputRef}
+            className="hidden"
+            accept="image/*"
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              if (file) await onUploadReference(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {isPicking && (
+        <div className="flex gap-2 overflow-x-auto pb-2">
+          {rendered.map(scene => (
+            <button
+              key={scene.id}
+              onClick={() => {
+                onUpdate({ referenceImageId: scene.imageId, referenceImageUrl: scene.imageUrl });
+                setIsPicking(false);
+              }}
+              className="w-28 aspect-video shrink-0 rounded-lg overflow-hidden border border-slate-800 hover:border-blue-500 transition-all relative"
+              title={`Beat ${scene.sceneNumber}: ${scene.title}`}
+            >
+              <img src={scene.imageUrl} alt={scene.title} className="w-full h-full object-cover" />
+              <span className="absolute bottom-1 left-1 text-[8px] font-black bg-black/70 text-white px-1.5 rounded">{scene.sceneNumber}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <textarea
+        value={entry.description}
+        onChange={(e) => onUpdate({ description: e.target.value })}
+        rows={3}
+        placeholder="Canonical visual description used in every frame..."
+        className="w-full bg-slate-950 border border-slate-800 rounded-2xl p-4 text-slate-300 text-xs leading-relaxed outline-none focus:ring-2 focus:ring-blue-500/20 resize-y"
+      />
+    </div>
+  );
+};
+
+const BiblePanel: React.FC<BiblePanelProps> = ({ entries, scenes, isExtracting, onExtract, onAdd, onUpdate, onDelete, onUploadReference }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const characters = entries.filter(e => e.kind === 'character');
+  const locations = entries.filter(e => e.kind === 'location');
+
+  const renderGroup = (label: string, kind: BibleEntryKind, group: BibleEntry[]) => (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <label className="text-[9px] font-black text-blue-500/50 uppercase tracking-[0.3em] px-1">{label}</label>
+        <button onClick={() => onAdd(kind)} className="text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-white transition-colors">+ Add</button>
+      </div>
+      {group.map(entry => (
+        <BibleEntryCard
+          key={entry.id}
+          entry={entry}
+          scenes={scenes}
+          onUpdate={(patch) => onUpdate(entry.id, patch)}
+          onDelete={() => onDelete(entry.id)}
+          onUploadReference={(file) => onUploadReference(entry.id, file)}
+        />
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="bg-slate-900/40 border border-slate-800 rounded-[2.5rem] p-8 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <button onClick={() => setIsOpen(!isOpen)} className="space-y-1 text-left">
+          <h3 className="text-lg font-black text-white tracking-tighter uppercase">Continuity Bible</h3>
+          <p className="text-[9px] font-black text-slate-500 uppercase tracking-[0.3em]">
+            {characters.length} Characters &bull; {locations.length} Locations &bull; {isOpen ? 'Hide' : 'Show'}
+          </p>
+        </button>
+        <button
+          onClick={onExtract}
+          disabled={isExtracting}
+          className="px-5 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-800 text-slate-300 hover:text-white disabled:text-slate-600 transition-all flex items-center gap-2"
+        >
+          {isExtracting && <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white"></div>}
+          {isExtracting ? 'Extracting...' : entries.length ? 'Re-Extract' : 'Extract From Beats'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {renderGroup('Characters', 'character', characters)}
+          {renderGroup('Locations', 'location', locations)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BiblePanel;
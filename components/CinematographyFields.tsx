@@ -0,0 +1,69 @@
+import React from 'react';
+import { Cinematography } from '../types';
+import { CAMERA_ANGLES, CAMERA_MOVEMENTS, labelOf, LIGHTING_KEYS, Option, SHOT_SIZES, TIMES_OF_DAY } from '../services/cinematography';
+
+interface CinematographyFieldsProps {
+  value?: Cinematography;
+  editing: boolean;
+  onChange: (value: Cinematography) => void;
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-800 rounded-xl py-2 px-3 text-[10px] font-black uppercase tracking-widest text-slate-300 outline-none focus:ring-2 focus:ring-blue-500/20";
+
+const CinematographyFields: React.FC<CinematographyFieldsProps> = ({ value: current, editing, onChange }) => {
+  const value: Cinematography = current ?? {};
+  const set = (patch: Partial<Cinematography>) => onChange({ ...value, ...patch });
+
+  if (!editing) {
+    const chips = [
+      labelOf(SHOT_SIZES, value.shotSize),
+      labelOf(CAMERA_ANGLES, value.cameraAngle),
+      value.lens,
+      labelOf(CAMERA_MOVEMENTS, value.movement),
+      labelOf(LIGHTING_KEYS, value.lighting),
+      labelOf(TIMES_OF_DAY, value.timeOfDay),
+      value.location,
+    ].filter(Boolean);
+    if (!chips.length) return null;
+    return (
+      <div className="flex flex-wrap gap-2 px-1">
+        {chips.map((chip, i) => (
+          <span key={i} className="text-[9px] font-black uppercase tracking-widest px-3 py-1 rounded-lg bg-slate-950 border border-slate-800 text-slate-400">{chip}</span>
+        ))}
+      </div>
+    );
+  }
+
+  const select = <T extends string>(label: string, options: Option<T>[], current: T | undefined, update: (v: T | undefined) => void) => (
+    <label className="space-y-1">
+      <span className="text-[8px] font-black text-slate-600 uppercase tracking-[0.2em] px-1">{label}</span>
+      <select value={current ?? ''} onChange={(e) => update((e.target.value || undefined) as T | undefined)} className={inputClass}>
+        <option value="">&mdash;</option>
+        {options.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="space-y-3">
+      <label className="text-[9px] font-black text-blue-500/50 uppercase tracking-[0.3em] px-1">Cinematography</label>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {select('Shot Size', SHOT_SIZES, value.shotSize, shotSize => set({ shotSize }))}
+        {select('Angle', CAMERA_ANGLES, value.cameraAngle, cameraAngle => set({ cameraAngle }))}
+        <label className="space-y-1">
+          <span className="text-[8px] font-black text-slate-600 uppercase tracking-[0.2em] px-1">Lens</span>
+          <input value={value.lens ?? ''} onChange={(e) => set({ lens: e.target.value || undefined })} placeholder="35mm" className={inputClass} />
+        </label>
+        {select('Movement', CAMERA_MOVEMENTS, value.movement, movement => set({ movement }))}
+        {select('Lighting', LIGHTING_KEYS, value.lighting, lighting => set({ lighting }))}
+        {select('Time Of Day', TIMES_OF_DAY, value.timeOfDay, timeOfDay => set({ timeOfDay }))}
+        <label className="space-y-1 col-span-2">
+          <span className="text-[8px] font-black text-slate-600 uppercase tracking-[0.2em] px-1">Location</span>
+          <input value={value.location ?? ''} onChange={(e) => set({ location: e.target.value || undefined })} className={inputClass} />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default CinematographyFields;
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { ContinuityIssue, ContinuityIssueType, ContinuityReport, ContinuitySeverity, Scene } from '../types';
+import { ContinuityProgress } from '../services/geminiService';
+import { isStaleIssue } from '../services/continuity';
+
+interface ContinuityPanelProps {
+  report?: ContinuityReport;
+  scenes: Scene[];
+  progress: ContinuityProgress | null;
+  error: string | null;
+  onCheck: () => void;
+  onCancel: () => void;
+  onApplyFix: (issueId: string) => void;
+  onDismiss: (issueId: string) => void;
+  onJumpToScene: (sceneId: string) => void;
+}
+
+export const CONTINUITY_TYPE_LABELS: Record<ContinuityIssueType, string> = {
+  'wardrobe': 'Wardrobe',
+  'prop': 'Prop',
+  'time-of-day': 'Time Of Day',
+  'lighting': 'Lighting',
+  'character': 'Character',
+  'location': 'Location',
+  'other': 'Other',
+};
+
+export const SEVERITY_CLASS: Record<ContinuitySeverity, string> = {
+  high: 'bg-red-500/15 text-red-400 border-red-500/30',
+  medium: 'bg-amber-500/15 text-amber-400 border-amber-500/30',
+  low: 'bg-slate-800 text-slate-400 border-slate-700',
+};
+
+const SEVERITY_ORDER: Record<ContinuitySeverity, number> = { high: 0, medium: 1, low: 2 };
+
+const ContinuityPanel: React.FC<ContinuityPanelProps> = ({
+  report, scenes, progress, error, onCheck, onCancel, onApplyFix, onDismiss, onJumpToScene
+}) => {
+  const [isOpen, setIsOpen] = useState(true);
+  const rendered = scenes.filter(scene => scene.imageId).length;
+  const open = (report?.issues ?? [])
+    .filter(issue => !issue.resolved)
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+  const resolved = (report?.issues.length ?? 0) - open.length;
+  const sceneById = new Map<string, Scene>(scenes.map(scene => [scene.id, scene]));
+
+  const renderIssue = (issue: ContinuityIssue) => {
+    const fixScene = sceneById.get(issue.fixSceneId);
+    const stale = isStaleIssue(issue, scenes);
+    return (
+      <li key={issue.id} className={`bg-slate-950/60 border border-slate-800 rounded-2xl p-5 space-y-3 ${stale ? 'opacity-60' : ''}`}>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className={`px-2 py-1 rounded-md border text-[8px] font-black uppercase tracking-widest ${SEVERITY_CLASS[issue.severity]}`}>{issue.severity}</span>
+          <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{CONTINUITY_TYPE_LABELS[issue.type]}</span>
+          <span className="text-slate-700">&bull;</span>
+          {issue.sceneIds.map(id => sceneById.get(id)).filter((s): s is Scene => !!s).map(scene => (
+            <button
+              key={scene.id}
+              onClick={() => onJumpToScene(scene.id)}
+              className="px-2 py-1 rounded-md text-[9px] font-black uppercase tracking-widest bg-slate-800 hover:bg-slate-700 text-blue-400 transition-all"
+            >
+              Beat {scene.sceneNumber}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-slate-300">{issue.description}</p>
+        {fixScene && (
+          <div className="space-y-1">
+            <p className="text-[9px] font-black text-blue-500/60 uppercase tracking-[0.3em]">Suggested Prompt For Beat {fixScene.sceneNumber}</p>
+            <p className="text-[11px] text-slate-400 italic leading-relaxed">{issue.suggestedPrompt}</p>
+          </div>
+        )}
+        {stale && <p className="text-[10px] font-bold text-amber-400/80">A frame has changed since this was found; check again to confirm.</p>}
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={() => onApplyFix(issue.id)}
+            disabled={!fixScene || !!fixScene.isGenerating}
+            className="px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-blue-600 hover:bg-blue-500 text-white transition-all disabled:opacity-40"
+          >
+            Apply Fix & Re-render
+          </button>
+          <button
+            onClick={() => onDismiss(issue.id)}
+            className="px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-800 hover:bg-slate-700 text-slate-300 transition-all"
+          >
+            Dismiss
+          </button>
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <div className="bg-slate-900/40 border border-slate-800 rounded-[2.5rem] p-8 space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+        <div className="space-y-1">
+          <h3 className="text-lg font-black text-white tracking-tighter uppercase">Continuity</h3>
+          <p className="text-[9px] font-black text-slate-500 uppercase tracking-[0.3em]">
+            {report
+              ? <>{report.frameCount} Frames Checked &bull; {open.length} Open &bull; {resolved} Resolved &bull; {new Date(report.checkedAt).toLocaleString()}</>
+              : `${rendered} Rendered Frames • Not Checked Yet`}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          {report && report.issues.length > 0 && (
+            <button
+              onClick={() => setIsOpen(!isOpen)}
+              className="px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-800 hover:bg-slate-700 text-slate-300 transition-all"
+            >
+              {isOpen ? 'Hide Issues' : 'Show Issues'}
+            </button>
+          )}
+          <button
+            onClick={onCheck}
+            disabled={!!progress || rendered < 2}
+            title={rendered < 2 ? 'Render at least two frames to compare' : 'Compare consecutive rendered frames'}
+            className="px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest bg-blue-600 hover:bg-blue-500 text-white transition-all disabled:opacity-40"
+          >
+            {report ? 'Check Again' : 'Check Continuity'}
+          </button>
+        </div>
+      </div>
+
+      {progress && (
+        <div className="flex items-center gap-4">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-400 shrink-0"></div>
+          <div className="flex-1 h-1.5 bg-slate-950 rounded-full overflow-hidden">
+            <div className="h-full bg-blue-500 transition-all" style={{ width: `${100 * progress.completedWindows / Math.max(1, progress.totalWindows)}%` }} />
+          </div>
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest shrink-0">
+            {progress.completedWindows} of {progress.totalWindows} windows
+          </span>
+          <button onClick={onCancel} className="text-[9px] font-black uppercase tracking-widest text-red-400 hover:text-red-300 shrink-0">Cancel</button>
+        </div>
+      )}
+
+      {error && <p className="text-[10px] font-bold text-red-400 px-1">{error}</p>}
+
+      {report && !progress && report.issues.length === 0 && (
+        <p className="text-[10px] font-bold text-emerald-400/80 px-1">No continuity issues found between neighbouring frames.</p>
+      )}
+
+      {isOpen && open.length > 0 && <ul className="space-y-3">{open.map(renderIssue)}</ul>}
+    </div>
+  );
+};
+
+export default ContinuityPanel;
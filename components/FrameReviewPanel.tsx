@@ -0,0 +1,266 @@
+import React, { useState } from 'react';
+import { CommentPin, ReviewComment, ReviewStatus, Scene } from '../types';
+import { commentThreads, openThreadCount, REVIEW_STATUSES, reviewStatusOf } from '../services/review';
+
+interface FrameReviewPanelProps {
+  scene: Scene;
+  reviewerName: string;
+  onReviewerNameChange: (name: string) => void;
+  onStatusChange: (status: ReviewStatus) => void;
+  onAddComment: (text: string, pin?: CommentPin, parentId?: string) => void;
+  onUpdateComment: (commentId: string, patch: Partial<Pick<ReviewComment, 'text' | 'resolved'>>) => void;
+  onDeleteComment: (commentId: string) => void;
+}
+
+export const REVIEW_STATUS_CLASS: Record<ReviewStatus, string> = {
+  'draft': 'bg-slate-800 text-slate-400 border-slate-700',
+  'in-review': 'bg-blue-500/15 text-blue-300 border-blue-500/30',
+  'needs-changes': 'bg-red-500/15 text-red-400 border-red-500/30',
+  'approved': 'bg-emerald-500/15 text-emerald-400 border-emerald-500/30',
+};
+
+const CommentMeta: React.FC<{ comment: ReviewComment }> = ({ comment }) => (
+  <p className="text-[9px] font-black uppercase tracking-widest text-slate-500">
+    {comment.author} &bull; {new Date(comment.timestamp).toLocaleString()}
+  </p>
+);
+
+// Pins are placed on the hero frame. Comments left on an earlier frame keep their text but not their marker.
+const FrameReviewPanel: React.FC<FrameReviewPanelProps> = ({
+  scene, reviewerName, onReviewerNameChange, onStatusChange, onAddComment, onUpdateComment, onDeleteComment
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [pin, setPin] = useState<CommentPin | null>(null);
+  const [isPlacingPin, setIsPlacingPin] = useState(false);
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [showResolved, setShowResolved] = useState(false);
+
+  const status = reviewStatusOf(scene);
+  const threads = commentThreads(scene.review?.comments ?? []);
+  const openCount = openThreadCount(scene);
+  const visible = threads.filter(thread => showResolved || !thread.comment.resolved);
+  const pinned = threads
+    .map((thread, i) => ({ thread, number: i + 1 }))
+    .filter(({ thread }) => thread.comment.pin && thread.comment.imageId === scene.imageId && (showResolved || !thread.comment.resolved));
+
+  const handleFrameClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!isPlacingPin) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    setPin({
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    });
+    setIsPlacingPin(false);
+  };
+
+  const submitComment = () => {
+    if (!text.trim()) return;
+    onAddComment(text.trim(), pin ?? undefined);
+    setText('');
+    setPin(null);
+    setIsPlacingPin(false);
+  };
+
+  const submitReply = (parentId: string) => {
+    if (!replyText.trim()) return;
+    onAddComment(replyText.trim(), undefined, parentId);
+    setReplyText('');
+    setReplyTo(null);
+  };
+
+  return (
+    <div className="bg-slate-950/40 border border-slate-800 rounded-3xl p-6 space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <label className="text-[9px] font-black text-slate-500 uppercase tracking-[0.3em]">Review</label>
+          <select
+            value={status}
+            onChange={(e) => onStatusChange(e.target.value as ReviewStatus)}
+            className={`rounded-lg border py-1.5 px-3 text-[9px] font-black uppercase tracking-widest outline-none cursor-pointer ${REVIEW_STATUS_CLASS[status]}`}
+          >
+            {REVIEW_STATUSES.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+          {scene.review?.statusChangedBy && (
+            <span className="text-[9px] font-bold text-slate-600">by {scene.review.statusChangedBy}</span>
+          )}
+        </div>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-white"
+        >
+          {isOpen ? 'Hide Comments' : `Comments${openCount ? ` • ${openCount} Open` : threads.length ? ` • ${threads.length}` : ''}`}
+        </button>
+      </div>
+
+      {isOpen && (
+        <>
+          {scene.imageUrl && (pinned.length > 0 || isPlacingPin || pin) && (
+            <div
+              onClick={handleFrameClick}
+              className={`relative rounded-2xl overflow-hidden border border-slate-800 ${isPlacingPin ? 'cursor-crosshair ring-2 ring-blue-500/40' : ''}`}
+            >
+              <img src={scene.imageUrl} alt={scene.title} className="w-full h-auto block" />
+              {pinned.map(({ thread, number }) => (
+                <span
+                  key={thread.comment.id}
+                  title={thread.comment.text}
+                  style={{ left: `${thread.comment.pin!.x * 100}%`, top: `${thread.comment.pin!.y * 100}%` }}
+                  className={`absolute -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded-full flex items-center justify-center text-[10px] font-black border-2 border-white shadow-lg ${
+                    thread.comment.resolved ? 'bg-slate-600 text-slate-200' : 'bg-red-500 text-white'
+                  }`}
+                >
+                  {number}
+                </span>
+              ))}
+              {pin && (
+                <span
+                  style={{ left: `${pin.x * 100}%`, top: `${pin.y * 100}%` }}
+                  className="absolute -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-blue-500 border-2 border-white shadow-lg animate-pulse"
+                />
+              )}
+              {isPlacingPin && (
+                <span className="absolute top-3 left-3 bg-black/70 px-2 py-1 rounded-lg text-[8px] font-black text-blue-300 uppercase tracking-widest">
+                  Click the frame to place the pin
+                </span>
+              )}
+            </div>
+          )}
+
+          {visible.length > 0 && (
+            <ul className="space-y-3">
+              {visible.map(({ comment, replies }) => (
+                <li key={comment.id} className={`bg-black/30 border border-slate-800 rounded-2xl p-4 space-y-3 ${comment.resolved ? 'opacity-60' : ''}`}>
+                  <div className="flex items-start gap-3">
+                    {comment.pin && (
+                      <span className="w-5 h-5 shrink-0 rounded-full bg-red-500/80 flex items-center justify-center text-[9px] font-black text-white">
+                        {threads.findIndex(thread => thread.comment.id === comment.id) + 1}
+                      </span>
+                    )}
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <CommentMeta comment={comment} />
+                      <p className="text-xs text-slate-300 whitespace-pre-wrap">{comment.text}</p>
+                      {comment.imageId && comment.imageId !== scene.imageId && (
+                        <p className="text-[9px] font-bold text-slate-600">Left on an earlier frame</p>
+                      )}
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <button
+                        onClick={() => onUpdateComment(comment.id, { resolved: !comment.resolved })}
+                        className="text-[9px] font-black uppercase tracking-widest text-emerald-400/70 hover:text-emerald-300"
+                      >
+                        {comment.resolved ? 'Reopen' : 'Resolve'}
+                      </button>
+                      <button
+                        onClick={() => confirm('Delete this comment and its replies?') && onDeleteComment(comment.id)}
+                        className="text-[9px] font-black uppercase tracking-widest text-red-500/50 hover:text-red-400"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+
+                  {replies.length > 0 && (
+                    <ul className="ml-8 space-y-2 border-l border-slate-800 pl-4">
+                      {replies.map(reply => (
+                        <li key={reply.id} className="space-y-1">
+                          <div className="flex items-center justify-between gap-3">
+                            <CommentMeta comment={reply} />
+                            <button
+                              onClick={() => onDeleteComment(reply.id)}
+                              className="text-[9px] font-black uppercase tracking-widest text-red-500/40 hover:text-red-400"
+                            >
+                              Delete
+                            </button>
+                          </div>
+                          <p className="text-xs text-slate-400 whitespace-pre-wrap">{reply.text}</p>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {replyTo === comment.id ? (
+                    <div className="ml-8 flex gap-2">
+                      <input
+                        value={replyText}
+                        onChange={(e) => setReplyText(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && submitReply(comment.id)}
+                        placeholder="Reply..."
+                        autoFocus
+                        className="flex-1 bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-xs text-slate-300 outline-none focus:ring-2 focus:ring-blue-500/20"
+                      />
+                      <button
+                        onClick={() => submitReply(comment.id)}
+                        disabled={!replyText.trim() || !reviewerName.trim()}
+                        className="px-3 rounded-xl text-[9px] font-black uppercase tracking-widest bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-40"
+                      >
+                        Reply
+                      </button>
+                      <button onClick={() => setReplyTo(null)} className="px-2 text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-white">Cancel</button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => { setReplyTo(comment.id); setReplyText(''); }}
+                      className="ml-8 text-[9px] font-black uppercase tracking-widest text-blue-400/70 hover:text-blue-300"
+                    >
+                      Reply
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {threads.some(thread => thread.comment.resolved) && (
+            <button
+              onClick={() => setShowResolved(!showResolved)}
+              className="text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-white"
+            >
+              {showResolved ? 'Hide Resolved' : 'Show Resolved'}
+            </button>
+          )}
+
+          <div className="space-y-3">
+            <div className="flex items-center gap-3">
+              <label className="text-[9px] font-black text-slate-600 uppercase tracking-widest shrink-0">Commenting As</label>
+              <input
+                value={reviewerName}
+                onChange={(e) => onReviewerNameChange(e.target.value)}
+                placeholder="Your name"
+                className="flex-1 bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-xs text-slate-300 outline-none focus:ring-2 focus:ring-blue-500/20"
+              />
+            </div>
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              rows={2}
+              placeholder="Leave a note on this frame..."
+              className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-xs text-slate-300 outline-none focus:ring-2 focus:ring-blue-500/20 resize-y"
+            />
+            <div className="flex flex-wrap items-center justify-end gap-3">
+              {scene.imageUrl && (
+                <button
+                  onClick={() => pin ? setPin(null) : setIsPlacingPin(!isPlacingPin)}
+                  className="px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest bg-slate-800 hover:bg-slate-700 text-slate-300 transition-all"
+                >
+                  {pin ? 'Remove Pin' : isPlacingPin ? 'Cancel Pin' : 'Pin To Frame'}
+                </button>
+              )}
+              <button
+                onClick={submitComment}
+                disabled={!text.trim() || !reviewerName.trim()}
+                title={reviewerName.trim() ? undefined : 'Enter your name to comment'}
+                className="px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest bg-blue-600 hover:bg-blue-500 text-white transition-all disabled:opacity-40"
+              >
+                Comment
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FrameReviewPanel;
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { toAIServiceError } from '../services/aiErrors';
+
+interface InsertBeatBarProps {
+  onInsertBlank: () => void;
+  onInsertDrafted: () => Promise<void>;
+}
+
+const InsertBeatBar: React.FC<InsertBeatBarProps> = ({ onInsertBlank, onInsertDrafted }) => {
+  const [drafting, setDrafting] = useState(false);
+  const [draftError, setDraftError] = useState<string | null>(null);
+
+  const handleDraft = async () => {
+    setDrafting(true);
+    setDraftError(null);
+    try {
+      await onInsertDrafted();
+    } catch (err) {
+      console.error("Beat Draft Error:", err);
+      setDraftError(`Could not draft a new beat (${toAIServiceError(err).message}). Try again or insert a blank beat.`);
+    } finally {
+      setDrafting(false);
+    }
+  };
+
+  return (
+    <div className="group/insert flex items-center gap-4 -my-12 py-4">
+      <div className="flex-1 h-px bg-slate-800/0 group-hover/insert:bg-slate-800 transition-colors" />
+      <div className={`flex items-center gap-2 transition-opacity ${drafting || draftError ? 'opacity-100' : 'opacity-0 group-hover/insert:opacity-100'}`}>
+        <button
+          onClick={onInsertBlank}
+          disabled={drafting}
+          className="text-[9px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg bg-slate-900 border border-slate-800 text-slate-500 hover:text-white transition-all"
+        >
+          + Blank Beat
+        </button>
+        <button
+          onClick={handleDraft}
+          disabled={drafting}
+          className="text-[9px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg bg-slate-900 border border-slate-800 text-blue-400/70 hover:text-white transition-all flex items-center gap-2"
+        >
+          {drafting && <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white"></div>}
+          {drafting ? 'Drafting...' : '+ AI Beat'}
+        </button>
+        {draftError && <span className="text-[10px] text-red-400">{draftError}</span>}
+      </div>
+      <div className="flex-1 h-px bg-slate-800/0 group-hover/insert:bg-slate-800 transition-colors" />
+    </div>
+  );
+};
+
+export default InsertBeatBar;
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { PeriodNotes } from '../types';
+import { applyCorrection } from '../services/periodResearch';
+
+interface PeriodNotesPanelProps {
+  notes: PeriodNotes;
+  imagePrompt: string;
+  isBusy: boolean;
+  onApplyCorrection: (anachronismId: string) => void;
+  onDismiss: (anachronismId: string) => void;
+}
+
+// Open warnings are always shown; the notes themselves fold away.
+const PeriodNotesPanel: React.FC<PeriodNotesPanelProps> = ({ notes, imagePrompt, isBusy, onApplyCorrection, onDismiss }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const warnings = notes.anachronisms.filter(a => !a.resolved);
+  const isStale = notes.researchedPrompt !== imagePrompt;
+
+  const fields: [string, string][] = [
+    ['Clothing', notes.clothing],
+    ['Technology', notes.technology],
+    ['Architecture', notes.architecture],
+  ];
+
+  return (
+    <div className={`rounded-3xl border p-5 space-y-3 ${warnings.length ? 'border-amber-500/30 bg-amber-500/5' : 'border-slate-800 bg-slate-950/40'}`}>
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-[9px] font-black uppercase tracking-[0.3em] text-slate-400 truncate">
+          Period &bull; {notes.era} &bull; {notes.region}
+          {warnings.length > 0 && <span className="text-amber-400"> &bull; {warnings.length} Anachronism{warnings.length === 1 ? '' : 's'}</span>}
+        </p>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-white shrink-0"
+        >
+          {isOpen ? 'Hide Notes' : 'Show Notes'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <dl className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {fields.map(([label, value]) => (
+            <div key={label} className="space-y-1">
+              <dt className="text-[8px] font-black text-slate-600 uppercase tracking-widest">{label}</dt>
+              <dd className="text-[11px] text-slate-400 leading-relaxed">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      {isStale && (
+        <p className="text-[10px] font-bold text-slate-500">The prompt has changed since this research; run it again to re-check.</p>
+      )}
+
+      {warnings.map(warning => {
+        const applicable = applyCorrection(imagePrompt, warning) !== null;
+        return (
+          <div key={warning.id} className="flex flex-col md:flex-row md:items-center gap-3 bg-black/30 border border-amber-500/20 rounded-2xl px-4 py-3">
+            <div className="flex-1 min-w-0 space-y-1 text-[11px] leading-relaxed">
+              <p>
+                <span className="text-red-400/80 line-through">{warning.term}</span>
+                <span className="text-slate-600"> &rarr; </span>
+                <span className="text-emerald-300">{warning.correction}</span>
+              </p>
+              <p className="text-slate-500">{warning.explanation}</p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <button
+                onClick={() => onApplyCorrection(warning.id)}
+                disabled={isBusy || !applicable}
+                title={applicable ? 'Replace the wording in the prompt' : 'The prompt no longer contains this wording'}
+                className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest bg-amber-500/20 hover:bg-amber-500/30 text-amber-300 transition-all disabled:opacity-40"
+              >
+                Apply
+              </button>
+              <button
+                onClick={() => onDismiss(warning.id)}
+                className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest bg-slate-800 hover:bg-slate-700 text-slate-400 transition-all"
+              >
+                Ignore
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PeriodNotesPanel;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Scene } from '../types';
+import { ResearchProgress } from '../services/geminiService';
+import { hasPeriodWarnings } from '../services/periodResearch';
+
+interface PeriodResearchPanelProps {
+  scenes: Scene[];
+  progress: ResearchProgress | null;
+  error: string | null;
+  warningsOnly: boolean;
+  onResearch: () => void;
+  onCancel: () => void;
+  onWarningsOnlyChange: (warningsOnly: boolean) => void;
+}
+
+// Runs the optional research pass and narrows the storyboard to beats whose prompts have open anachronism warnings.
+const PeriodResearchPanel: React.FC<PeriodResearchPanelProps> = ({
+  scenes, progress, error, warningsOnly, onResearch, onCancel, onWarningsOnlyChange
+}) => {
+  const researched = scenes.filter(scene => scene.periodNotes).length;
+  const flagged = scenes.filter(hasPeriodWarnings).length;
+
+  return (
+    <div className="bg-slate-900/40 border border-slate-800 rounded-[2.5rem] p-8 space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+        <div className="space-y-1">
+          <h3 className="text-lg font-black text-white tracking-tighter uppercase">Period Research</h3>
+          <p className="text-[9px] font-black text-slate-500 uppercase tracking-[0.3em]">
+            {researched}/{scenes.length} Beats Researched &bull;{' '}
+            <span className={flagged ? 'text-amber-400' : ''}>{flagged} With Warnings</span>
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => onWarningsOnlyChange(!warningsOnly)}
+            disabled={!flagged && !warningsOnly}
+            className={`px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-40 ${
+              warningsOnly ? 'bg-amber-500/20 text-amber-300 hover:bg-amber-500/30' : 'bg-slate-800 hover:bg-slate-700 text-slate-300'
+            }`}
+          >
+            {warningsOnly ? 'Show All Beats' : 'Only Beats With Warnings'}
+          </button>
+          <button
+            onClick={onResearch}
+            disabled={!!progress || !scenes.length}
+            className="px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest bg-blue-600 hover:bg-blue-500 text-white transition-all disabled:opacity-40"
+          >
+            {researched ? 'Research Again' : 'Research Period'}
+          </button>
+        </div>
+      </div>
+
+      {progress && (
+        <div className="flex items-center gap-4">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-400 shrink-0"></div>
+          <div className="flex-1 h-1.5 bg-slate-950 rounded-full overflow-hidden">
+            <div className="h-full bg-blue-500 transition-all" style={{ width: `${100 * progress.completedBatches / Math.max(1, progress.totalBatches)}%` }} />
+          </div>
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest shrink-0">
+            {progress.completedBatches} of {progress.totalBatches} batches
+          </span>
+          <button onClick={onCancel} className="text-[9px] font-black uppercase tracking-widest text-red-400 hover:text-red-300 shrink-0">Cancel</button>
+        </div>
+      )}
+
+      {error && <p className="text-[10px] font-bold text-red-400 px-1">{error}</p>}
+    </div>
+  );
+};
+
+export default PeriodResearchPanel;
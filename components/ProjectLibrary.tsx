@@ -0,0 +1,157 @@
+import React, { useRef, useState } from 'react';
+import { ProjectSummary } from '../types';
+import { PackageOptions } from '../services/projectPackage';
+
+interface ProjectLibraryProps {
+  projects: ProjectSummary[];
+  currentProjectId: string;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => Promise<void>;
+  onDuplicate: (id: string) => Promise<void>;
+  onExport: (id: string, options: PackageOptions) => Promise<void>;
+  onImport: (file: File) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onNew: () => void;
+  onClose: () => void;
+}
+
+const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ projects, currentProjectId, onOpen, onRename, onDuplicate, onExport, onImport, onDelete, onNew, onClose }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [includeMarkup, setIncludeMarkup] = useState(false);
+  const [packageError, setPackageError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (project: ProjectSummary) => {
+    setEditingId(project.id);
+    setDraftName(project.name);
+  };
+
+  const commitRename = async () => {
+    if (editingId && draftName.trim()) {
+      await onRename(editingId, draftName.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!confirm(`Delete "${project.name}" and all of its renders? This cannot be undone.`)) return;
+    await onDelete(project.id);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImporting(true);
+    setPackageError(null);
+    try {
+      await onImport(file);
+    } catch (err) {
+      console.error("Package Import Error:", err);
+      setPackageError(`Package import failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleExport = async (project: ProjectSummary) => {
+    setPackageError(null);
+    try {
+      await onExport(project.id, { includeMarkup });
+    } catch (err) {
+      console.error("Package Export Error:", err);
+      setPackageError(`Package export failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return (
+    <div className="space-y-12 animate-in fade-in slide-in-from-bottom-10 duration-700">
+      <div className="flex flex-col md:flex-row items-end justify-between gap-8 border-b border-slate-800 pb-12">
+        <div className="space-y-4">
+          <span className="px-3 py-1 bg-blue-600 text-white text-[10px] font-black uppercase tracking-[0.2em] rounded-full">Project Library</span>
+          <h2 className="text-6xl font-black text-white tracking-tighter leading-tight">Saved Storyboards</h2>
+          <p className="text-slate-500 text-[10px] font-black uppercase tracking-widest">{projects.length} Projects Stored Locally</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onNew}
+            className="px-8 py-4 rounded-2xl text-xs font-black uppercase tracking-widest bg-blue-600 hover:bg-blue-500 text-white transition-all"
+          >
+            New Project
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={importing}
+            className="px-8 py-4 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-400 hover:text-white border border-slate-800 hover:border-slate-600 transition-all"
+          >
+            {importing ? 'Importing...' : 'Import Package'}
+          </button>
+          <input ref={importInputRef} type="file" accept=".zip" className="hidden" onChange={handleImport} />
+          <label className="flex items-center gap-2 px-4 text-[10px] font-black uppercase tracking-widest text-slate-500 cursor-pointer" title="Adds copies of hero frames with their markup drawn in">
+            <input type="checkbox" checked={includeMarkup} onChange={(e) => setIncludeMarkup(e.target.checked)} />
+            Export Markup
+          </label>
+          <button
+            onClick={onClose}
+            className="px-8 py-4 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-500 hover:text-white border border-slate-800 hover:border-slate-600 transition-all"
+          >
+            Back
+          </button>
+        </div>
+      </div>
+      {packageError && <p className="text-[10px] text-red-400">{packageError}</p>}
+
+      {projects.length === 0 ? (
+        <div className="text-center py-32 border-2 border-dashed border-slate-800 rounded-[3rem] bg-slate-900/10">
+          <span className="text-sm font-black uppercase tracking-[0.4em] text-slate-700">No Saved Projects</span>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {projects.map(project => (
+            <div
+              key={project.id}
+              className={`bg-slate-900/40 border rounded-[2rem] p-6 flex flex-col md:flex-row md:items-center justify-between gap-6 transition-all ${
+                project.id === currentProjectId ? 'border-blue-500/40' : 'border-slate-800 hover:border-slate-600'
+              }`}
+            >
+              <div className="space-y-2 min-w-0 flex-1">
+                {editingId === project.id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="w-full bg-slate-950 border border-slate-800 rounded-xl p-3 text-white font-bold focus:ring-2 focus:ring-blue-500/20 outline-none"
+                  />
+                ) : (
+                  <h4 className="text-lg font-black text-slate-100 uppercase tracking-tight truncate">{project.name}</h4>
+                )}
+                <div className="flex flex-wrap items-center gap-4 text-[9px] font-black uppercase tracking-widest text-slate-500">
+                  <span>{project.sceneCount} Beats</span>
+                  <span>{project.renderedCount} Rendered</span>
+                  {project.style && <span className="text-blue-400/70 truncate max-w-[200px]">{project.style}</span>}
+                  <span>Updated {new Date(project.updatedAt).toLocaleString()}</span>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <button onClick={() => onOpen(project.id)} className="text-[9px] font-black uppercase tracking-widest px-4 py-2 rounded-xl bg-blue-600/20 text-blue-400 hover:bg-blue-600 hover:text-white transition-all">Open</button>
+                <button onClick={() => startRename(project)} className="text-[9px] font-black uppercase tracking-widest px-4 py-2 rounded-xl bg-slate-800/50 text-slate-400 hover:text-white transition-all">Rename</button>
+                <button onClick={() => onDuplicate(project.id)} className="text-[9px] font-black uppercase tracking-widest px-4 py-2 rounded-xl bg-slate-800/50 text-slate-400 hover:text-white transition-all">Duplicate</button>
+                <button onClick={() => handleExport(project)} className="text-[9px] font-black uppercase tracking-widest px-4 py-2 rounded-xl bg-slate-800/50 text-slate-400 hover:text-white transition-all">Export</button>
+                <button onClick={() => handleDelete(project)} className="text-[9px] font-black uppercase tracking-widest px-4 py-2 rounded-xl bg-red-500/10 text-red-500/60 hover:text-red-400 transition-all">Delete</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectLibrary;
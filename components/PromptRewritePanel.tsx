@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react';
+import { PromptRevision, Scene } from '../types';
+import { RewrittenPrompt } from '../services/aiProvider';
+import { toAIServiceError } from '../services/aiErrors';
+import { diffWords, DiffKind } from '../services/wordDiff';
+
+interface PromptRewritePanelProps {
+  scene: Scene;
+  isBusy: boolean;
+  onRewrite: (instruction: string) => Promise<RewrittenPrompt>;
+  onAccept: (imagePrompt: string, instruction: string) => void;
+  onRestore: (revision: PromptRevision) => void;
+  onClose: () => void;
+}
+
+interface Suggestion extends RewrittenPrompt {
+  basePrompt: string; // The prompt the rewrite started from, which the diff is against
+  instruction: string;
+}
+
+const DIFF_CLASS: Record<DiffKind, string> = {
+  same: 'text-slate-400',
+  added: 'bg-emerald-500/20 text-emerald-300 rounded',
+  removed: 'bg-red-500/15 text-red-400/80 line-through rounded',
+};
+
+/**
+ * Rewrites one beat's prompt from a short note, with its neighbours as context. The result is shown as a
+ * word diff against the current prompt and only replaces it once accepted; replaced prompts stay restorable.
+ */
+const PromptRewritePanel: React.FC<PromptRewritePanelProps> = ({ scene, isBusy, onRewrite, onAccept, onRestore, onClose }) => {
+  const [instruction, setInstruction] = useState('');
+  const [suggestion, setSuggestion] = useState<Suggestion | null>(null);
+  const [isRewriting, setIsRewriting] = useState(false);
+  const [rewriteError, setRewriteError] = useState<string | null>(null);
+  const revisions = [...(scene.promptRevisions ?? [])].reverse();
+
+  const diff = useMemo(
+    () => suggestion ? diffWords(suggestion.basePrompt, suggestion.prompt) : [],
+    [suggestion]
+  );
+
+  const handleRewrite = async () => {
+    const note = instruction.trim();
+    if (!note) return;
+    setIsRewriting(true);
+    setRewriteError(null);
+    try {
+      const result = await onRewrite(note);
+      setSuggestion({ ...result, basePrompt: scene.imagePrompt, instruction: note });
+    } catch (err) {
+      console.error("Prompt Rewrite Error:", err);
+      setRewriteError(toAIServiceError(err).message);
+    } finally {
+      setIsRewriting(false);
+    }
+  };
+
+  const handleAccept = () => {
+    if (!suggestion) return;
+    onAccept(suggestion.prompt, suggestion.instruction);
+    setSuggestion(null);
+    setInstruction('');
+  };
+
+  return (
+    <div className="rounded-3xl border border-blue-500/20 bg-blue-500/5 p-6 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <label className="text-[9px] font-black text-blue-400/80 uppercase tracking-[0.3em] px-1">Improve Prompt</label>
+        <button onClick={onClose} className="text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-white">Close</button>
+      </div>
+
+      {suggestion ? (
+        <div className="space-y-3">
+          <p className="text-[10px] text-slate-500 px-1">{suggestion.notes}</p>
+          <div className="bg-black/40 border border-slate-800/50 p-5 rounded-2xl text-sm leading-relaxed font-medium italic whitespace-pre-wrap">
+            {diff.map((segment, i) => <span key={i} className={DIFF_CLASS[segment.kind]}>{segment.text}</span>)}
+          </div>
+          {suggestion.basePrompt !== scene.imagePrompt && (
+            <p className="text-[10px] font-bold text-amber-400/80 px-1">The prompt was edited since this was suggested; accepting replaces the edit.</p>
+          )}
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={handleAccept}
+              disabled={isBusy}
+              className="px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-blue-600 hover:bg-blue-500 text-white transition-all disabled:opacity-40"
+            >
+              Accept
+            </button>
+            <button
+              onClick={() => setSuggestion(null)}
+              className="px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-800 hover:bg-slate-700 text-slate-300 transition-all"
+            >
+              Reject
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-col md:flex-row gap-3">
+          <input
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleRewrite()}
+            placeholder="e.g. wider, more crowd, morning fog"
+            disabled={isRewriting}
+            className="flex-1 min-w-0 bg-slate-950 border border-slate-800 rounded-xl px-4 py-2.5 text-xs text-slate-200 outline-none focus:ring-2 focus:ring-blue-500/20"
+          />
+          <button
+            onClick={handleRewrite}
+            disabled={isRewriting || !instruction.trim()}
+            className="px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-blue-600 hover:bg-blue-500 text-white transition-all disabled:opacity-40 flex items-center justify-center gap-2"
+          >
+            {isRewriting && <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white"></div>}
+            {isRewriting ? 'Rewriting...' : 'Rewrite'}
+          </button>
+        </div>
+      )}
+      {rewriteError && <p className="text-[10px] font-bold text-red-400 px-1">{rewriteError}</p>}
+
+      {revisions.length > 0 && (
+        <div className="space-y-2 pt-2 border-t border-slate-800/60">
+          <label className="text-[9px] font-black text-slate-500 uppercase tracking-[0.3em] px-1">Earlier Prompts</label>
+          {revisions.map(revision => (
+            <div key={revision.id} className="flex items-start gap-3 bg-slate-950/60 border border-slate-800 rounded-2xl px-4 py-3">
+              <div className="flex-1 min-w-0 space-y-1">
+                <p className="text-[9px] font-black text-slate-600 uppercase tracking-widest truncate">
+                  Before &ldquo;{revision.instruction}&rdquo; &bull; {new Date(revision.timestamp).toLocaleString()}
+                </p>
+                <p className="text-[11px] text-slate-400 italic line-clamp-2" title={revision.prompt}>{revision.prompt || 'Empty prompt'}</p>
+              </div>
+              <button
+                onClick={() => onRestore(revision)}
+                disabled={isBusy || revision.prompt === scene.imagePrompt}
+                className="shrink-0 px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest bg-slate-800 hover:bg-slate-700 text-slate-300 transition-all disabled:opacity-40"
+              >
+                Restore
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptRewritePanel;
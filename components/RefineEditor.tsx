@@ -0,0 +1,153 @@
+import React, { useRef, useState } from 'react';
+import { Take } from '../types';
+
+interface RefineEditorProps {
+  take: Take;
+  title: string;
+  isBusy: boolean;
+  onApply: (instruction: string, maskDataUrl?: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Paint over the region to change and describe the change. With nothing painted the instruction
+ * applies to the whole frame.
+ */
+const RefineEditor: React.FC<RefineEditorProps> = ({ take, title, isBusy, onApply, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const [instruction, setInstruction] = useState('');
+  const [brush, setBrush] = useState(6); // Percent of the frame width
+  const [hasMask, setHasMask] = useState(false);
+
+  // The canvas matches the image's natural size so the exported mask lines up pixel for pixel.
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = e.currentTarget.naturalWidth;
+    canvas.height = e.currentTarget.naturalHeight;
+    setHasMask(false);
+  };
+
+  const pointFor = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height),
+    };
+  };
+
+  const paint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    const point = pointFor(e);
+    const from = lastPoint.current ?? point;
+    ctx.strokeStyle = '#fff';
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = e.currentTarget.width * brush / 100;
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPoint.current = point;
+    setHasMask(true);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPoint.current = null;
+    paint(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (lastPoint.current) paint(e);
+  };
+
+  const handlePointerUp = () => {
+    lastPoint.current = null;
+  };
+
+  const clearMask = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  // Image models expect an opaque mask: white where the edit goes, black everywhere else.
+  const exportMask = (): string | undefined => {
+    const canvas = canvasRef.current;
+    if (!canvas || !hasMask) return undefined;
+    const mask = document.createElement('canvas');
+    mask.width = canvas.width;
+    mask.height = canvas.height;
+    const ctx = mask.getContext('2d')!;
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, mask.width, mask.height);
+    ctx.drawImage(canvas, 0, 0);
+    return mask.toDataURL('image/png');
+  };
+
+  const handleApply = () => {
+    if (!instruction.trim()) return;
+    onApply(instruction.trim(), exportMask());
+  };
+
+  return (
+    <div className="space-y-4 bg-slate-950/60 border border-blue-500/20 rounded-3xl p-5">
+      <div className="flex items-center justify-between">
+        <label className="text-[9px] font-black text-blue-500/70 uppercase tracking-[0.3em]">Refine Frame</label>
+        <button onClick={onClose} className="text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-white transition-all">Close</button>
+      </div>
+
+      <div className="relative bg-black rounded-2xl overflow-hidden border border-slate-800">
+        <img src={take.imageUrl} alt={title} onLoad={handleImageLoad} className="w-full h-auto block select-none" draggable={false} />
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-[9px] font-black text-slate-500 uppercase tracking-widest">
+          Brush
+          <input type="range" min={1} max={20} value={brush} onChange={(e) => setBrush(Number(e.target.value))} className="w-28 accent-blue-500" />
+        </label>
+        <button
+          onClick={clearMask}
+          disabled={!hasMask}
+          className="text-[9px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg bg-slate-800/50 text-slate-400 hover:text-white disabled:text-slate-700 transition-all"
+        >
+          Clear Mask
+        </button>
+        <span className="text-[9px] font-bold text-slate-600 uppercase tracking-widest ml-auto">
+          {hasMask ? 'Only the painted area changes' : 'No mask: the whole frame changes'}
+        </span>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <input
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleApply()}
+          placeholder={hasMask ? 'e.g. replace the lantern with a candle' : 'e.g. make it dusk'}
+          className="flex-1 bg-slate-950 border border-slate-800 rounded-xl py-3 px-4 text-xs text-white outline-none focus:ring-2 focus:ring-blue-500/20"
+        />
+        <button
+          onClick={handleApply}
+          disabled={isBusy || !instruction.trim()}
+          className="px-5 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest bg-blue-600 hover:bg-blue-500 text-white disabled:bg-slate-800 disabled:text-slate-600 transition-all"
+        >
+          {isBusy ? 'Working...' : 'Apply'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RefineEditor;
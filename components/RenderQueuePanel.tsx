@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { RenderJobStatus, RenderQueueState, Scene } from '../types';
+
+export type RenderSelection = 'all' | 'unrendered' | 'range';
+
+interface RenderQueuePanelProps {
+  scenes: Scene[];
+  queue: RenderQueueState;
+  onStart: (scenes: Scene[]) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onRetryFailed: () => void;
+  onConcurrencyChange: (concurrency: number) => void;
+}
+
+const STATUS_STYLES: Record<RenderJobStatus, string> = {
+  queued: 'bg-slate-800 text-slate-500',
+  rendering: 'bg-blue-600/30 text-blue-300 animate-pulse',
+  retrying: 'bg-amber-500/20 text-amber-400 animate-pulse',
+  done: 'bg-green-500/20 text-green-400',
+  failed: 'bg-red-500/20 text-red-400',
+  cancelled: 'bg-slate-900 text-slate-700',
+};
+
+const RenderQueuePanel: React.FC<RenderQueuePanelProps> = ({ scenes, queue, onStart, onPause, onResume, onCancel, onRetryFailed, onConcurrencyChange }) => {
+  const [selection, setSelection] = useState<RenderSelection>('unrendered');
+  const [rangeStart, setRangeStart] = useState(1);
+  // Unset means "to the last scene", so beats that stream in after the panel opens are included.
+  const [rangeEndInput, setRangeEnd] = useState<number | null>(null);
+  const rangeEnd = rangeEndInput ?? scenes.length;
+
+  const selectedScenes = scenes.filter(scene => {
+    if (selection === 'unrendered') return !scene.imageUrl;
+    if (selection === 'range') return scene.sceneNumber >= rangeStart && scene.sceneNumber <= rangeEnd;
+    return true;
+  });
+
+  const finished = queue.jobs.filter(job => job.status === 'done' || job.status === 'failed' || job.status === 'cancelled').length;
+  const failed = queue.jobs.filter(job => job.status === 'failed');
+  const progress = queue.jobs.length ? Math.round((finished / queue.jobs.length) * 100) : 0;
+
+  return (
+    <div className="bg-slate-900/40 border border-slate-800 rounded-[2.5rem] p-8 space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+        <div className="space-y-1">
+          <h3 className="text-lg font-black text-white tracking-tighter uppercase">Batch Render</h3>
+          <p className="text-[9px] font-black text-slate-500 uppercase tracking-[0.3em]">{selectedScenes.length} Frames Selected</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={selection}
+            onChange={(e) => setSelection(e.target.value as RenderSelection)}
+            disabled={queue.isRunning}
+            className="bg-slate-950 border border-slate-800 rounded-xl py-3 px-4 text-[10px] font-black uppercase tracking-widest text-slate-400 outline-none"
+          >
+            <option value="unrendered">Unrendered Only</option>
+            <option value="all">All Frames</option>
+            <option value="range">Scene Range</option>
+          </select>
+          {selection === 'range' && (
+            <div className="flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase">
+              <input type="number" min={1} max={scenes.length} value={rangeStart} onChange={(e) => setRangeStart(parseInt(e.target.value) || 1)} className="w-16 bg-slate-950 border border-slate-800 rounded-xl p-2 text-white text-center" />
+              to
+              <input type="number" min={1} max={scenes.length} value={rangeEnd} onChange={(e) => setRangeEnd(parseInt(e.target.value) || null)} className="w-16 bg-slate-950 border border-slate-800 rounded-xl p-2 text-white text-center" />
+            </div>
+          )}
+          <label className="flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase tracking-widest">
+            Parallel
+            <input
+              type="number"
+              min={1}
+              max={8}
+              value={queue.concurrency}
+              onChange={(e) => onConcurrencyChange(Math.min(8, parseInt(e.target.value) || 1))}
+              className="w-14 bg-slate-950 border border-slate-800 rounded-xl p-2 text-white text-center"
+            />
+          </label>
+          {!queue.isRunning ? (
+            <button
+              onClick={() => onStart(selectedScenes)}
+              disabled={selectedScenes.length === 0}
+              className="px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest bg-blue-600 hover:bg-blue-500 text-white disabled:bg-slate-800 disabled:text-slate-600 transition-all"
+            >
+              Render {selectedScenes.length} Frames
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={queue.isPaused ? onResume : onPause}
+                className="px-5 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-800 text-slate-300 hover:text-white transition-all"
+              >
+                {queue.isPaused ? 'Resume' : 'Pause'}
+              </button>
+              <button
+                onClick={onCancel}
+                className="px-5 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest bg-red-500/10 text-red-400 hover:bg-red-500/20 transition-all"
+              >
+                Cancel
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {queue.jobs.length > 0 && (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <div className="flex justify-between text-[9px] font-black uppercase tracking-widest text-slate-500">
+              <span>{queue.isPaused ? 'Paused' : queue.isRunning ? 'Rendering' : 'Finished'}</span>
+              <span>{finished} / {queue.jobs.length}</span>
+            </div>
+            <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-600 transition-all duration-500" style={{ width: `${progress}%` }} />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-1.5">
+            {queue.jobs.map(job => (
+              <span
+                key={job.sceneId}
+                title={job.error || job.status}
+                className={`text-[8px] font-black px-2 py-1 rounded-md ${STATUS_STYLES[job.status]}`}
+              >
+                {job.sceneNumber}
+              </span>
+            ))}
+          </div>
+
+          {failed.length > 0 && !queue.isRunning && (
+            <div className="bg-red-500/5 border border-red-500/20 rounded-2xl p-5 space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] font-black text-red-400 uppercase tracking-widest">{failed.length} Frames Failed</span>
+                <button onClick={onRetryFailed} className="text-[9px] font-black uppercase tracking-widest px-4 py-2 rounded-xl bg-red-500/20 text-red-300 hover:text-white transition-all">Retry Failed</button>
+              </div>
+              <ul className="space-y-1 max-h-40 overflow-y-auto">
+                {failed.map(job => (
+                  <li key={job.sceneId} className="text-[10px] text-slate-400 font-medium truncate">
+                    <span className="font-black text-red-400/80">Beat {job.sceneNumber}:</span> {job.error}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RenderQueuePanel;
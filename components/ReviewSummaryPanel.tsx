@@ -0,0 +1,60 @@
+import React from 'react';
+import { ReviewStatus, Scene } from '../types';
+import { REVIEW_STATUSES, summarizeReview } from '../services/review';
+import { REVIEW_STATUS_CLASS } from './FrameReviewPanel';
+
+interface ReviewSummaryPanelProps {
+  scenes: Scene[];
+  needsChangesOnly: boolean;
+  onNeedsChangesOnlyChange: (needsChangesOnly: boolean) => void;
+}
+
+const BAR_CLASS: Record<ReviewStatus, string> = {
+  'draft': 'bg-slate-700',
+  'in-review': 'bg-blue-500',
+  'needs-changes': 'bg-red-500',
+  'approved': 'bg-emerald-500',
+};
+
+const ReviewSummaryPanel: React.FC<ReviewSummaryPanelProps> = ({ scenes, needsChangesOnly, onNeedsChangesOnlyChange }) => {
+  const summary = summarizeReview(scenes);
+  const needsChanges = summary.counts['needs-changes'];
+
+  return (
+    <div className="bg-slate-900/40 border border-slate-800 rounded-[2.5rem] p-8 space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+        <div className="space-y-1">
+          <h3 className="text-lg font-black text-white tracking-tighter uppercase">Review Progress</h3>
+          <p className="text-[9px] font-black text-slate-500 uppercase tracking-[0.3em]">
+            {summary.counts.approved}/{summary.total} Beats Approved &bull; {summary.openThreads} Open Comment Thread{summary.openThreads === 1 ? '' : 's'}
+          </p>
+        </div>
+        <button
+          onClick={() => onNeedsChangesOnlyChange(!needsChangesOnly)}
+          disabled={!needsChanges && !needsChangesOnly}
+          className={`px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-40 ${
+            needsChangesOnly ? 'bg-red-500/20 text-red-300 hover:bg-red-500/30' : 'bg-slate-800 hover:bg-slate-700 text-slate-300'
+          }`}
+        >
+          {needsChangesOnly ? 'Show All Beats' : 'Only Needs Changes'}
+        </button>
+      </div>
+
+      <div className="flex h-2 bg-slate-950 rounded-full overflow-hidden">
+        {REVIEW_STATUSES.map(({ value }) => summary.counts[value] > 0 && (
+          <div key={value} className={`h-full ${BAR_CLASS[value]}`} style={{ width: `${100 * summary.counts[value] / Math.max(1, summary.total)}%` }} />
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {REVIEW_STATUSES.map(({ value, label }) => (
+          <span key={value} className={`px-3 py-1.5 rounded-lg border text-[9px] font-black uppercase tracking-widest ${REVIEW_STATUS_CLASS[value]}`}>
+            {label} &bull; {summary.counts[value]}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewSummaryPanel;
@@ -1,21 +1,101 @@
 
 import React, { useState } from 'react';
-import { Scene } from '../types';
+import { BibleEntry, CommentPin, FrameAnnotations, ContinuityIssue, PromptRevision, ReviewComment, ReviewStatus, Scene, ToneProfile } from '../types';
+import TakeViewer from './TakeViewer';
+import CinematographyFields from './CinematographyFields';
+import SceneErrorPanel from './SceneErrorPanel';
+import PromptRewritePanel from './PromptRewritePanel';
+import PeriodNotesPanel from './PeriodNotesPanel';
+import FrameReviewPanel from './FrameReviewPanel';
+import { CONTINUITY_TYPE_LABELS, SEVERITY_CLASS } from './ContinuityPanel';
+import { RewrittenPrompt, SoftenedPrompt } from '../services/aiProvider';
+
+type EditableFields = Pick<Scene, 'title' | 'description' | 'imagePrompt' | 'cinematography'>;
 
 interface SceneCardProps {
   scene: Scene;
+  bible: BibleEntry[];
+  canMergeNext: boolean;
   onGenerate: (seed?: number) => Promise<void>;
+  onToggleBibleEntry: (entryId: string) => void;
+  onEdit: (patch: EditableFields) => void;
+  onSplit: () => void;
+  onMergeNext: () => void;
+  onDelete: () => void;
+  onDragHandleDown: () => void;
+  onSelectHero: (takeId: string) => void;
+  onDeleteTake: (takeId: string) => void;
+  onRefineTake: (takeId: string, instruction: string, maskDataUrl?: string) => void;
+  onSaveAnnotations: (takeId: string, annotations: FrameAnnotations) => void;
+  toneProfiles: ToneProfile[];
+  onToneChange: (toneProfileId: string | undefined) => void;
+  onDismissError: () => void;
+  onSuggestSoftened: () => Promise<SoftenedPrompt>;
+  onApproveSoftened: (imagePrompt: string) => Promise<void>;
+  onRewritePrompt: (instruction: string) => Promise<RewrittenPrompt>;
+  onAcceptRewrite: (imagePrompt: string, instruction: string) => void;
+  onRestorePrompt: (revision: PromptRevision) => void;
+  continuityIssues: ContinuityIssue[]; // Open issues from the last continuity check that involve this beat
+  onApplyContinuityFix: (issueId: string) => void;
+  onApplyPeriodCorrection: (anachronismId: string) => void;
+  onDismissAnachronism: (anachronismId: string) => void;
+  reviewerName: string;
+  onReviewerNameChange: (name: string) => void;
+  onReviewStatusChange: (status: ReviewStatus) => void;
+  onAddComment: (text: string, pin?: CommentPin, parentId?: string) => void;
+  onUpdateComment: (commentId: string, patch: Partial<Pick<ReviewComment, 'text' | 'resolved'>>) => void;
+  onDeleteComment: (commentId: string) => void;
 }
 
-const SceneCard: React.FC<SceneCardProps> = ({ scene, onGenerate }) => {
+const SceneCard: React.FC<SceneCardProps> = ({
+  scene, bible, canMergeNext, onGenerate, onToggleBibleEntry, onEdit, onSplit, onMergeNext, onDelete, onDragHandleDown, onSelectHero, onDeleteTake,
+  onRefineTake, onSaveAnnotations, toneProfiles, onToneChange, onDismissError, onSuggestSoftened, onApproveSoftened, onRewritePrompt, onAcceptRewrite, onRestorePrompt,
+  continuityIssues, onApplyContinuityFix, onApplyPeriodCorrection, onDismissAnachronism,
+  reviewerName, onReviewerNameChange, onReviewStatusChange, onAddComment, onUpdateComment, onDeleteComment
+}) => {
   const [loading, setLoading] = useState(false);
+  const [draft, setDraft] = useState<EditableFields | null>(null);
+  const [isImproving, setIsImproving] = useState(false);
   const [currentSeed, setCurrentSeed] = useState<number>(Math.floor(Math.random() * 1000000));
 
-  const handleCreateImage = async (useExistingSeed: boolean = false) => {
+  const isBusy = loading || !!scene.isGenerating;
+  const tagged = bible.filter(entry => scene.bibleIds?.includes(entry.id));
+  const untagged = bible.filter(entry => !scene.bibleIds?.includes(entry.id));
+
+  const startEditing = () => setDraft({
+    title: scene.title,
+    description: scene.description,
+    imagePrompt: scene.imagePrompt,
+    cinematography: scene.cinematography,
+  });
+
+  const saveEdit = () => {
+    const changed = draft && (
+      draft.title !== scene.title ||
+      draft.description !== scene.description ||
+      draft.imagePrompt !== scene.imagePrompt ||
+      JSON.stringify(draft.cinematography ?? {}) !== JSON.stringify(scene.cinematography ?? {})
+    );
+    if (draft && changed) {
+      onEdit(draft);
+    }
+    setDraft(null);
+  };
+
+  const takes = scene.takes ?? [];
+  // Prefer the hero take's recorded seed so "Maintain Seed" survives reloads.
+  const heroSeed = takes.find(t => t.id === scene.heroTakeId)?.seed;
+
+  const handleCreateImage = async (seed: number) => {
     setLoading(true);
-    const seedToUse = useExistingSeed ? currentSeed : Math.floor(Math.random() * 1000000);
-    setCurrentSeed(seedToUse);
-    await onGenerate(seedToUse);
+    setCurrentSeed(seed);
+    await onGenerate(seed);
+    setLoading(false);
+  };
+
+  const handleApproveSoftened = async (imagePrompt: string) => {
+    setLoading(true);
+    await onApproveSoftened(imagePrompt);
     setLoading(false);
   };
 
@@ -24,44 +104,211 @@ const SceneCard: React.FC<SceneCardProps> = ({ scene, onGenerate }) => {
       {/* 1. Prompt Display (The Roadmap) */}
       <div className="space-y-6">
         <div className="flex items-center justify-between">
-          <div className="flex items-center gap-4">
-            <div className="w-10 h-10 rounded-full bg-slate-950 flex items-center justify-center text-xs font-black text-blue-500 border border-slate-800">
+          <div className="flex items-center gap-4 min-w-0 flex-1">
+            <div
+              onMouseDown={onDragHandleDown}
+              title="Drag to reorder"
+              className="w-10 h-10 shrink-0 rounded-full bg-slate-950 flex items-center justify-center text-xs font-black text-blue-500 border border-slate-800 cursor-grab active:cursor-grabbing"
+            >
               {scene.sceneNumber}
             </div>
-            <h4 className="text-xl font-black text-slate-100 uppercase tracking-tight">{scene.title}</h4>
+            {draft ? (
+              <input
+                value={draft.title}
+                onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                className="flex-1 min-w-0 bg-slate-950 border border-slate-800 rounded-xl px-4 py-2 text-lg font-black text-slate-100 uppercase tracking-tight outline-none focus:ring-2 focus:ring-blue-500/20"
+              />
+            ) : (
+              <h4 className="text-xl font-black text-slate-100 uppercase tracking-tight truncate">{scene.title}</h4>
+            )}
+          </div>
+          <div className="flex items-center gap-1 shrink-0 ml-4 opacity-40 group-hover:opacity-100 transition-opacity">
+            {draft ? (
+              <>
+                <button onClick={saveEdit} className="text-[9px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg bg-blue-600 text-white hover:bg-blue-500 transition-all">Save</button>
+                <button onClick={() => setDraft(null)} className="text-[9px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg text-slate-500 hover:text-white transition-all">Cancel</button>
+              </>
+            ) : (
+              <>
+                <button onClick={startEditing} className="text-[9px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg text-slate-500 hover:text-white transition-all">Edit</button>
+                <button onClick={onSplit} className="text-[9px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg text-slate-500 hover:text-white transition-all">Split</button>
+                {canMergeNext && (
+                  <button onClick={onMergeNext} className="text-[9px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg text-slate-500 hover:text-white transition-all">Merge Next</button>
+                )}
+                <button onClick={onDelete} className="text-[9px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg text-red-500/60 hover:text-red-400 transition-all">Delete</button>
+              </>
+            )}
           </div>
-          <span className="text-[10px] font-black text-slate-600 uppercase tracking-widest">Historical context enabled</span>
         </div>
 
+        {draft ? (
+          <textarea
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            rows={3}
+            placeholder="What happens in this beat..."
+            className="w-full bg-slate-950 border border-slate-800 rounded-2xl p-4 text-slate-400 text-sm leading-relaxed outline-none focus:ring-2 focus:ring-blue-500/20 resize-y"
+          />
+        ) : scene.description && (
+          <p className="text-slate-400 text-sm leading-relaxed px-1">{scene.description}</p>
+        )}
+
         <div className="space-y-3">
-          <label className="text-[9px] font-black text-blue-500/50 uppercase tracking-[0.3em] px-1">Visual Direction & Prompt</label>
-          <div className="bg-black/40 border border-slate-800/50 p-6 rounded-2xl text-slate-300 text-sm leading-relaxed font-medium italic border-l-4 border-l-blue-500/30">
-            {scene.imagePrompt}
+          <div className="flex items-center justify-between gap-4">
+            <label className="text-[9px] font-black text-blue-500/50 uppercase tracking-[0.3em] px-1">
+              Visual Direction & Prompt{scene.promptRevisions?.length ? ` \u2022 ${scene.promptRevisions.length} Earlier` : ''}
+            </label>
+            {!draft && !isImproving && (
+              <button
+                onClick={() => setIsImproving(true)}
+                disabled={!scene.imagePrompt.trim()}
+                className="text-[9px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg text-blue-400/70 hover:text-blue-300 transition-all disabled:opacity-30"
+              >
+                Improve Prompt
+              </button>
+            )}
           </div>
+          {draft ? (
+            <textarea
+              value={draft.imagePrompt}
+              onChange={(e) => setDraft({ ...draft, imagePrompt: e.target.value })}
+              rows={5}
+              className="w-full bg-black/40 border border-slate-800/50 p-6 rounded-2xl text-slate-300 text-sm leading-relaxed font-medium italic border-l-4 border-l-blue-500/30 outline-none focus:ring-2 focus:ring-blue-500/20 resize-y"
+            />
+          ) : (
+            <div className="bg-black/40 border border-slate-800/50 p-6 rounded-2xl text-slate-300 text-sm leading-relaxed font-medium italic border-l-4 border-l-blue-500/30">
+              {scene.imagePrompt || <span className="text-slate-600 not-italic">No prompt yet. Click Edit to write one.</span>}
+            </div>
+          )}
+          {isImproving && !draft && (
+            <PromptRewritePanel
+              scene={scene}
+              isBusy={isBusy}
+              onRewrite={onRewritePrompt}
+              onAccept={onAcceptRewrite}
+              onRestore={onRestorePrompt}
+              onClose={() => setIsImproving(false)}
+            />
+          )}
         </div>
-      </div>
 
-      {/* 2. Individual Image Display (Shows after generation) */}
-      {scene.imageUrl && (
-        <div className="space-y-4 animate-in fade-in slide-in-from-top-4 duration-1000">
-          <label className="text-[9px] font-black text-green-500/50 uppercase tracking-[0.3em] px-1">Rendered Visual</label>
-          <div className="relative aspect-video bg-black rounded-3xl overflow-hidden border border-slate-700 shadow-2xl">
-            <img src={scene.imageUrl} alt={scene.title} className="w-full h-full object-cover" />
+        <CinematographyFields
+          value={draft ? draft.cinematography : scene.cinematography}
+          editing={!!draft}
+          onChange={(cinematography) => draft && setDraft({ ...draft, cinematography })}
+        />
+
+        {scene.periodNotes && !draft && (
+          <PeriodNotesPanel
+            notes={scene.periodNotes}
+            imagePrompt={scene.imagePrompt}
+            isBusy={isBusy}
+            onApplyCorrection={onApplyPeriodCorrection}
+            onDismiss={onDismissAnachronism}
+          />
+        )}
+
+        {continuityIssues.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            {continuityIssues.map(issue => (
+              <div
+                key={issue.id}
+                title={`${issue.description}\n\nSuggested prompt: ${issue.suggestedPrompt}`}
+                className={`flex items-center gap-2 pl-3 pr-1 py-1 rounded-full border text-[9px] font-black uppercase tracking-widest ${SEVERITY_CLASS[issue.severity]}`}
+              >
+                <span>Continuity &bull; {CONTINUITY_TYPE_LABELS[issue.type]}</span>
+                {issue.fixSceneId === scene.id ? (
+                  <button
+                    onClick={() => onApplyContinuityFix(issue.id)}
+                    disabled={isBusy}
+                    className="px-2 py-0.5 rounded-full bg-black/30 hover:bg-black/50 transition-all disabled:opacity-40"
+                  >
+                    Fix & Re-render
+                  </button>
+                ) : <span className="pr-2 opacity-60">See Neighbour</span>}
+              </div>
+            ))}
           </div>
-        </div>
+        )}
+
+        {bible.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            {tagged.map(entry => (
+              <button
+                key={entry.id}
+                onClick={() => onToggleBibleEntry(entry.id)}
+                title={`${entry.description}\n\nClick to remove from this beat`}
+                className={`text-[9px] font-black uppercase tracking-widest px-3 py-1.5 rounded-full border transition-all ${
+                  entry.kind === 'character' ? 'bg-indigo-500/10 border-indigo-500/30 text-indigo-300' : 'bg-emerald-500/10 border-emerald-500/30 text-emerald-300'
+                }`}
+              >
+                {entry.name}{entry.referenceImageId ? ' \u2022 Ref' : ''}
+              </button>
+            ))}
+            {untagged.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => e.target.value && onToggleBibleEntry(e.target.value)}
+                className="bg-slate-950 border border-slate-800 rounded-full py-1.5 px-3 text-[9px] font-black uppercase tracking-widest text-slate-500 outline-none cursor-pointer"
+              >
+                <option value="">+ Tag Continuity</option>
+                {untagged.map(entry => <option key={entry.id} value={entry.id}>{entry.name}</option>)}
+              </select>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* 2. Takes (shows after generation) */}
+      {takes.length > 0 && (
+        <TakeViewer
+          takes={takes}
+          heroTakeId={scene.heroTakeId}
+          title={scene.title}
+          isBusy={isBusy}
+          onSelectHero={onSelectHero}
+          onDeleteTake={onDeleteTake}
+          onRerenderFromSeed={handleCreateImage}
+          onRefine={onRefineTake}
+          onSaveAnnotations={onSaveAnnotations}
+        />
+      )}
+
+      {scene.renderError && !isBusy && (
+        <SceneErrorPanel
+          key={scene.renderError.timestamp}
+          error={scene.renderError}
+          isBusy={isBusy}
+          onRetry={() => handleCreateImage(Math.floor(Math.random() * 1000000))}
+          onDismiss={onDismissError}
+          onSuggestSoftened={onSuggestSoftened}
+          onApproveSoftened={handleApproveSoftened}
+        />
       )}
 
       {/* 3. Creation Actions */}
-      <div className="flex flex-col md:flex-row gap-4 pt-4">
+      <div className="flex items-center justify-end gap-3">
+        <label className="text-[9px] font-black text-slate-600 uppercase tracking-[0.3em]">Tone</label>
+        <select
+          value={scene.toneProfileId ?? ''}
+          onChange={(e) => onToneChange(e.target.value || undefined)}
+          disabled={isBusy}
+          className="bg-slate-950 border border-slate-800 rounded-lg py-1.5 px-3 text-[9px] font-black uppercase tracking-widest text-slate-400 outline-none cursor-pointer"
+        >
+          <option value="">Project Default</option>
+          {toneProfiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+        </select>
+      </div>
+      <div className="flex flex-col md:flex-row gap-4 -mt-6">
         <button 
-          onClick={() => handleCreateImage(false)}
-          disabled={loading}
+          onClick={() => handleCreateImage(Math.floor(Math.random() * 1000000))}
+          disabled={isBusy || !scene.imagePrompt.trim()}
           className={`flex-[2] py-6 rounded-2xl text-xs font-black uppercase tracking-widest transition-all shadow-xl flex items-center justify-center gap-3 relative overflow-hidden ${
-            loading ? 'bg-slate-800 text-slate-500 cursor-not-allowed' :
+            isBusy ? 'bg-slate-800 text-slate-500 cursor-not-allowed' :
             'bg-blue-600 hover:bg-blue-500 text-white hover:scale-[1.01]'
           }`}
         >
-          {loading ? (
+          {isBusy ? (
             <>
               <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
               Rendering Authentic Frame...
@@ -76,8 +323,8 @@ const SceneCard: React.FC<SceneCardProps> = ({ scene, onGenerate }) => {
 
         {scene.imageUrl && (
           <button 
-            onClick={() => handleCreateImage(true)}
-            disabled={loading}
+            onClick={() => handleCreateImage(heroSeed ?? currentSeed)}
+            disabled={isBusy}
             className="flex-1 py-6 bg-slate-950 border border-slate-800 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-500 hover:text-white hover:border-slate-600 transition-all flex items-center justify-center gap-3"
             title="Maintain grit and lighting consistency with same seed"
           >
@@ -86,6 +333,17 @@ const SceneCard: React.FC<SceneCardProps> = ({ scene, onGenerate }) => {
           </button>
         )}
       </div>
+
+      {/* 4. Review */}
+      <FrameReviewPanel
+        scene={scene}
+        reviewerName={reviewerName}
+        onReviewerNameChange={onReviewerNameChange}
+        onStatusChange={onReviewStatusChange}
+        onAddComment={onAddComment}
+        onUpdateComment={onUpdateComment}
+        onDeleteComment={onDeleteComment}
+      />
     </div>
   );
 };
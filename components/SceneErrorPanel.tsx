@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { SceneError } from '../types';
+import { SoftenedPrompt } from '../services/aiProvider';
+import { canSoften, errorAdvice, errorHeadline, toAIServiceError } from '../services/aiErrors';
+
+interface SceneErrorPanelProps {
+  error: SceneError;
+  isBusy: boolean;
+  onRetry: () => void;
+  onDismiss: () => void;
+  onSuggestSoftened: () => Promise<SoftenedPrompt>;
+  onApproveSoftened: (prompt: string) => void;
+}
+
+/**
+ * Shows why the last render of a frame failed. After a safety block or refusal it can ask for a
+ * reworded prompt, which the user edits and approves before anything is rendered.
+ */
+const SceneErrorPanel: React.FC<SceneErrorPanelProps> = ({ error, isBusy, onRetry, onDismiss, onSuggestSoftened, onApproveSoftened }) => {
+  const [suggestion, setSuggestion] = useState<SoftenedPrompt | null>(null);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [suggestError, setSuggestError] = useState<string | null>(null);
+
+  const handleSuggest = async () => {
+    setIsSuggesting(true);
+    setSuggestError(null);
+    try {
+      setSuggestion(await onSuggestSoftened());
+    } catch (err) {
+      console.error("Prompt Softening Error:", err);
+      setSuggestError(toAIServiceError(err).message);
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  const tone = error.kind === 'safety' || error.kind === 'refusal'
+    ? 'border-amber-500/30 bg-amber-500/5 text-amber-300'
+    : 'border-red-500/30 bg-red-500/5 text-red-300';
+
+  return (
+    <div className={`rounded-3xl border p-6 space-y-4 ${tone}`}>
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1 min-w-0">
+          <p className="text-[10px] font-black uppercase tracking-widest">
+            {errorHeadline(error.kind)}{error.blockReason ? ` • ${error.blockReason}` : ''}
+          </p>
+          <p className="text-xs text-slate-400 break-words">{error.message}</p>
+          <p className="text-[10px] font-bold text-slate-500">{errorAdvice(error.kind)}</p>
+        </div>
+        <button onClick={onDismiss} className="text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-white shrink-0">Dismiss</button>
+      </div>
+
+      {suggestion ? (
+        <div className="space-y-3">
+          <label className="text-[9px] font-black text-blue-500/70 uppercase tracking-[0.3em] px-1">Suggested Prompt &bull; Review Before Retrying</label>
+          <p className="text-[10px] text-slate-500 px-1">{suggestion.changes}</p>
+          <textarea
+            value={suggestion.prompt}
+            onChange={(e) => setSuggestion({ ...suggestion, prompt: e.target.value })}
+            rows={5}
+            className="w-full bg-black/40 border border-slate-800/50 p-4 rounded-2xl text-slate-300 text-sm leading-relaxed italic outline-none focus:ring-2 focus:ring-blue-500/20 resize-y"
+          />
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onApproveSoftened(suggestion.prompt.trim())}
+              disabled={isBusy || !suggestion.prompt.trim()}
+              className="text-[9px] font-black uppercase tracking-widest px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-500 disabled:bg-slate-800 disabled:text-slate-600 transition-all"
+            >
+              Approve &amp; Retry
+            </button>
+            <button onClick={() => setSuggestion(null)} className="text-[9px] font-black uppercase tracking-widest px-4 py-2 rounded-lg text-slate-500 hover:text-white transition-all">Discard</button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          {canSoften(error) && (
+            <button
+              onClick={handleSuggest}
+              disabled={isBusy || isSuggesting}
+              className="text-[9px] font-black uppercase tracking-widest px-4 py-2 rounded-lg bg-amber-500/10 text-amber-300 hover:bg-amber-500/20 disabled:text-slate-600 transition-all"
+            >
+              {isSuggesting ? 'Rewording...' : 'Suggest Softer Prompt'}
+            </button>
+          )}
+          {error.prompt !== undefined && (
+            <button
+              onClick={onRetry}
+              disabled={isBusy}
+              className="text-[9px] font-black uppercase tracking-widest px-4 py-2 rounded-lg bg-slate-800/50 text-slate-400 hover:text-white disabled:text-slate-700 transition-all"
+            >
+              Retry As Is
+            </button>
+          )}
+          {suggestError && <span className="text-[10px] text-red-400">{suggestError}</span>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SceneErrorPanel;
@@ -0,0 +1,221 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ImportedSource, Scene, SourceSpan } from '../types';
+import { sceneAtOffset, scriptFingerprint, uncoveredSpans } from '../services/sourceSpans';
+import { formatSourceRange, linesForSpan } from '../services/documentImport';
+
+interface ScriptSourcePanelProps {
+  scriptText: string;
+  scenes: Scene[];
+  sourceFingerprint?: string;
+  importedSource?: ImportedSource | null;
+  onJumpToScene: (sceneId: string) => void;
+}
+
+interface Segment extends SourceSpan {
+  kind: 'plain' | 'selected' | 'uncovered';
+}
+
+// OCR lines below this confidence are flagged for a check against the original page.
+const LOW_OCR_CONFIDENCE = 70;
+
+// Cuts the script at every highlight boundary; the selected span wins where it overlaps a gap.
+const buildSegments = (length: number, selected: SourceSpan | undefined, gaps: SourceSpan[]): Segment[] => {
+  const cuts = new Set([0, length]);
+  [...gaps, ...(selected ? [selected] : [])].forEach(span => {
+    cuts.add(span.start);
+    cuts.add(span.end);
+  });
+  const points = Array.from(cuts).filter(p => p >= 0 && p <= length).sort((a, b) => a - b);
+  return points.slice(0, -1).map((start, i) => {
+    const end = points[i + 1];
+    const inside = (span: SourceSpan) => start >= span.start && end <= span.end;
+    const kind = selected && inside(selected) ? 'selected' : gaps.some(inside) ? 'uncovered' : 'plain';
+    return { start, end, kind };
+  });
+};
+
+const SEGMENT_CLASS: Record<Segment['kind'], string> = {
+  plain: '',
+  selected: 'bg-blue-500/25 text-white rounded',
+  uncovered: 'bg-red-500/10 text-red-300/80',
+};
+
+const ScriptSourcePanel: React.FC<ScriptSourcePanelProps> = ({ scriptText, scenes, sourceFingerprint, importedSource, onJumpToScene }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const textRef = useRef<HTMLDivElement>(null);
+
+  // Spans resolved against an older version of the script would point at the wrong lines.
+  const isCurrent = useMemo(
+    () => !!sourceFingerprint && sourceFingerprint === scriptFingerprint(scriptText),
+    [scriptText, sourceFingerprint]
+  );
+  const mapped = isCurrent ? scenes.filter(scene => scene.sourceSpan) : [];
+  const gaps = useMemo(() => isCurrent ? uncoveredSpans(scriptText, scenes) : [], [isCurrent, scriptText, scenes]);
+  const selected = mapped.find(scene => scene.id === selectedId);
+  const segments = useMemo(
+    () => buildSegments(scriptText.length, selected?.sourceSpan, gaps),
+    [scriptText.length, selected?.sourceSpan, gaps]
+  );
+  const uncoveredChars = gaps.reduce((sum, gap) => sum + gap.end - gap.start, 0);
+  const coverage = scriptText.length ? Math.round(100 * (1 - uncoveredChars / scriptText.length)) : 0;
+
+  // Page and line positions in the imported file, for beats traced to the text as it was imported.
+  const origin = isCurrent && importedSource ? importedSource : null;
+  const originOf = (span: SourceSpan) => origin ? formatSourceRange(origin, span.start, span.end) : undefined;
+  const hasLowConfidence = (span: SourceSpan) => !!origin && origin.lines.some(line =>
+    line.ocr && line.end > span.start && line.start < span.end && (line.confidence ?? 100) < LOW_OCR_CONFIDENCE
+  );
+  const selectedStyle = origin && selected?.sourceSpan
+    ? linesForSpan(origin, selected.sourceSpan.start, selected.sourceSpan.end)?.first.style
+    : undefined;
+
+  const scrollTextTo = (offset: number) => {
+    const container = textRef.current;
+    const target = container?.querySelector<HTMLElement>(`[data-start="${offset}"]`);
+    if (container && target) container.scrollTop = target.offsetTop - container.clientHeight / 3;
+  };
+
+  useEffect(() => {
+    if (selected?.sourceSpan) scrollTextTo(selected.sourceSpan.start);
+  }, [selectedId]);
+
+  // The click lands in a text node inside a segment; its offset within the node plus the segment start is the script offset.
+  const handleTextClick = () => {
+    const selection = window.getSelection();
+    const node = selection?.anchorNode;
+    const segment = (node?.nodeType === Node.TEXT_NODE ? node.parentElement : node as HTMLElement | null)?.closest<HTMLElement>('[data-start]');
+    if (!selection || !segment || !selection.isCollapsed) return;
+    const scene = sceneAtOffset(mapped, Number(segment.dataset.start) + selection.anchorOffset);
+    if (!scene) return;
+    setSelectedId(scene.id);
+    onJumpToScene(scene.id);
+  };
+
+  return (
+    <div className="bg-slate-900/40 border border-slate-800 rounded-[2.5rem] p-8 space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+        <div className="space-y-1">
+          <h3 className="text-lg font-black text-white tracking-tighter uppercase">Script Source</h3>
+          <p className="text-[9px] font-black text-slate-500 uppercase tracking-[0.3em]">
+            {isCurrent
+              ? <>{mapped.length}/{scenes.length} Beats Traced &bull; {coverage}% Of Script Covered &bull; {gaps.length} Uncovered Passages</>
+              : 'Source lines unavailable'}
+          </p>
+          {origin && (
+            <p className="text-[9px] font-black text-slate-600 uppercase tracking-[0.3em]">
+              From {origin.fileName}
+              {origin.ocrPages.length > 0 && <span className="text-amber-400/80"> &bull; OCR on page{origin.ocrPages.length > 1 ? 's' : ''} {origin.ocrPages.join(', ')}</span>}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-800 hover:bg-slate-700 text-slate-300 transition-all"
+        >
+          {isOpen ? 'Hide Script' : 'Show Script'}
+        </button>
+      </div>
+
+      {isOpen && !isCurrent && (
+        <p className="text-[10px] font-bold text-amber-400/80 px-2">
+          {sourceFingerprint
+            ? 'The script has been edited since it was analyzed. Re-analyze to trace beats back to the current text.'
+            : 'This storyboard was analyzed before source tracking existed. Re-analyze to trace beats back to the script.'}
+        </p>
+      )}
+
+      {isOpen && (
+        <>
+          {selected?.sourceSpan && origin && (
+            <p className="text-[10px] font-bold text-slate-400 px-2">
+              Beat {selected.sceneNumber} comes from {originOf(selected.sourceSpan) ?? 'unmapped lines'} of {origin.fileName}
+              {selectedStyle && <span className="text-slate-600"> ({selectedStyle})</span>}
+              {hasLowConfidence(selected.sourceSpan) && (
+                <span className="text-amber-400/80"> &bull; Includes low-confidence OCR lines, check against the original page</span>
+              )}
+            </p>
+          )}
+
+          {isCurrent && (
+            <div className="space-y-2">
+              <div className="relative h-3 bg-slate-950 rounded-full overflow-hidden border border-slate-800">
+                {mapped.map(scene => (
+                  <button
+                    key={scene.id}
+                    onClick={() => setSelectedId(scene.id)}
+                    title={`Beat ${scene.sceneNumber}: ${scene.title}`}
+                    className={`absolute inset-y-0 ${scene.id === selectedId ? 'bg-blue-400' : 'bg-blue-600/50 hover:bg-blue-500/70'}`}
+                    style={{ left: `${100 * scene.sourceSpan!.start / scriptText.length}%`, width: `${Math.max(0.3, 100 * (scene.sourceSpan!.end - scene.sourceSpan!.start) / scriptText.length)}%` }}
+                  />
+                ))}
+                {gaps.map(gap => (
+                  <button
+                    key={gap.start}
+                    onClick={() => scrollTextTo(gap.start)}
+                    title="No beat covers this passage"
+                    className="absolute inset-y-0 bg-red-500/70 hover:bg-red-400"
+                    style={{ left: `${100 * gap.start / scriptText.length}%`, width: `${Math.max(0.3, 100 * (gap.end - gap.start) / scriptText.length)}%` }}
+                  />
+                ))}
+              </div>
+              <div className="flex items-center gap-4 px-1 text-[8px] font-black uppercase tracking-widest text-slate-600">
+                <span className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-full bg-blue-600/70"></span>Covered</span>
+                <span className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-full bg-red-500/70"></span>No Beat</span>
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-[2fr_1fr] gap-6">
+            <div
+              ref={textRef}
+              onClick={handleTextClick}
+              className="relative h-[32rem] overflow-y-auto bg-slate-950 border border-slate-800 rounded-2xl p-6 font-mono text-[11px] leading-relaxed text-slate-400 whitespace-pre-wrap cursor-text"
+            >
+              {segments.map(segment => (
+                <span key={segment.start} data-start={segment.start} className={SEGMENT_CLASS[segment.kind]}>
+                  {scriptText.slice(segment.start, segment.end)}
+                </span>
+              ))}
+            </div>
+
+            <div className="h-[32rem] overflow-y-auto space-y-1 pr-1">
+              {scenes.map(scene => {
+                const traced = isCurrent && !!scene.sourceSpan;
+                return (
+                  <div
+                    key={scene.id}
+                    className={`flex items-center gap-2 rounded-xl px-3 py-2 transition-all ${scene.id === selectedId ? 'bg-blue-500/15 border border-blue-500/30' : 'border border-transparent hover:bg-slate-800/50'}`}
+                  >
+                    <button
+                      onClick={() => traced && setSelectedId(scene.id)}
+                      disabled={!traced}
+                      className="flex-1 text-left min-w-0"
+                    >
+                      <span className="text-[9px] font-black text-slate-600 uppercase tracking-widest mr-2">{scene.sceneNumber}</span>
+                      <span className={`text-[11px] font-bold ${traced ? 'text-slate-300' : 'text-slate-600'}`}>{scene.title}</span>
+                      {!traced && <span className="block text-[8px] font-black text-slate-700 uppercase tracking-widest">No source lines</span>}
+                      {traced && originOf(scene.sourceSpan!) && (
+                        <span className={`block text-[8px] font-black uppercase tracking-widest ${hasLowConfidence(scene.sourceSpan!) ? 'text-amber-400/70' : 'text-slate-600'}`}>
+                          {originOf(scene.sourceSpan!)}
+                        </span>
+                      )}
+                    </button>
+                    <button
+                      onClick={() => onJumpToScene(scene.id)}
+                      className="text-[8px] font-black uppercase tracking-widest text-slate-600 hover:text-white shrink-0"
+                    >
+                      Go To Frame
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ScriptSourcePanel;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { ModelSettings, ProviderId, ToneProfile } from '../types';
+import { DEFAULT_MODEL_SETTINGS } from '../services/aiProvider';
+import ToneProfileEditor from './ToneProfileEditor';
+
+interface SettingsPanelProps {
+  models: ModelSettings;
+  toneProfiles: ToneProfile[];
+  onChange: (models: ModelSettings) => void;
+  onToneProfilesChange: (toneProfiles: ToneProfile[]) => void;
+  onClose: () => void;
+}
+
+const MODEL_FIELDS: { key: keyof Omit<ModelSettings, 'provider'>; label: string; hint: string }[] = [
+  { key: 'textModel', label: 'Text Model', hint: 'Style suggestions and continuity bible' },
+  { key: 'analysisModel', label: 'Analysis Model', hint: 'Script breakdown into beats' },
+  { key: 'imageModel', label: 'Image Model', hint: 'Frame rendering' },
+];
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ models, toneProfiles, onChange, onToneProfilesChange, onClose }) => {
+  const setProvider = (provider: ProviderId) => onChange({ ...models, provider });
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-slate-900 border border-slate-800 rounded-[2.5rem] p-10 w-full max-w-2xl max-h-[90vh] overflow-y-auto space-y-8 shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-black text-white tracking-tighter uppercase">Model Settings</h3>
+          <button onClick={onClose} className="text-[10px] font-black text-slate-500 hover:text-white uppercase tracking-widest transition-colors">Close</button>
+        </div>
+
+        <div className="space-y-3">
+          <label className="text-[11px] font-black text-blue-500 uppercase tracking-widest px-2">Provider</label>
+          <div className="grid grid-cols-2 gap-3">
+            {([['gemini', 'Google Gemini', 'Live calls via the API proxy'], ['mock', 'Offline Mock', 'Canned beats, placeholder frames']] as const).map(([id, label, hint]) => (
+              <button
+                key={id}
+                onClick={() => setProvider(id)}
+                className={`p-5 rounded-2xl border text-left transition-all ${
+                  models.provider === id ? 'border-blue-500 bg-blue-600/10' : 'border-slate-800 bg-slate-950 hover:border-slate-600'
+                }`}
+              >
+                <div className="text-xs font-black text-white uppercase tracking-widest">{label}</div>
+                <div className="text-[10px] text-slate-500 font-medium mt-1">{hint}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className={`space-y-5 ${models.provider === 'mock' ? 'opacity-40 pointer-events-none' : ''}`}>
+          {MODEL_FIELDS.map(({ key, label, hint }) => (
+            <div key={key} className="space-y-2">
+              <div className="flex items-center justify-between px-2">
+                <label className="text-[11px] font-black text-blue-500 uppercase tracking-widest">{label}</label>
+                <span className="text-[9px] font-bold text-slate-600 uppercase tracking-widest">{hint}</span>
+              </div>
+              <input
+                type="text"
+                value={models[key]}
+                onChange={(e) => onChange({ ...models, [key]: e.target.value })}
+                placeholder={DEFAULT_MODEL_SETTINGS[key]}
+                className="w-full bg-slate-950 border border-slate-800 rounded-2xl p-4 text-white font-mono text-xs focus:ring-2 focus:ring-blue-500/20 outline-none transition-all"
+              />
+            </div>
+          ))}
+          <button
+            onClick={() => onChange({ ...DEFAULT_MODEL_SETTINGS, provider: models.provider })}
+            className="text-[10px] font-black text-slate-500 hover:text-white uppercase tracking-widest transition-colors px-2"
+          >
+            Restore Default Models
+          </button>
+        </div>
+
+        <div className="space-y-5 pt-8 border-t border-slate-800">
+          <h3 className="text-xl font-black text-white tracking-tighter uppercase">Tone Profiles</h3>
+          <ToneProfileEditor customProfiles={toneProfiles} onChange={onToneProfilesChange} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
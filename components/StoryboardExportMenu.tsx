@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { PanelLayout, StoryboardPdfOptions } from '../services/storyboardPdf';
+
+interface StoryboardExportMenuProps {
+  onExport: (options: StoryboardPdfOptions) => Promise<void>;
+}
+
+const LAYOUTS: PanelLayout[] = [1, 2, 3, 6];
+
+const StoryboardExportMenu: React.FC<StoryboardExportMenuProps> = ({ onExport }) => {
+  const [layout, setLayout] = useState<PanelLayout>(3);
+  const [includePrompts, setIncludePrompts] = useState(false);
+  const [includeMarkup, setIncludeMarkup] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setExporting(true);
+    setExportError(null);
+    try {
+      await onExport({ layout, includePrompts, includeMarkup });
+    } catch (err) {
+      console.error("PDF Export Error:", err);
+      setExportError(`PDF export failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1 bg-slate-900/50 rounded-2xl border border-slate-800 p-1">
+      <select
+        value={layout}
+        onChange={(e) => setLayout(parseInt(e.target.value) as PanelLayout)}
+        disabled={exporting}
+        className="bg-transparent py-3 px-3 text-[10px] font-black uppercase tracking-widest text-slate-400 outline-none cursor-pointer"
+      >
+        {LAYOUTS.map(n => <option key={n} value={n}>{n}-Up</option>)}
+      </select>
+      <label className="flex items-center gap-2 px-3 text-[10px] font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+        <input type="checkbox" checked={includePrompts} onChange={(e) => setIncludePrompts(e.target.checked)} disabled={exporting} />
+        Prompts
+      </label>
+      <label className="flex items-center gap-2 px-3 text-[10px] font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+        <input type="checkbox" checked={includeMarkup} onChange={(e) => setIncludeMarkup(e.target.checked)} disabled={exporting} />
+        Markup
+      </label>
+      <button
+        onClick={handleExport}
+        disabled={exporting}
+        className="px-4 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest text-blue-400 hover:text-white hover:bg-blue-600 disabled:text-slate-600 disabled:hover:bg-transparent transition-all flex items-center gap-2"
+      >
+        {exporting && <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white"></div>}
+        {exporting ? 'Exporting...' : 'Export PDF'}
+      </button>
+      {exportError && <span className="px-3 text-[10px] text-red-400">{exportError}</span>}
+    </div>
+  );
+};
+
+export default StoryboardExportMenu;
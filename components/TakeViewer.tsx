@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import { FrameAnnotations, Take } from '../types';
+import RefineEditor from './RefineEditor';
+import AnnotationEditor from './AnnotationEditor';
+import AnnotationOverlay from './AnnotationOverlay';
+import { flattenAnnotations, hasAnnotations, isVisible } from '../services/annotations';
+
+interface TakeViewerProps {
+  takes: Take[];
+  heroTakeId?: string;
+  title: string;
+  isBusy: boolean;
+  onSelectHero: (takeId: string) => void;
+  onDeleteTake: (takeId: string) => void;
+  onRerenderFromSeed: (seed: number) => void;
+  onRefine: (takeId: string, instruction: string, maskDataUrl?: string) => void;
+  onSaveAnnotations: (takeId: string, annotations: FrameAnnotations) => void;
+}
+
+const TakeImage: React.FC<{ take: Take; title: string; isHero: boolean; label: string }> = ({ take, title, isHero, label }) => (
+  <div className="relative aspect-video bg-black rounded-3xl overflow-hidden border border-slate-700 shadow-2xl">
+    <img src={take.imageUrl} alt={title} className="w-full h-full object-contain" />
+    {take.imageUrl && isVisible(take.annotations) && <AnnotationOverlay imageUrl={take.imageUrl} annotations={take.annotations} />}
+    <div className="absolute top-3 left-3 flex items-center gap-2">
+      <span className="bg-black/70 backdrop-blur-md px-2 py-1 rounded-lg text-[8px] font-black text-slate-300 uppercase tracking-widest border border-white/5">{label}</span>
+      {isHero && <span className="bg-amber-500/90 px-2 py-1 rounded-lg text-[8px] font-black text-black uppercase tracking-widest">Hero</span>}
+    </div>
+    <div className="absolute bottom-3 right-3 bg-black/70 backdrop-blur-md px-2 py-1 rounded-lg text-[8px] font-black text-slate-400 border border-white/5">
+      {take.seed !== undefined ? `Seed ${take.seed}` : 'Seed not recorded'}
+    </div>
+  </div>
+);
+
+const TakeViewer: React.FC<TakeViewerProps> = ({ takes, heroTakeId, title, isBusy, onSelectHero, onDeleteTake, onRerenderFromSeed, onRefine, onSaveAnnotations }) => {
+  const heroIndex = Math.max(0, takes.findIndex(t => t.id === heroTakeId));
+  const [viewIndex, setViewIndex] = useState(heroIndex);
+  const [compareTakeId, setCompareTakeId] = useState<string | null>(null);
+  const [refiningTakeId, setRefiningTakeId] = useState<string | null>(null);
+  const [annotatingTakeId, setAnnotatingTakeId] = useState<string | null>(null);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  // Jump to the hero whenever it changes, which includes every newly rendered take.
+  useEffect(() => {
+    setViewIndex(heroIndex);
+  }, [heroTakeId, takes.length]);
+
+  const index = Math.min(viewIndex, takes.length - 1);
+  const take = takes[index];
+  const compareTake = takes.find(t => t.id === compareTakeId && t.id !== take?.id);
+  if (!take) return null;
+
+  const labelFor = (t: Take) => `Take ${takes.indexOf(t) + 1}`;
+  const parent = take.parentTakeId ? takes.find(t => t.id === take.parentTakeId) : undefined;
+  const refiningTake = takes.find(t => t.id === refiningTakeId);
+  const annotatingTake = takes.find(t => t.id === annotatingTakeId);
+
+  const download = async (withMarkup: boolean) => {
+    if (!take.imageUrl) return;
+    setDownloadError(null);
+    try {
+      const link = document.createElement('a');
+      link.href = withMarkup && take.annotations ? await flattenAnnotations(take.imageUrl, take.annotations) : take.imageUrl;
+      link.download = `${title.replace(/[^\w-]+/g, '_')}_${labelFor(take).replace(' ', '')}${withMarkup ? '_markup' : ''}.png`;
+      link.click();
+    } catch (err) {
+      console.error("Take Download Error:", err);
+      setDownloadError(`Download failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return (
+    <div className="space-y-4 animate-in fade-in slide-in-from-top-4 duration-1000">
+      <div className="flex items-center justify-between px-1">
+        <label className="text-[9px] font-black text-green-500/50 uppercase tracking-[0.3em]">Rendered Visual</label>
+        {takes.length > 1 && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setViewIndex(Math.max(0, index - 1))}
+              disabled={index === 0}
+              className="w-7 h-7 rounded-lg bg-slate-950 border border-slate-800 text-slate-400 hover:text-white disabled:text-slate-700 text-xs font-black"
+            >
+              ‹
+            </button>
+            <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest min-w-[80px] text-center">Take {index + 1} of {takes.length}</span>
+            <button
+              onClick={() => setViewIndex(Math.min(takes.length - 1, index + 1))}
+              disabled={index === takes.length - 1}
+              className="w-7 h-7 rounded-lg bg-slate-950 border border-slate-800 text-slate-400 hover:text-white disabled:text-slate-700 text-xs font-black"
+            >
+              ›
+            </button>
+          </div>
+        )}
+      </div>
+
+      {compareTake ? (
+        <div className="grid grid-cols-2 gap-4">
+          <TakeImage take={take} title={title} isHero={take.id === heroTakeId} label={labelFor(take)} />
+          <TakeImage take={compareTake} title={title} isHero={compareTake.id === heroTakeId} label={labelFor(compareTake)} />
+        </div>
+      ) : (
+        <TakeImage take={take} title={title} isHero={take.id === heroTakeId} label={labelFor(take)} />
+      )}
+
+      {take.refinement && (
+        <p className="px-1 text-[10px] text-slate-500">
+          <span className="font-black uppercase tracking-widest text-blue-500/60">{take.masked ? 'Inpainted' : 'Refined'}</span>
+          {' '}from {parent ? labelFor(parent) : 'a deleted take'}: &ldquo;{take.refinement}&rdquo;
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 px-1">
+        {take.id !== heroTakeId && (
+          <button onClick={() => onSelectHero(take.id)} className="text-[9px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg bg-amber-500/10 text-amber-400 hover:bg-amber-500/20 transition-all">Use As Hero</button>
+        )}
+        {take.seed !== undefined && (
+          <button
+            onClick={() => onRerenderFromSeed(take.seed!)}
+            disabled={isBusy}
+            className="text-[9px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg bg-slate-800/50 text-slate-400 hover:text-white disabled:text-slate-700 transition-all"
+          >
+            Re-Render From This Seed
+          </button>
+        )}
+        <button
+          onClick={() => { setRefiningTakeId(refiningTakeId === take.id ? null : take.id); setAnnotatingTakeId(null); }}
+          disabled={isBusy}
+          className="text-[9px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg bg-blue-500/10 text-blue-400 hover:bg-blue-500/20 disabled:text-slate-700 transition-all"
+        >
+          Refine
+        </button>
+        <button
+          onClick={() => { setAnnotatingTakeId(annotatingTakeId === take.id ? null : take.id); setRefiningTakeId(null); }}
+          className="text-[9px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg bg-yellow-500/10 text-yellow-400 hover:bg-yellow-500/20 transition-all"
+        >
+          Annotate
+        </button>
+        {hasAnnotations(take.annotations) && (
+          <button
+            onClick={() => onSaveAnnotations(take.id, { ...take.annotations!, hidden: !take.annotations!.hidden })}
+            className="text-[9px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg bg-slate-800/50 text-slate-400 hover:text-white transition-all"
+          >
+            {take.annotations!.hidden ? 'Show Markup' : 'Hide Markup'}
+          </button>
+        )}
+        <button
+          onClick={() => download(false)}
+          className="text-[9px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg bg-slate-800/50 text-slate-400 hover:text-white transition-all"
+        >
+          PNG
+        </button>
+        {isVisible(take.annotations) && (
+          <button
+            onClick={() => download(true)}
+            className="text-[9px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg bg-slate-800/50 text-slate-400 hover:text-white transition-all"
+          >
+            PNG With Markup
+          </button>
+        )}
+        {takes.length > 1 && (
+          <select
+            value={compareTake?.id ?? ''}
+            onChange={(e) => setCompareTakeId(e.target.value || null)}
+            className="bg-slate-950 border border-slate-800 rounded-lg py-1.5 px-3 text-[9px] font-black uppercase tracking-widest text-slate-400 outline-none cursor-pointer"
+          >
+            <option value="">Compare With...</option>
+            {takes.filter(t => t.id !== take.id).map(t => <option key={t.id} value={t.id}>{labelFor(t)}</option>)}
+          </select>
+        )}
+        <button
+          onClick={() => {
+            if (confirm(`Delete ${labelFor(take)}? The image stays in the history archive.`)) onDeleteTake(take.id);
+          }}
+          className="text-[9px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg text-red-500/50 hover:text-red-400 transition-all ml-auto"
+        >
+          Delete Take
+        </button>
+      </div>
+      {downloadError && <p className="px-1 text-[10px] text-red-400">{downloadError}</p>}
+
+      {refiningTake && (
+        <RefineEditor
+          key={refiningTake.id}
+          take={refiningTake}
+          title={title}
+          isBusy={isBusy}
+          onApply={(instruction, maskDataUrl) => {
+            onRefine(refiningTake.id, instruction, maskDataUrl);
+            setRefiningTakeId(null);
+          }}
+          onClose={() => setRefiningTakeId(null)}
+        />
+      )}
+
+      {annotatingTake && (
+        <AnnotationEditor
+          key={annotatingTake.id}
+          take={annotatingTake}
+          title={title}
+          onSave={(annotations) => {
+            onSaveAnnotations(annotatingTake.id, annotations);
+            setAnnotatingTakeId(null);
+          }}
+          onClose={() => setAnnotatingTakeId(null)}
+        />
+      )}
+
+      <details className="px-1">
+        <summary className="text-[9px] font-black text-slate-600 uppercase tracking-widest cursor-pointer hover:text-slate-400">
+          Full Prompt &bull; {new Date(take.timestamp).toLocaleString()}{take.model ? ` • ${take.model}` : ''}
+        </summary>
+        <pre className="mt-2 whitespace-pre-wrap text-[10px] text-slate-500 bg-black/30 border border-slate-800 rounded-xl p-4 font-mono leading-relaxed">{take.prompt}</pre>
+      </details>
+    </div>
+  );
+};
+
+export default TakeViewer;
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { AspectRatio, ImageResolution, ToneProfile } from '../types';
+import { allToneProfiles, ASPECT_RATIOS, copyToneProfile, DEFAULT_TONE_PROFILE_ID, RESOLUTIONS } from '../services/toneProfiles';
+
+interface ToneProfileEditorProps {
+  customProfiles: ToneProfile[];
+  onChange: (customProfiles: ToneProfile[]) => void;
+}
+
+const fieldClass = "w-full bg-slate-950 border border-slate-800 rounded-2xl p-4 text-white text-xs focus:ring-2 focus:ring-blue-500/20 outline-none transition-all disabled:text-slate-500";
+
+const ToneProfileEditor: React.FC<ToneProfileEditorProps> = ({ customProfiles, onChange }) => {
+  const profiles = allToneProfiles(customProfiles);
+  const [selectedId, setSelectedId] = useState(DEFAULT_TONE_PROFILE_ID);
+  const selected = profiles.find(profile => profile.id === selectedId) ?? profiles[0];
+  const readOnly = !!selected.builtIn;
+
+  const update = (patch: Partial<ToneProfile>) => {
+    onChange(customProfiles.map(profile => profile.id === selected.id ? { ...profile, ...patch } : profile));
+  };
+
+  const handleCopy = () => {
+    const copy = copyToneProfile(selected);
+    onChange([...customProfiles, copy]);
+    setSelectedId(copy.id);
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Delete the tone profile "${selected.name}"? Projects using it fall back to ${profiles[0].name}.`)) return;
+    onChange(customProfiles.filter(profile => profile.id !== selected.id));
+    setSelectedId(DEFAULT_TONE_PROFILE_ID);
+  };
+
+  const textArea = (key: 'analysisDirectives' | 'imagePreamble' | 'negativeGuidance', label: string, hint: string, rows: number) => (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between px-2">
+        <label className="text-[11px] font-black text-blue-500 uppercase tracking-widest">{label}</label>
+        <span className="text-[9px] font-bold text-slate-600 uppercase tracking-widest">{hint}</span>
+      </div>
+      <textarea value={selected[key]} onChange={(e) => update({ [key]: e.target.value })} disabled={readOnly} rows={rows} className={`${fieldClass} font-mono resize-y`} />
+    </div>
+  );
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-center gap-3">
+        <select
+          value={selected.id}
+          onChange={(e) => setSelectedId(e.target.value)}
+          className="flex-1 bg-slate-950 border border-slate-800 rounded-2xl p-4 text-white text-xs font-black uppercase tracking-widest outline-none"
+        >
+          {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}{profile.builtIn ? ' (Preset)' : ''}</option>)}
+        </select>
+        <button onClick={handleCopy} className="px-4 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest bg-slate-800 hover:bg-slate-700 text-slate-300 transition-all">Duplicate</button>
+        {!readOnly && (
+          <button onClick={handleDelete} className="px-4 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest bg-red-500/10 text-red-500/70 hover:text-red-400 transition-all">Delete</button>
+        )}
+      </div>
+
+      {readOnly && <p className="text-[10px] font-bold text-slate-500 px-2">Presets are read-only. Duplicate one to make an editable copy.</p>}
+
+      {!readOnly && (
+        <input value={selected.name} onChange={(e) => update({ name: e.target.value })} placeholder="Profile name" className={`${fieldClass} font-bold`} />
+      )}
+      {textArea('analysisDirectives', 'Analysis Directives', 'Script breakdown', 6)}
+      {textArea('imagePreamble', 'Image Preamble', 'Before every prompt', 3)}
+      {textArea('negativeGuidance', 'Negative Guidance', 'What frames avoid', 2)}
+
+      <div className="grid grid-cols-2 gap-3">
+        <label className="space-y-2">
+          <span className="text-[11px] font-black text-blue-500 uppercase tracking-widest px-2">Aspect Ratio</span>
+          <select value={selected.aspectRatio} onChange={(e) => update({ aspectRatio: e.target.value as AspectRatio })} disabled={readOnly} className={fieldClass}>
+            {ASPECT_RATIOS.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+          </select>
+        </label>
+        <label className="space-y-2">
+          <span className="text-[11px] font-black text-blue-500 uppercase tracking-widest px-2">Resolution</span>
+          <select value={selected.resolution} onChange={(e) => update({ resolution: e.target.value as ImageResolution })} disabled={readOnly} className={fieldClass}>
+            {RESOLUTIONS.map(size => <option key={size} value={size}>{size}</option>)}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default ToneProfileEditor;
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Scene, ValidationIssueCode, ValidationReport } from '../types';
+
+interface ValidationReportPanelProps {
+  report: ValidationReport;
+  scenes: Scene[];
+  onJumpToScene: (sceneId: string) => void;
+}
+
+const CODE_LABELS: Record<ValidationIssueCode, string> = {
+  'duplicate-id': 'Duplicate IDs',
+  'numbering-gap': 'Numbering',
+  'missing-field': 'Missing Field',
+  'empty-beat': 'Empty Beat',
+  'empty-prompt': 'Empty Prompt',
+  'beat-count': 'Beat Count',
+};
+
+// Only shown when the analyzer's output needed repairs; flagged issues open the panel by default.
+const ValidationReportPanel: React.FC<ValidationReportPanelProps> = ({ report, scenes, onJumpToScene }) => {
+  const flagged = report.issues.filter(issue => issue.flagged);
+  const [isOpen, setIsOpen] = useState(flagged.length > 0);
+  const hasParts = report.issues.some(issue => issue.chunkIndex > 0);
+
+  if (!report.issues.length) return null;
+
+  return (
+    <div className={`border rounded-[2.5rem] p-8 space-y-6 ${flagged.length ? 'bg-amber-500/5 border-amber-500/20' : 'bg-slate-900/40 border-slate-800'}`}>
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+        <div className="space-y-1">
+          <h3 className="text-lg font-black text-white tracking-tighter uppercase">Analysis Check</h3>
+          <p className="text-[9px] font-black text-slate-500 uppercase tracking-[0.3em]">
+            {report.beatsReceived} Beats Received &bull; {scenes.length} Of {report.beatsExpected} Kept &bull; {report.issues.length - flagged.length} Repaired &bull;{' '}
+            <span className={flagged.length ? 'text-amber-400' : ''}>{flagged.length} To Review</span>
+          </p>
+        </div>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-800 hover:bg-slate-700 text-slate-300 transition-all"
+        >
+          {isOpen ? 'Hide Report' : 'Show Report'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <ul className="space-y-2">
+          {report.issues.map((issue, i) => {
+            const scene = issue.sceneId ? scenes.find(s => s.id === issue.sceneId) : undefined;
+            return (
+              <li key={i} className="flex flex-col md:flex-row md:items-center gap-3 bg-slate-950/60 border border-slate-800 rounded-2xl px-5 py-3">
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className={`px-2 py-1 rounded-md text-[8px] font-black uppercase tracking-widest ${issue.flagged ? 'bg-amber-500/15 text-amber-400' : 'bg-slate-800 text-slate-400'}`}>
+                    {issue.flagged ? 'Review' : 'Repaired'}
+                  </span>
+                  <span className="text-[8px] font-black text-slate-600 uppercase tracking-widest">
+                    {hasParts && `Part ${issue.chunkIndex + 1} • `}{CODE_LABELS[issue.code]}
+                  </span>
+                </div>
+                <div className="flex-1 min-w-0 text-[11px] leading-relaxed">
+                  <span className="text-slate-300 font-bold">{issue.message}</span>{' '}
+                  <span className="text-slate-500">{issue.action}</span>
+                </div>
+                {scene && (
+                  <button
+                    onClick={() => onJumpToScene(scene.id)}
+                    className="shrink-0 px-4 py-2 rounded-lg text-[9px] font-black uppercase tracking-widest bg-slate-800 hover:bg-slate-700 text-blue-400 transition-all"
+                  >
+                    Beat {scene.sceneNumber}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ValidationReportPanel;
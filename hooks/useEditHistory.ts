@@ -0,0 +1,83 @@
+import { Dispatch, SetStateAction, useCallback, useReducer } from 'react';
+
+const MAX_STEPS = 100;
+
+interface EditHistory<T> {
+  value: T;
+  setValue: Dispatch<SetStateAction<T>>;
+  commit: (edit: (current: T) => T) => void;
+  undo: () => void;
+  redo: () => void;
+  clear: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+interface HistoryState<T> {
+  value: T;
+  past: T[];
+  future: T[];
+}
+
+type HistoryAction<T> =
+  | { type: 'set'; update: SetStateAction<T> }
+  | { type: 'commit'; edit: (current: T) => T }
+  | { type: 'undo' | 'redo'; reconcile: (snapshot: T, current: T) => T }
+  | { type: 'clear' };
+
+// Every transition works from the state it is given, so an edit committed after an await applies to whatever
+// landed meanwhile (finished renders, comments) rather than to the value seen when the await began.
+const historyReducer = <T>(state: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> => {
+  switch (action.type) {
+    case 'set': {
+      const value = typeof action.update === 'function' ? (action.update as (prev: T) => T)(state.value) : action.update;
+      return value === state.value ? state : { ...state, value };
+    }
+    case 'commit': {
+      const value = action.edit(state.value);
+      if (value === state.value) return state;
+      return { value, past: [...state.past, state.value].slice(-MAX_STEPS), future: [] };
+    }
+    case 'undo': {
+      if (!state.past.length) return state;
+      const snapshot = state.past[state.past.length - 1];
+      return { value: action.reconcile(snapshot, state.value), past: state.past.slice(0, -1), future: [state.value, ...state.future] };
+    }
+    case 'redo': {
+      if (!state.future.length) return state;
+      const [snapshot, ...future] = state.future;
+      return { value: action.reconcile(snapshot, state.value), past: [...state.past, state.value], future };
+    }
+    case 'clear':
+      return { ...state, past: [], future: [] };
+  }
+};
+
+/**
+ * Undo/redo over a piece of state that is also updated by non-edit events (renders finishing,
+ * loading flags). Those go through `setValue` and are not recorded; only changes made through `commit` are.
+ * `reconcile` lets the caller carry the live fields over when an older snapshot is restored.
+ */
+export const useEditHistory = <T>(
+  initial: T,
+  reconcile: (snapshot: T, current: T) => T = (snapshot) => snapshot
+): EditHistory<T> => {
+  const [state, dispatch] = useReducer(historyReducer<T>, { value: initial, past: [], future: [] });
+
+  const setValue = useCallback((update: SetStateAction<T>) => dispatch({ type: 'set', update }), []);
+  const commit = useCallback((edit: (current: T) => T) => dispatch({ type: 'commit', edit }), []);
+  const undo = useCallback(() => dispatch({ type: 'undo', reconcile }), [reconcile]);
+  const redo = useCallback(() => dispatch({ type: 'redo', reconcile }), [reconcile]);
+  const clear = useCallback(() => dispatch({ type: 'clear' }), []);
+
+  return {
+    value: state.value,
+    setValue,
+    commit,
+    undo,
+    redo,
+    clear,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+  };
+};
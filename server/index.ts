@@ -0,0 +1,54 @@
+import { createGeminiProvider } from '../services/providers/geminiProvider';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { createLogger, LogLevel } from './logger';
+import { createProxyServer, UpstreamFactory } from './proxyServer';
+import { createRateLimiter } from './rateLimiter';
+
+// Same file Vite reads, so one GEMINI_API_KEY serves both; real environment variables win.
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local; rely on the environment
+}
+
+const env = process.env;
+const numberFrom = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const logger = createLogger((env.LOG_LEVEL as LogLevel) || 'info');
+const apiKey = env.GEMINI_API_KEY;
+const upstreamName = env.AI_UPSTREAM || (apiKey ? 'gemini' : 'mock');
+
+let upstream: UpstreamFactory;
+if (upstreamName === 'mock') {
+  upstream = () => createMockProvider();
+} else if (upstreamName === 'gemini' && apiKey) {
+  upstream = models => createGeminiProvider(models, { apiKey, baseUrl: env.GEMINI_BASE_URL });
+} else {
+  logger.error('config_invalid', {
+    message: upstreamName === 'gemini' ? "GEMINI_API_KEY is not set." : `Unknown AI_UPSTREAM "${upstreamName}"; use gemini or mock.`,
+  });
+  process.exit(1);
+}
+
+const port = numberFrom(env.PORT, 8787);
+const host = env.HOST || '127.0.0.1';
+
+const server = createProxyServer({
+  upstream,
+  upstreamName,
+  logger,
+  rateLimiter: createRateLimiter({
+    requestsPerMinute: numberFrom(env.RATE_LIMIT_PER_MINUTE, 30),
+    burst: numberFrom(env.RATE_LIMIT_BURST, 10),
+  }),
+  maxBodyBytes: numberFrom(env.MAX_BODY_BYTES, 20 * 1024 * 1024),
+  trustProxy: env.TRUST_PROXY === 'true',
+  corsOrigin: env.CORS_ORIGIN,
+});
+
+server.listen(port, host, () => {
+  logger.info('listening', { host, port, upstream: upstreamName, upstreamUrl: env.GEMINI_BASE_URL });
+});
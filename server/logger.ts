@@ -0,0 +1,25 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, string | number | boolean | undefined>;
+
+export interface Logger {
+  debug: (event: string, fields?: LogFields) => void;
+  info: (event: string, fields?: LogFields) => void;
+  warn: (event: string, fields?: LogFields) => void;
+  error: (event: string, fields?: LogFields) => void;
+}
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * One JSON object per line, so logs can be grepped locally and shipped to any collector unchanged.
+ * Callers pass identifiers and sizes only; request bodies and the API key are never logged.
+ */
+export const createLogger = (minLevel: LogLevel = 'info', write: (line: string) => void = line => process.stdout.write(line)): Logger => {
+  const threshold = LEVELS.indexOf(minLevel);
+  const log = (level: LogLevel) => (event: string, fields: LogFields = {}) => {
+    if (LEVELS.indexOf(level) < threshold) return;
+    write(`${JSON.stringify({ time: new Date().toISOString(), level, event, ...fields })}\n`);
+  };
+  return { debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error') };
+};
@@ -0,0 +1,196 @@
+import { AddressInfo } from 'node:net';
+import { request, Server } from 'node:http';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AIProvider, ModelIds } from '../services/aiProvider';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { AnalysisStreamEvent, WireAnalysisRequest } from '../services/proxyProtocol';
+import { BUILT_IN_TONE_PROFILES } from '../services/toneProfiles';
+import { Logger } from './logger';
+import { createProxyServer, ProxyServerOptions } from './proxyServer';
+import { createRateLimiter } from './rateLimiter';
+
+const MODELS: ModelIds = { textModel: 'text-model', analysisModel: 'analysis-model', imageModel: 'image-model' };
+
+const silentLogger: Logger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+let server: Server | undefined;
+
+const start = async (options: Partial<ProxyServerOptions> = {}): Promise<string> => {
+  server = createProxyServer({
+    upstream: () => createMockProvider(),
+    upstreamName: 'mock',
+    logger: silentLogger,
+    rateLimiter: createRateLimiter({ requestsPerMinute: 600, burst: 100 }),
+    maxBodyBytes: 64 * 1024,
+    ...options,
+  });
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+afterEach(async () => {
+  await new Promise(resolve => server?.close(resolve) ?? resolve(undefined));
+  server = undefined;
+});
+
+const ANALYSIS_REQUEST: WireAnalysisRequest = {
+  chunk: { index: 0, text: 'INT. HALL - DAY\nA door opens.\n\nEXT. YARD - DAY\nDogs bark.\n\nINT. HALL - NIGHT\nThe door closes.', frameCount: 3 },
+  chunkCount: 1,
+  topic: 'Doors',
+  style: 'Noir',
+  previousSummaries: [],
+  tone: BUILT_IN_TONE_PROFILES[0],
+};
+
+const post = (base: string, route: string, body: unknown, models: ModelIds = MODELS) =>
+  fetch(`${base}/api/${route}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ models, request: body }) });
+
+// Writes the body in pieces without a Content-Length, like a streamed upload.
+const postChunked = (base: string, route: string, pieces: string[]): Promise<{ status: number; body: string; headers: Record<string, unknown> }> =>
+  new Promise((resolve, reject) => {
+    const { hostname, port } = new URL(base);
+    const req = request({ hostname, port, path: `/api/${route}`, method: 'POST', headers: { 'Content-Type': 'application/json' } }, res => {
+      let body = '';
+      res.setEncoding('utf8');
+      res.on('data', chunk => { body += chunk; });
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, body, headers: res.headers }));
+    });
+    req.on('error', reject);
+    pieces.forEach(piece => req.write(piece));
+    req.end();
+  });
+
+describe('createProxyServer', () => {
+  it('answers the health check', async () => {
+    const base = await start();
+    const res = await fetch(`${base}/api/health`);
+    expect(await res.json()).toEqual({ ok: true, upstream: 'mock' });
+  });
+
+  it('forwards a call to the upstream provider', async () => {
+    const base = await start();
+    const res = await post(base, 'style', { topic: 'A lighthouse keeper in 1910' });
+    expect(res.status).toBe(200);
+    expect(typeof await res.json()).toBe('string');
+  });
+
+  it('rejects unknown routes, other methods and invalid model ids', async () => {
+    const base = await start();
+    expect((await post(base, 'nope', {})).status).toBe(404);
+    expect((await fetch(`${base}/api/style`)).status).toBe(405);
+    const res = await post(base, 'style', { topic: 'x' }, { ...MODELS, textModel: 'bad model id!' });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.message).toMatch(/valid text, analysis and image models/);
+  });
+
+  it('rejects a request that does not fit its route before calling the provider', async () => {
+    const upstream = vi.fn(() => createMockProvider());
+    const base = await start({ upstream });
+    const image = await post(base, 'image', { prompt: 'A harbour', references: [], tone: BUILT_IN_TONE_PROFILES[0] });
+    expect(image.status).toBe(400);
+    expect((await image.json()).error.message).toBe('Invalid request: request.seed must be a number.');
+
+    const analysis = await post(base, 'analyze', { ...ANALYSIS_REQUEST, chunk: { ...ANALYSIS_REQUEST.chunk, text: null } });
+    expect(analysis.status).toBe(400);
+    expect((await analysis.json()).error.message).toBe('Invalid request: request.chunk.text must be a string.');
+    expect((await post(base, 'style', { topic: 42 })).status).toBe(400);
+    expect(upstream).not.toHaveBeenCalled();
+  });
+
+  it('aborts the upstream call when the client disconnects, whatever the route', async () => {
+    let signal: AbortSignal | undefined;
+    let started!: () => void;
+    const calling = new Promise<void>(resolve => { started = resolve; });
+    const hanging: AIProvider = {
+      ...createMockProvider(),
+      generateImage: request => new Promise((_, reject) => {
+        signal = request.signal;
+        started();
+        signal?.addEventListener('abort', () => reject(new DOMException('Request cancelled.', 'AbortError')));
+      }),
+    };
+    const base = await start({ upstream: () => hanging });
+    const { hostname, port } = new URL(base);
+    const req = request({ hostname, port, path: '/api/image', method: 'POST', headers: { 'Content-Type': 'application/json' } });
+    req.on('error', () => {});
+    req.end(JSON.stringify({ models: MODELS, request: { prompt: 'A harbour', seed: 1, references: [], tone: BUILT_IN_TONE_PROFILES[0] } }));
+
+    await calling;
+    expect(signal?.aborted).toBe(false);
+    req.destroy();
+    await vi.waitFor(() => expect(signal?.aborted).toBe(true));
+  });
+
+  describe('body limit', () => {
+    it('answers 413 when the declared length is over the limit', async () => {
+      const base = await start({ maxBodyBytes: 1000 });
+      const res = await post(base, 'style', { topic: 'x'.repeat(2000) });
+      expect(res.status).toBe(413);
+      expect(res.headers.get('connection')).toBe('close');
+      expect((await res.json()).error.message).toBe('Request body exceeds 1000 bytes.');
+    });
+
+    it('answers 413 rather than resetting the connection for a streamed upload over the limit', async () => {
+      const base = await start({ maxBodyBytes: 1000 });
+      const res = await postChunked(base, 'style', Array.from({ length: 50 }, () => 'x'.repeat(1000)));
+      expect(res.status).toBe(413);
+      expect(JSON.parse(res.body).error.message).toBe('Request body exceeds 1000 bytes.');
+    });
+
+    it('accepts a streamed upload under the limit', async () => {
+      const base = await start();
+      const body = JSON.stringify({ models: MODELS, request: { topic: 'A storm at sea' } });
+      const res = await postChunked(base, 'style', [body.slice(0, 10), body.slice(10)]);
+      expect(res.status).toBe(200);
+    });
+  });
+
+  it('rate limits each client with 429 and Retry-After', async () => {
+    const base = await start({ rateLimiter: createRateLimiter({ requestsPerMinute: 6, burst: 2 }) });
+    const statuses = [];
+    for (let i = 0; i < 3; i++) statuses.push((await post(base, 'style', { topic: 'x' })).status);
+    expect(statuses).toEqual([200, 200, 429]);
+
+    const limited = await post(base, 'style', { topic: 'x' });
+    expect(limited.headers.get('retry-after')).toBe('10');
+    expect((await limited.json()).error.kind).toBe('rate-limit');
+  });
+
+  it('streams analysis as one NDJSON line per beat, then the result', async () => {
+    const base = await start();
+    const res = await post(base, 'analyze', ANALYSIS_REQUEST);
+    expect(res.headers.get('content-type')).toBe('application/x-ndjson');
+
+    const events: AnalysisStreamEvent[] = (await res.text()).trim().split('\n').map(line => JSON.parse(line));
+    expect(events).toHaveLength(4);
+    expect(events.slice(0, 3).every(event => 'scene' in event)).toBe(true);
+    const last = events[3];
+    expect('result' in last && last.result.scenes).toHaveLength(3);
+  });
+
+  it('reports an upstream failure during analysis in-band', async () => {
+    const failing: AIProvider = { ...createMockProvider(), analyzeScript: async () => { throw new Error('upstream exploded'); } };
+    const base = await start({ upstream: () => failing });
+    const res = await post(base, 'analyze', ANALYSIS_REQUEST);
+    expect(res.status).toBe(200);
+    const [event] = (await res.text()).trim().split('\n').map(line => JSON.parse(line));
+    expect(event.error.message).toBe('upstream exploded');
+  });
+
+  it('keeps a bounded number of providers for client-chosen model ids', async () => {
+    // The mock's simulated latency would make twenty calls slow; only the factory calls matter here.
+    const upstream = vi.fn((): AIProvider => ({ ...createMockProvider(), suggestStyle: async () => 'Noir' }));
+    const base = await start({ upstream });
+    const modelsFor = (n: number): ModelIds => ({ ...MODELS, textModel: `text-${n}` });
+
+    await post(base, 'style', { topic: 'x' }, modelsFor(0));
+    await post(base, 'style', { topic: 'x' }, modelsFor(0));
+    expect(upstream).toHaveBeenCalledTimes(1);
+
+    for (let n = 1; n <= 16; n++) await post(base, 'style', { topic: 'x' }, modelsFor(n));
+    expect(upstream).toHaveBeenCalledTimes(17);
+    // The first combination was the least recently used, so it was evicted and is built again.
+    await post(base, 'style', { topic: 'x' }, modelsFor(0));
+    expect(upstream).toHaveBeenCalledTimes(18);
+  });
+});
@@ -0,0 +1,240 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { AIErrorKind } from '../types';
+import { AIProvider, ModelIds } from '../services/aiProvider';
+import { serializeAIError, toAIServiceError } from '../services/aiErrors';
+import { AnalysisStreamEvent, PROXY_ROUTES, ProxyErrorBody, ProxyMethod, ProxyRequestBody, StyleRequest, WireAnalysisRequest } from '../services/proxyProtocol';
+import { Logger } from './logger';
+import { RateLimiter } from './rateLimiter';
+import { requestProblem } from './requestShapes';
+
+// Builds the provider that actually answers, e.g. Gemini with the server's key, the offline mock, or a fake in tests.
+export type UpstreamFactory = (models: ModelIds) => AIProvider;
+
+export interface ProxyServerOptions {
+  upstream: UpstreamFactory;
+  upstreamName: string;
+  logger: Logger;
+  rateLimiter: RateLimiter;
+  maxBodyBytes: number;
+  // Behind a reverse proxy the socket address is the proxy's, so the client comes from X-Forwarded-For.
+  trustProxy?: boolean;
+  // Only needed when the app is served from a different origin than /api.
+  corsOrigin?: string;
+}
+
+class HttpError extends Error {
+  readonly status: number;
+  readonly kind: AIErrorKind;
+
+  constructor(status: number, message: string, kind: AIErrorKind = 'unknown') {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.kind = kind;
+  }
+}
+
+const STATUS_FOR_KIND: Record<AIErrorKind, number> = {
+  'safety': 422,
+  'refusal': 422,
+  'rate-limit': 429,
+  'network': 502,
+  'malformed': 502,
+  'empty': 502,
+  'unknown': 500,
+};
+
+const ROUTE_METHODS = new Map<string, ProxyMethod>(Object.entries(PROXY_ROUTES).map(([method, route]) => [route, method as ProxyMethod]));
+
+const MODEL_ID = /^[\w.\-/]{1,100}$/;
+
+// Providers are cached per model combination. Model ids come from the client, so the cache is bounded and
+// the least recently used combination goes first.
+const MAX_PROVIDERS = 16;
+
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<string> => new Promise((resolve, reject) => {
+  const declared = Number(req.headers['content-length']);
+  if (declared > maxBytes) {
+    reject(new HttpError(413, `Request body exceeds ${maxBytes} bytes.`));
+    return;
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  // An oversize body stops being read here; the 413 is sent and the connection closed afterwards, so the
+  // client gets the error rather than a reset mid-upload.
+  const onData = (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > maxBytes) {
+      req.off('data', onData);
+      req.pause();
+      reject(new HttpError(413, `Request body exceeds ${maxBytes} bytes.`));
+      return;
+    }
+    chunks.push(chunk);
+  };
+  req.on('data', onData);
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+const parseRequestBody = (raw: string): ProxyRequestBody<unknown> => {
+  let body: ProxyRequestBody<unknown>;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON.");
+  }
+  const models = body?.models;
+  if (!models || ![models.textModel, models.analysisModel, models.imageModel].every(id => typeof id === 'string' && MODEL_ID.test(id))) {
+    throw new HttpError(400, "Request must name valid text, analysis and image models.");
+  }
+  if (!body.request || typeof body.request !== 'object') throw new HttpError(400, "Request is missing.");
+  return body;
+};
+
+const sendJson = (res: ServerResponse, status: number, payload: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(payload));
+};
+
+const errorBody = (err: unknown): { status: number; body: ProxyErrorBody } => {
+  if (err instanceof HttpError) return { status: err.status, body: { error: { kind: err.kind, message: err.message } } };
+  const error = serializeAIError(err);
+  return { status: STATUS_FOR_KIND[error.kind], body: { error } };
+};
+
+/**
+ * The browser's only way to reach the model: every provider call is a POST to /api/<route>, answered with
+ * the server-side key. Clients are rate limited individually, bodies are size-limited, and each request is
+ * logged as one structured line.
+ */
+export const createProxyServer = ({
+  upstream, upstreamName, logger, rateLimiter, maxBodyBytes, trustProxy = false, corsOrigin,
+}: ProxyServerOptions): Server => {
+  const providers = new Map<string, AIProvider>();
+  const providerFor = (models: ModelIds): AIProvider => {
+    const key = `${models.textModel}|${models.analysisModel}|${models.imageModel}`;
+    const provider = providers.get(key) ?? upstream(models);
+    providers.delete(key);
+    providers.set(key, provider);
+    if (providers.size > MAX_PROVIDERS) providers.delete(providers.keys().next().value!);
+    return provider;
+  };
+
+  const clientOf = (req: IncomingMessage): string => {
+    const forwarded = req.headers['x-forwarded-for'];
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim();
+    return (trustProxy && first) || req.socket.remoteAddress || 'unknown';
+  };
+
+  // Analysis streams one NDJSON line per beat.
+  const streamAnalysis = async (res: ServerResponse, provider: AIProvider, request: WireAnalysisRequest, signal: AbortSignal) => {
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' });
+    const send = (event: AnalysisStreamEvent) => res.write(`${JSON.stringify(event)}\n`);
+    try {
+      const result = await provider.analyzeScript({ ...request, signal, onScene: scene => send({ scene }) });
+      send({ result });
+    } catch (err) {
+      if (signal.aborted) return;
+      const { body } = errorBody(err);
+      send(body);
+      throw err;
+    } finally {
+      res.end();
+    }
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse, client: string) => {
+    const path = (req.url ?? '').split('?')[0];
+    if (req.method === 'GET' && path === '/api/health') {
+      sendJson(res, 200, { ok: true, upstream: upstreamName });
+      return;
+    }
+
+    const method = path.startsWith('/api/') ? ROUTE_METHODS.get(path.slice('/api/'.length)) : undefined;
+    if (!method) throw new HttpError(404, "Not found.");
+    if (req.method !== 'POST') throw new HttpError(405, "Use POST.");
+
+    const decision = rateLimiter.take(client);
+    if (!decision.allowed) {
+      res.setHeader('Retry-After', String(Math.ceil(decision.retryAfterMs / 1000)));
+      throw new HttpError(429, `Too many requests from this client; retry in ${Math.ceil(decision.retryAfterMs / 1000)}s.`, 'rate-limit');
+    }
+
+    const { models, request } = parseRequestBody(await readBody(req, maxBodyBytes));
+    const problem = requestProblem(method, request);
+    if (problem) throw new HttpError(400, `Invalid request: ${problem}.`);
+    const provider = providerFor(models);
+
+    // A client that disconnects (e.g. pressed Cancel) aborts the upstream call. This listens on the response:
+    // the request's own 'close' already fires once its body has been read.
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+    const { signal } = controller;
+
+    try {
+      switch (method) {
+        case 'analyzeScript':
+          await streamAnalysis(res, provider, request as WireAnalysisRequest, signal);
+          return;
+        case 'suggestStyle':
+          sendJson(res, 200, await provider.suggestStyle((request as StyleRequest).topic, signal));
+          return;
+        default:
+          sendJson(res, 200, await (provider[method] as (request: unknown) => Promise<unknown>)({ ...request as object, signal }));
+      }
+    } catch (err) {
+      if (signal.aborted) return; // Nobody is left to answer
+      throw err;
+    }
+  };
+
+  return createServer((req, res) => {
+    const requestId = randomUUID();
+    const started = Date.now();
+    const client = clientOf(req);
+    let errorKind: AIErrorKind | undefined;
+
+    if (corsOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', corsOrigin);
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST');
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204).end();
+        return;
+      }
+    }
+
+    // 'close' also fires when the client disconnects mid-stream, so cancelled analyses are logged too.
+    res.on('close', () => logger.info('request', {
+      requestId,
+      client,
+      method: req.method,
+      path: req.url,
+      status: res.statusCode,
+      durationMs: Date.now() - started,
+      completed: res.writableFinished,
+      errorKind,
+    }));
+
+    handle(req, res, client).catch(err => {
+      const typed = err instanceof HttpError ? err : toAIServiceError(err);
+      errorKind = typed.kind;
+      if (!(err instanceof HttpError) || err.status >= 500) {
+        logger.error('upstream_error', { requestId, client, kind: typed.kind, message: typed.message });
+      }
+      if (res.headersSent) return; // Streaming responses report errors in-band
+      const { status, body } = errorBody(err);
+      if (status === 413) {
+        // The rest of the body is never read, so the connection cannot be reused.
+        res.on('finish', () => req.socket.end());
+        sendJson(res, status, body, { Connection: 'close' });
+        return;
+      }
+      sendJson(res, status, body);
+    });
+  });
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from './rateLimiter';
+
+const clock = () => {
+  let time = 0;
+  return { now: () => time, advance: (ms: number) => { time += ms; } };
+};
+
+describe('createRateLimiter', () => {
+  it('allows a burst, then refills at the per-minute rate', () => {
+    const { now, advance } = clock();
+    const limiter = createRateLimiter({ requestsPerMinute: 60, burst: 3 }, now);
+    expect([1, 2, 3].map(() => limiter.take('a').allowed)).toEqual([true, true, true]);
+    expect(limiter.take('a')).toEqual({ allowed: false, retryAfterMs: 1000 });
+
+    advance(500);
+    expect(limiter.take('a')).toEqual({ allowed: false, retryAfterMs: 500 });
+    advance(500);
+    expect(limiter.take('a').allowed).toBe(true);
+  });
+
+  it('keeps a bucket per client', () => {
+    const { now } = clock();
+    const limiter = createRateLimiter({ requestsPerMinute: 1, burst: 1 }, now);
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('a').allowed).toBe(false);
+    expect(limiter.take('b').allowed).toBe(true);
+  });
+
+  it('never refills beyond the burst', () => {
+    const { now, advance } = clock();
+    const limiter = createRateLimiter({ requestsPerMinute: 60, burst: 2 }, now);
+    advance(60 * 60 * 1000);
+    expect([1, 2, 3].map(() => limiter.take('a').allowed)).toEqual([true, true, false]);
+  });
+
+  it('does not hand out a fresh bucket early when a slow bucket is evicted', () => {
+    const { now, advance } = clock();
+    // One request per hour: an emptied bucket takes five hours to fill again.
+    const limiter = createRateLimiter({ requestsPerMinute: 1 / 60, burst: 5 }, now);
+    for (let i = 0; i < 5; i++) limiter.take('slow');
+    advance(20 * 60 * 1000);
+    limiter.take('other'); // Triggers the sweep
+    advance(60 * 1000);
+    const decision = limiter.take('slow');
+    expect(decision.allowed).toBe(false);
+    expect(decision.retryAfterMs).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,58 @@
+export interface RateLimiterOptions {
+  requestsPerMinute: number;
+  burst: number; // Requests a quiet client may make back to back
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  take: (clientId: string) => RateLimitDecision;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// How often idle buckets are swept, and the shortest idle time before one is dropped.
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * A token bucket per client: tokens refill continuously at the per-minute rate up to `burst`, and each
+ * request spends one.
+ */
+export const createRateLimiter = ({ requestsPerMinute, burst }: RateLimiterOptions, now: () => number = Date.now): RateLimiter => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = requestsPerMinute / 60000;
+  // A bucket is only dropped once it would have refilled from empty, so eviction never hands a client
+  // tokens it would not have had anyway.
+  const idleEvictMs = Math.max(SWEEP_INTERVAL_MS, Math.ceil(burst / refillPerMs));
+  let lastSweep = now();
+
+  const sweep = (time: number) => {
+    if (time - lastSweep < SWEEP_INTERVAL_MS) return;
+    lastSweep = time;
+    buckets.forEach((bucket, clientId) => {
+      if (time - bucket.updatedAt > idleEvictMs) buckets.delete(clientId);
+    });
+  };
+
+  const take = (clientId: string): RateLimitDecision => {
+    const time = now();
+    sweep(time);
+    const bucket = buckets.get(clientId) ?? { tokens: burst, updatedAt: time };
+    bucket.tokens = Math.min(burst, bucket.tokens + (time - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = time;
+    buckets.set(clientId, bucket);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { allowed: true, retryAfterMs: 0 };
+    }
+    return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+  };
+
+  return { take };
+};
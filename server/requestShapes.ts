@@ -0,0 +1,51 @@
+import { ProxyMethod } from '../services/proxyProtocol';
+
+// Answers with what is wrong with a value, e.g. 'request.scenes[2].title must be a string', or undefined when it fits.
+type Check = (value: unknown, path: string) => string | undefined;
+
+const is = (description: string, test: (value: unknown) => boolean): Check =>
+  (value, path) => test(value) ? undefined : `${path} must be ${description}`;
+
+const string = is('a string', value => typeof value === 'string');
+const number = is('a number', value => typeof value === 'number' && Number.isFinite(value));
+
+const optional = (check: Check): Check => (value, path) => value === undefined ? undefined : check(value, path);
+
+const arrayOf = (item: Check): Check => (value, path) => Array.isArray(value)
+  ? value.map((entry, i) => item(entry, `${path}[${i}]`)).find(Boolean)
+  : `${path} must be an array`;
+
+const shape = (fields: Record<string, Check>): Check => (value, path) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return `${path} must be an object`;
+  return Object.entries(fields)
+    .map(([key, check]) => check((value as Record<string, unknown>)[key], `${path}.${key}`))
+    .find(Boolean);
+};
+
+const chunk = shape({ index: number, text: string, frameCount: number });
+const tone = shape({ analysisDirectives: string, imagePreamble: string, negativeGuidance: string, aspectRatio: string, resolution: string });
+const beat = shape({ sceneNumber: number, title: string, description: string, imagePrompt: string });
+const image = shape({ mimeType: string, data: string });
+const bibleEntry = shape({ kind: string, name: string, description: string });
+
+// Only the fields the providers read are checked; anything else in the request is passed through untouched.
+const REQUEST_SHAPES: Record<ProxyMethod, Check> = {
+  suggestStyle: shape({ topic: string }),
+  analyzeScript: shape({ chunk, chunkCount: number, topic: string, style: string, previousSummaries: arrayOf(string), screenplay: optional(shape({})), tone }),
+  reconcileBeats: shape({ chunk, scenes: arrayOf(beat), topic: string, style: string, tone }),
+  extractBible: shape({ scenes: arrayOf(beat), topic: string, style: string }),
+  draftBeat: shape({ before: optional(beat), after: optional(beat), topic: string, style: string }),
+  generateImage: shape({ prompt: string, seed: number, references: arrayOf(shape({ entry: bibleEntry, image: optional(image) })), tone }),
+  refineImage: shape({ image, mask: optional(image), instruction: string, seed: number, tone }),
+  softenPrompt: shape({ prompt: string, reason: string, tone }),
+  rewritePrompt: shape({ scene: beat, before: optional(beat), after: optional(beat), topic: string, style: string, instruction: string, tone }),
+  checkContinuity: shape({ frames: arrayOf(shape({ sceneNumber: number, title: string, description: string, imagePrompt: string, image })), bible: arrayOf(bibleEntry), topic: string, style: string }),
+  researchPeriod: shape({ beats: arrayOf(beat), topic: string, style: string }),
+};
+
+/**
+ * Checks a request body against what its route's provider method expects, so a malformed request is
+ * answered with a 400 instead of failing inside the provider or reaching the model half-filled.
+ */
+export const requestProblem = (method: ProxyMethod, request: unknown): string | undefined =>
+  REQUEST_SHAPES[method](request, 'request');
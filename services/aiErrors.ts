@@ -0,0 +1,170 @@
+import { AIErrorKind, SceneError } from "../types";
+
+/**
+ * Base for every failure the AI layer reports. `kind` lets the UI pick a message and a recovery path
+ * without inspecting provider-specific error text.
+ */
+export class AIServiceError extends Error {
+  readonly kind: AIErrorKind;
+
+  constructor(kind: AIErrorKind, message: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = 'AIServiceError';
+    this.kind = kind;
+    if (options?.cause !== undefined) (this as { cause?: unknown }).cause = options.cause;
+  }
+}
+
+// The prompt or the generated image tripped the provider's safety filters.
+export class SafetyBlockError extends AIServiceError {
+  readonly blockReason: string;
+
+  constructor(blockReason: string, detail?: string) {
+    super('safety', `Blocked by safety filters (${blockReason})${detail ? `: ${detail}` : '.'}`);
+    this.name = 'SafetyBlockError';
+    this.blockReason = blockReason;
+  }
+}
+
+// The model answered in words instead of doing the task.
+export class ModelRefusalError extends AIServiceError {
+  readonly refusal: string;
+
+  constructor(refusal: string) {
+    super('refusal', `Model refused: ${refusal}`);
+    this.name = 'ModelRefusalError';
+    this.refusal = refusal;
+  }
+}
+
+export class RateLimitError extends AIServiceError {
+  constructor(message = "Quota or rate limit reached.", cause?: unknown) {
+    super('rate-limit', message, { cause });
+    this.name = 'RateLimitError';
+  }
+}
+
+export class NetworkError extends AIServiceError {
+  constructor(message = "Could not reach the model service.", cause?: unknown) {
+    super('network', message, { cause });
+    this.name = 'NetworkError';
+  }
+}
+
+export class MalformedResponseError extends AIServiceError {
+  constructor(what: string, cause?: unknown) {
+    super('malformed', `The ${what} returned malformed JSON.`, { cause });
+    this.name = 'MalformedResponseError';
+  }
+}
+
+export class EmptyResponseError extends AIServiceError {
+  constructor(what: string) {
+    super('empty', `Empty response from the ${what}.`);
+    this.name = 'EmptyResponseError';
+  }
+}
+
+/**
+ * Parses a model's JSON answer, distinguishing "nothing came back" from "something unparseable came back".
+ */
+export const parseModelJson = <T>(text: string | undefined, what: string): T => {
+  if (!text?.trim()) throw new EmptyResponseError(what);
+  try {
+    return JSON.parse(text) as T;
+  } catch (err) {
+    throw new MalformedResponseError(what, err);
+  }
+};
+
+/**
+ * Maps anything thrown by a provider or the SDK onto the typed errors above. Errors that are already
+ * typed pass through unchanged.
+ */
+export const toAIServiceError = (err: unknown): AIServiceError => {
+  if (err instanceof AIServiceError) return err;
+  const message = err instanceof Error ? err.message : String(err);
+  const status = (err as { status?: number } | null)?.status;
+  if (status === 429 || /429|RESOURCE_EXHAUSTED|rate.?limit|quota/i.test(message)) return new RateLimitError(message, err);
+  if (err instanceof SyntaxError) return new MalformedResponseError('model', err);
+  if (
+    (err instanceof TypeError && /fetch|network|load failed/i.test(message)) ||
+    /ECONNRESET|ETIMEDOUT|ENOTFOUND|network ?error|failed to fetch/i.test(message) ||
+    (status !== undefined && status >= 500)
+  ) {
+    return new NetworkError(message, err);
+  }
+  return new AIServiceError('unknown', message, { cause: err });
+};
+
+export interface SerializedAIError {
+  kind: AIErrorKind;
+  message: string;
+  blockReason?: string;
+}
+
+// How errors cross the wire between the API proxy and the browser.
+export const serializeAIError = (err: unknown): SerializedAIError => {
+  const typed = toAIServiceError(err);
+  return {
+    kind: typed.kind,
+    message: typed.message,
+    blockReason: typed instanceof SafetyBlockError ? typed.blockReason : undefined,
+  };
+};
+
+export const deserializeAIError = ({ kind, message, blockReason }: SerializedAIError): AIServiceError => {
+  switch (kind) {
+    case 'safety': {
+      const error = new SafetyBlockError(blockReason ?? 'SAFETY');
+      error.message = message;
+      return error;
+    }
+    case 'refusal': return new ModelRefusalError(message.replace(/^Model refused: /, ''));
+    case 'rate-limit': return new RateLimitError(message);
+    case 'network': return new NetworkError(message);
+    default: return new AIServiceError(kind, message);
+  }
+};
+
+/**
+ * The serializable form kept on a scene so its card can show what went wrong.
+ */
+export const toSceneError = (err: unknown, prompt?: string): SceneError => {
+  const typed = toAIServiceError(err);
+  return {
+    kind: typed.kind,
+    message: typed.message,
+    blockReason: typed instanceof SafetyBlockError ? typed.blockReason : undefined,
+    prompt,
+    timestamp: Date.now(),
+  };
+};
+
+const HEADLINES: Record<AIErrorKind, string> = {
+  'safety': "Blocked by safety filters",
+  'refusal': "The model declined this frame",
+  'rate-limit': "Quota or rate limit reached",
+  'network': "Network problem",
+  'malformed': "The model returned malformed data",
+  'empty': "The model returned nothing",
+  'unknown': "Something went wrong",
+};
+
+const ADVICE: Record<AIErrorKind, string> = {
+  'safety': "Soften the wording of the prompt and try again.",
+  'refusal': "Rephrase the prompt and try again.",
+  'rate-limit': "Wait a minute before retrying, or lower the render concurrency.",
+  'network': "Check your connection and retry.",
+  'malformed': "Retry; this is usually transient.",
+  'empty': "Retry; this is usually transient.",
+  'unknown': "Retry, or check the console for details.",
+};
+
+export const errorHeadline = (kind: AIErrorKind): string => HEADLINES[kind];
+
+export const errorAdvice = (kind: AIErrorKind): string => ADVICE[kind];
+
+// Safety blocks and refusals are about the prompt's content, so rewording is the way out.
+export const canSoften = (error: SceneError): boolean =>
+  !!error.prompt && (error.kind === 'safety' || error.kind === 'refusal');
@@ -0,0 +1,223 @@
+import { BibleEntry, BibleEntryKind, Cinematography, ContinuityIssueType, ContinuitySeverity, ModelSettings, Scene, Screenplay, ScriptAnalysis, ToneProfile } from "../types";
+import { ScriptChunk } from "./scriptChunker";
+import { SourceQuotes } from "./sourceSpans";
+import { createProxyProvider } from "./providers/proxyProvider";
+import { createMockProvider } from "./providers/mockProvider";
+
+export type AnalyzedScene = Scene & SourceQuotes;
+
+export interface ChunkAnalysis extends Omit<ScriptAnalysis, 'scenes'> {
+  scenes: AnalyzedScene[];
+  summary: string;
+}
+
+export interface AnalysisRequest {
+  chunk: ScriptChunk;
+  chunkCount: number;
+  topic: string;
+  style: string;
+  previousSummaries: string[];
+  screenplay?: Screenplay;
+  tone: ToneProfile;
+  // Called with each beat as soon as it is complete, before the whole chunk has been analysed.
+  // A beat that streamed in malformed arrives as null, so the ones after it keep their positions.
+  onScene?: (scene: AnalyzedScene | null) => void;
+  signal?: AbortSignal;
+}
+
+// Sent when a chunk's analysis came back with the wrong number of usable beats.
+export interface BeatCountRequest {
+  chunk: ScriptChunk; // chunk.frameCount is the number of beats wanted
+  scenes: AnalyzedScene[]; // The usable beats the analysis returned, in order
+  topic: string;
+  style: string;
+  tone: ToneProfile;
+  signal?: AbortSignal;
+}
+
+export interface ExtractedBibleEntry {
+  kind: BibleEntryKind;
+  name: string;
+  description: string;
+  sceneNumbers: number[];
+}
+
+export interface BibleRequest {
+  scenes: Scene[];
+  topic: string;
+  style: string;
+  signal?: AbortSignal;
+}
+
+export interface BeatDraftRequest {
+  before?: Scene;
+  after?: Scene;
+  topic: string;
+  style: string;
+  signal?: AbortSignal;
+}
+
+export type BeatDraft = Pick<Scene, 'title' | 'description' | 'imagePrompt' | 'cinematography'>;
+
+export interface ContinuityReference {
+  entry: BibleEntry;
+  image?: InlineImage;
+}
+
+export interface ImageRequest {
+  prompt: string;
+  seed: number;
+  references: ContinuityReference[];
+  tone: ToneProfile;
+  signal?: AbortSignal;
+}
+
+export interface InlineImage {
+  mimeType: string;
+  data: string;
+}
+
+export interface RefineRequest {
+  image: InlineImage;
+  // White marks the region to change; without a mask the instruction applies to the whole frame.
+  mask?: InlineImage;
+  instruction: string;
+  seed: number;
+  tone: ToneProfile;
+  signal?: AbortSignal;
+}
+
+export interface SoftenRequest {
+  prompt: string;
+  reason: string; // Why the original was refused, e.g. the safety block reason
+  tone: ToneProfile;
+  signal?: AbortSignal;
+}
+
+export interface SoftenedPrompt {
+  prompt: string;
+  changes: string; // What was toned down, for the user to review
+}
+
+export interface PromptRewriteRequest {
+  scene: Scene;
+  before?: Scene;
+  after?: Scene;
+  topic: string;
+  style: string;
+  instruction: string; // e.g. "wider, more crowd, morning fog"
+  tone: ToneProfile;
+  signal?: AbortSignal;
+}
+
+export interface RewrittenPrompt {
+  prompt: string;
+  notes: string; // What was changed and why, for the user to review
+}
+
+// One rendered frame in a continuity window, identified by its beat number.
+export interface ContinuityFrame {
+  sceneNumber: number;
+  title: string;
+  description: string;
+  imagePrompt: string;
+  cinematography?: Cinematography;
+  image: InlineImage;
+}
+
+export interface ContinuityRequest {
+  frames: ContinuityFrame[]; // Consecutive rendered frames, in storyboard order
+  bible: BibleEntry[]; // Canonical descriptions of the characters and locations they show
+  topic: string;
+  style: string;
+  signal?: AbortSignal;
+}
+
+export interface ContinuityFinding {
+  type: ContinuityIssueType;
+  severity: ContinuitySeverity;
+  sceneNumbers: number[];
+  description: string;
+  fixSceneNumber: number;
+  suggestedPrompt: string;
+}
+
+export type ResearchBeat = Pick<Scene, 'sceneNumber' | 'title' | 'description' | 'imagePrompt' | 'cinematography'>;
+
+export interface PeriodResearchRequest {
+  beats: ResearchBeat[];
+  topic: string;
+  style: string;
+  signal?: AbortSignal;
+}
+
+export interface PeriodFinding {
+  sceneNumber: number;
+  era: string;
+  region: string;
+  clothing: string;
+  technology: string;
+  architecture: string;
+  anachronisms: { term: string; explanation: string; correction: string }[];
+}
+
+export interface ImageResult {
+  dataUrl: string;
+  // The complete text sent to the model, preamble and continuity included.
+  fullPrompt: string;
+  model: string;
+  seed: number;
+}
+
+/**
+ * Everything the app asks of a model. Implementations own their prompts and SDK calls;
+ * callers only deal in app types.
+ */
+export interface AIProvider {
+  suggestStyle: (topic: string, signal?: AbortSignal) => Promise<string>;
+  analyzeScript: (request: AnalysisRequest) => Promise<ChunkAnalysis>;
+  // Fills in missing beats or consolidates extra ones; resolves with the chunk's full beat list.
+  reconcileBeats: (request: BeatCountRequest) => Promise<AnalyzedScene[]>;
+  extractBible: (request: BibleRequest) => Promise<ExtractedBibleEntry[]>;
+  draftBeat: (request: BeatDraftRequest) => Promise<BeatDraft>;
+  generateImage: (request: ImageRequest) => Promise<ImageResult>;
+  refineImage: (request: RefineRequest) => Promise<ImageResult>;
+  softenPrompt: (request: SoftenRequest) => Promise<SoftenedPrompt>;
+  rewritePrompt: (request: PromptRewriteRequest) => Promise<RewrittenPrompt>;
+  checkContinuity: (request: ContinuityRequest) => Promise<ContinuityFinding[]>;
+  researchPeriod: (request: PeriodResearchRequest) => Promise<PeriodFinding[]>;
+}
+
+export type ModelIds = Omit<ModelSettings, 'provider'>;
+
+// Where the browser reaches the API proxy that holds the Gemini key (see server/).
+export const AI_PROXY_URL = process.env.AI_PROXY_URL || '/api';
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  // Without a key configured for the proxy there is nothing to call, so fall back to the offline provider.
+  provider: process.env.GEMINI_CONFIGURED ? 'gemini' : 'mock',
+  textModel: "gemini-3-flash-preview",
+  analysisModel: "gemini-3-pro-preview",
+  imageModel: "gemini-2.5-flash-image",
+};
+
+let settings: ModelSettings = DEFAULT_MODEL_SETTINGS;
+let provider: AIProvider | null = null;
+
+// Blank model fields fall back to the defaults rather than sending an empty model id.
+export const setModelSettings = (next: ModelSettings) => {
+  settings = {
+    provider: next.provider,
+    textModel: next.textModel.trim() || DEFAULT_MODEL_SETTINGS.textModel,
+    analysisModel: next.analysisModel.trim() || DEFAULT_MODEL_SETTINGS.analysisModel,
+    imageModel: next.imageModel.trim() || DEFAULT_MODEL_SETTINGS.imageModel,
+  };
+  provider = null;
+};
+
+export const getProvider = (): AIProvider => {
+  if (!provider) {
+    provider = settings.provider === 'mock' ? createMockProvider() : createProxyProvider(settings, AI_PROXY_URL);
+  }
+  return provider;
+};
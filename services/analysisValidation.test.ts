@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { checkBeatIdentity, repairBeat } from './analysisValidation';
+
+describe('repairBeat', () => {
+  it('passes a complete beat through untouched', () => {
+    const beat = { id: 'b1', sceneNumber: 1, title: 'Arrival', description: 'A train pulls in.', imagePrompt: 'Steam, platform, dusk.' };
+    const { scene, issues } = repairBeat(beat, 0, 1);
+    expect(scene).toMatchObject(beat);
+    expect(issues).toEqual([]);
+  });
+
+  it('drops a beat with nothing to draw', () => {
+    const { scene, issues } = repairBeat({ title: 'Empty' }, 2, 4);
+    expect(scene).toBeNull();
+    expect(issues).toMatchObject([{ code: 'empty-beat', chunkIndex: 2, flagged: false }]);
+  });
+
+  it('falls back to the description for a blank prompt and flags it', () => {
+    const { scene, issues } = repairBeat({ title: 'T', description: 'A quiet street.', imagePrompt: '   ' }, 0, 1);
+    expect(scene?.imagePrompt).toBe('A quiet street.');
+    expect(issues).toMatchObject([{ code: 'empty-prompt', flagged: true }]);
+  });
+
+  it('derives a missing title and description', () => {
+    const { scene, issues } = repairBeat({ imagePrompt: 'One two three four five six seven eight' }, 0, 3);
+    expect(scene?.description).toBe('One two three four five six seven eight');
+    expect(scene?.title).toBe('One two three four five six');
+    expect(issues.map(issue => issue.code)).toEqual(['missing-field', 'missing-field']);
+  });
+
+  it('treats non-objects as empty beats', () => {
+    expect(repairBeat('nonsense', 0, 1).scene).toBeNull();
+  });
+});
+
+describe('checkBeatIdentity', () => {
+  it('accepts unique ids counting up by one', () => {
+    expect(checkBeatIdentity([{ id: 'a', sceneNumber: 4 }, { id: 'b', sceneNumber: 5 }], 0)).toEqual([]);
+  });
+
+  it('reports duplicate and missing ids and numbering gaps', () => {
+    const issues = checkBeatIdentity([{ id: 'a', sceneNumber: 1 }, { id: 'a', sceneNumber: 3 }, { sceneNumber: 'x' }], 1);
+    expect(issues.map(issue => issue.code)).toEqual(['duplicate-id', 'missing-field', 'numbering-gap']);
+    expect(issues[2].message).toContain('1, 3, ?');
+  });
+});
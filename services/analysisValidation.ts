@@ -0,0 +1,103 @@
+import { ValidationIssue, ValidationIssueCode } from "../types";
+import { AnalyzedScene } from "./aiProvider";
+
+/**
+ * Checks and deterministic repairs for the analyzer's raw output. Nothing the model returns is trusted as-is:
+ * every beat passes through repairBeat before it reaches state, and every problem found is kept for the report.
+ */
+
+type RawBeat = Partial<Record<keyof AnalyzedScene, unknown>>;
+
+export interface RepairedBeat {
+  scene: AnalyzedScene | null; // null when the beat had nothing to draw and was dropped
+  issues: ValidationIssue[];
+}
+
+const field = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+const issueFor = (chunkIndex: number) => (code: ValidationIssueCode, message: string, action: string, flagged = false): ValidationIssue =>
+  ({ code, chunkIndex, message, action, flagged });
+
+const preview = (values: (string | number)[], max: number) =>
+  `${values.slice(0, max).join(', ')}${values.length > max ? ', …' : ''}`;
+
+/**
+ * Coerces one beat into shape. A missing title or description is derived from the rest of the beat; a blank
+ * prompt falls back to the description but is flagged, since the description rarely reads as a good prompt.
+ * `position` is the beat's 1-based place in its chunk, used in messages.
+ */
+export const repairBeat = (value: unknown, chunkIndex: number, position: number): RepairedBeat => {
+  const raw: RawBeat = value && typeof value === 'object' ? value as RawBeat : {};
+  const issue = issueFor(chunkIndex);
+  const issues: ValidationIssue[] = [];
+  let title = field(raw.title);
+  let description = field(raw.description);
+  let imagePrompt = field(raw.imagePrompt);
+  const label = `Beat ${position}${title ? ` ("${title}")` : ''}`;
+
+  if (!description && !imagePrompt) {
+    issues.push(issue('empty-beat', `${label} has neither a description nor an image prompt.`, 'Dropped it.'));
+    return { scene: null, issues };
+  }
+  if (!imagePrompt) {
+    imagePrompt = description;
+    issues.push(issue('empty-prompt', `${label} has no image prompt.`, 'Used its description as the prompt; review it before rendering.', true));
+  }
+  if (!description) {
+    description = imagePrompt;
+    issues.push(issue('missing-field', `${label} has no description.`, 'Used its image prompt as the description.'));
+  }
+  if (!title) {
+    title = description.split(/\s+/).slice(0, 6).join(' ');
+    issues.push(issue('missing-field', `Beat ${position} has no title.`, `Titled it "${title}" from its description.`));
+  }
+
+  return {
+    scene: {
+      ...(raw as AnalyzedScene),
+      id: field(raw.id),
+      sceneNumber: Number(raw.sceneNumber),
+      title,
+      description,
+      imagePrompt,
+      sourceStart: typeof raw.sourceStart === 'string' ? raw.sourceStart : undefined,
+      sourceEnd: typeof raw.sourceEnd === 'string' ? raw.sourceEnd : undefined,
+    },
+    issues,
+  };
+};
+
+/**
+ * Duplicate or missing ids and numbering that does not count up by one, as the analyzer returned them for one
+ * chunk. Accepted beats always get fresh ids and numbers, so these are repaired by construction and reported
+ * only so a misbehaving model or prompt can be spotted.
+ */
+export const checkBeatIdentity = (beats: unknown[], chunkIndex: number): ValidationIssue[] => {
+  const raw = beats.map(beat => (beat && typeof beat === 'object' ? beat : {}) as RawBeat);
+  const issue = issueFor(chunkIndex);
+  const issues: ValidationIssue[] = [];
+
+  const counts = new Map<string, number>();
+  raw.forEach(beat => {
+    const id = field(beat.id);
+    if (id) counts.set(id, (counts.get(id) ?? 0) + 1);
+  });
+  const duplicates = Array.from(counts).filter(([, count]) => count > 1).map(([id]) => `"${id}"`);
+  if (duplicates.length) {
+    issues.push(issue('duplicate-id', `Beat ids are reused: ${preview(duplicates, 4)}.`, 'Gave every beat a fresh unique id.'));
+  }
+  const missingIds = raw.filter(beat => !field(beat.id)).length;
+  if (missingIds) {
+    issues.push(issue('missing-field', `${missingIds} ${missingIds === 1 ? 'beat has' : 'beats have'} no id.`, 'Gave every beat a fresh unique id.'));
+  }
+
+  const numbers = raw.map(beat => Number(beat.sceneNumber));
+  const counting = numbers.every((n, i) => Number.isInteger(n) && (i === 0 || n === numbers[i - 1] + 1));
+  if (!counting) {
+    const shown = numbers.map(n => Number.isInteger(n) ? n : '?');
+    issues.push(issue('numbering-gap', `Beat numbers run ${preview(shown, 8)} instead of counting up by one.`, 'Renumbered the beats in story order.'));
+  }
+
+  return issues;
+};
@@ -0,0 +1,265 @@
+import { Animatic, AnimaticShot, AnimaticTransition, CameraMove, Scene } from "../types";
+
+export const DEFAULT_SHOT: AnimaticShot = { durationMs: 3000, transition: 'cut', move: 'none' };
+export const TRANSITION_MS = 600;
+export const TITLE_CARD_MS = 2000;
+
+export const ANIMATIC_WIDTH = 1280;
+export const ANIMATIC_HEIGHT = 720;
+
+// How far Ken Burns moves push in, as a fraction of the frame.
+const MOVE_SCALE = 0.15;
+
+export interface TimelineSegment {
+  start: number;
+  duration: number;
+  transition: AnimaticTransition;
+  move: CameraMove;
+  imageUrl?: string;
+  text: string;
+  isTitleCard: boolean;
+}
+
+export interface Timeline {
+  segments: TimelineSegment[];
+  duration: number;
+}
+
+export const shotFor = (animatic: Animatic | undefined, sceneId: string): AnimaticShot =>
+  ({ ...DEFAULT_SHOT, ...animatic?.shots[sceneId] });
+
+/**
+ * Flattens the beats into back-to-back segments. Title cards become their own segments ahead of their
+ * shot; unrendered beats stay in the cut as a slate so timing is still right.
+ */
+export const buildTimeline = (scenes: Scene[], animatic: Animatic | undefined): Timeline => {
+  const segments: TimelineSegment[] = [];
+  let cursor = 0;
+  const push = (segment: Omit<TimelineSegment, 'start'>) => {
+    segments.push({ ...segment, start: cursor });
+    cursor += segment.duration;
+  };
+
+  scenes.forEach(scene => {
+    const shot = shotFor(animatic, scene.id);
+    if (shot.titleCard?.trim()) {
+      push({ duration: TITLE_CARD_MS, transition: shot.transition, move: 'none', text: shot.titleCard.trim(), isTitleCard: true });
+    }
+    push({
+      duration: Math.max(500, shot.durationMs),
+      transition: shot.titleCard?.trim() ? 'fade-black' : shot.transition,
+      move: shot.move,
+      imageUrl: scene.imageUrl,
+      text: `${scene.sceneNumber}. ${scene.title}`,
+      isTitleCard: false,
+    });
+  });
+
+  return { segments, duration: cursor };
+};
+
+export const loadTimelineImages = async (timeline: Timeline): Promise<Map<string, HTMLImageElement>> => {
+  const urls = Array.from(new Set(timeline.segments.map(s => s.imageUrl).filter((url): url is string => !!url)));
+  const entries = await Promise.all(urls.map(url => new Promise<[string, HTMLImageElement]>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve([url, image]);
+    image.onerror = () => reject(new Error("A frame could not be loaded for the animatic."));
+    image.src = url;
+  })));
+  return new Map(entries);
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).forEach(word => {
+    const next = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(next).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = next;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+const drawCenteredText = (ctx: CanvasRenderingContext2D, text: string, size: number, color: string) => {
+  const { width, height } = ctx.canvas;
+  ctx.fillStyle = color;
+  ctx.font = `900 ${size}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  const lines = wrapText(ctx, text.toUpperCase(), width * 0.8);
+  const lineHeight = size * 1.3;
+  lines.forEach((line, i) => ctx.fillText(line, width / 2, height / 2 + (i - (lines.length - 1) / 2) * lineHeight));
+};
+
+// Scale and offset (as a fraction of the overscan) for a camera move at progress 0..1.
+const moveTransform = (move: CameraMove, progress: number): { scale: number; dx: number } => {
+  switch (move) {
+    case 'zoom-in': return { scale: 1 + MOVE_SCALE * progress, dx: 0 };
+    case 'zoom-out': return { scale: 1 + MOVE_SCALE * (1 - progress), dx: 0 };
+    case 'pan-left': return { scale: 1 + MOVE_SCALE, dx: 0.5 - progress };
+    case 'pan-right': return { scale: 1 + MOVE_SCALE, dx: progress - 0.5 };
+    default: return { scale: 1, dx: 0 };
+  }
+};
+
+const drawSegment = (ctx: CanvasRenderingContext2D, segment: TimelineSegment, images: Map<string, HTMLImageElement>, localTime: number) => {
+  const { width, height } = ctx.canvas;
+
+  // Every branch covers the whole canvas, so a crossfade can paint straight over the previous segment.
+  if (segment.isTitleCard) {
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, width, height);
+    drawCenteredText(ctx, segment.text, 56, '#fff');
+    return;
+  }
+
+  const image = segment.imageUrl ? images.get(segment.imageUrl) : undefined;
+  if (!image) {
+    ctx.fillStyle = '#0f172a';
+    ctx.fillRect(0, 0, width, height);
+    drawCenteredText(ctx, `${segment.text} — not yet rendered`, 32, '#64748b');
+    return;
+  }
+
+  // Cover-fit, then apply the camera move around the centre.
+  const progress = Math.min(1, Math.max(0, localTime / segment.duration));
+  const { scale, dx } = moveTransform(segment.move, progress);
+  const cover = Math.max(width / image.width, height / image.height) * scale;
+  const w = image.width * cover;
+  const h = image.height * cover;
+  const overscan = w - width;
+  ctx.drawImage(image, (width - w) / 2 + dx * overscan, (height - h) / 2, w, h);
+};
+
+/**
+ * Paints the animatic at time `t` (ms), including the transition into the current segment.
+ */
+export const drawAnimaticFrame = (ctx: CanvasRenderingContext2D, timeline: Timeline, images: Map<string, HTMLImageElement>, t: number) => {
+  const { segments } = timeline;
+  if (!segments.length) return;
+  const found = segments.findIndex(s => t < s.start + s.duration);
+  const index = found < 0 ? segments.length - 1 : found;
+  const current = segments[index];
+  const previous = segments[index - 1];
+  const next = segments[index + 1];
+  const localTime = t - current.start;
+
+  if (current.transition === 'crossfade' && previous && localTime < TRANSITION_MS) {
+    drawSegment(ctx, previous, images, previous.duration + localTime);
+    ctx.globalAlpha = localTime / TRANSITION_MS;
+    drawSegment(ctx, current, images, localTime);
+    ctx.globalAlpha = 1;
+    return;
+  }
+
+  drawSegment(ctx, current, images, localTime);
+
+  // Fades to black: out over the end of this segment when the next one fades in, and in over the start of this one.
+  const fadeIn = current.transition === 'fade-black' ? Math.min(1, localTime / TRANSITION_MS) : 1;
+  const fadeOut = next?.transition === 'fade-black' ? Math.min(1, (current.duration - localTime) / TRANSITION_MS) : 1;
+  const visibility = Math.min(fadeIn, fadeOut);
+  if (visibility < 1) {
+    ctx.fillStyle = `rgba(0, 0, 0, ${1 - visibility})`;
+    ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  }
+};
+
+export interface PlaybackHandle {
+  stop: () => void;
+}
+
+/**
+ * Plays the timeline on a canvas in real time, keeping an optional audio element in step.
+ */
+export const playAnimatic = (
+  canvas: HTMLCanvasElement,
+  timeline: Timeline,
+  images: Map<string, HTMLImageElement>,
+  { audio, onProgress, onEnd }: { audio?: HTMLAudioElement; onProgress?: (t: number) => void; onEnd?: () => void }
+): PlaybackHandle => {
+  const ctx = canvas.getContext('2d')!;
+  let frame = 0;
+  let stopped = false;
+  const startedAt = performance.now();
+
+  if (audio) {
+    audio.currentTime = 0;
+    audio.play().catch(() => undefined);
+  }
+
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    cancelAnimationFrame(frame);
+    audio?.pause();
+  };
+
+  const tick = () => {
+    const t = performance.now() - startedAt;
+    drawAnimaticFrame(ctx, timeline, images, Math.min(t, timeline.duration - 1));
+    onProgress?.(Math.min(t, timeline.duration));
+    if (t >= timeline.duration) {
+      stop();
+      onEnd?.();
+      return;
+    }
+    frame = requestAnimationFrame(tick);
+  };
+  frame = requestAnimationFrame(tick);
+
+  return { stop };
+};
+
+/**
+ * Records a real-time playback of the timeline to WebM with MediaRecorder. Recording takes as long as
+ * the animatic runs. The scratch track, if any, is mixed in through Web Audio.
+ */
+export const recordAnimatic = (
+  canvas: HTMLCanvasElement,
+  timeline: Timeline,
+  images: Map<string, HTMLImageElement>,
+  { audioUrl, onProgress }: { audioUrl?: string; onProgress?: (t: number) => void }
+): { done: Promise<Blob>; cancel: () => void } => {
+  const stream = canvas.captureStream(30);
+  let audioContext: AudioContext | undefined;
+  let audio: HTMLAudioElement | undefined;
+  if (audioUrl) {
+    audio = new Audio(audioUrl);
+    audioContext = new AudioContext();
+    const destination = audioContext.createMediaStreamDestination();
+    audioContext.createMediaElementSource(audio).connect(destination);
+    destination.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+  }
+
+  const mimeType = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm']
+    .find(type => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => { if (e.data.size) chunks.push(e.data); };
+
+  let playback: PlaybackHandle | undefined;
+  let cancelled = false;
+  const done = new Promise<Blob>((resolve, reject) => {
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      audioContext?.close();
+      if (cancelled) reject(new Error("Recording cancelled."));
+      else resolve(new Blob(chunks, { type: 'video/webm' }));
+    };
+    recorder.start(250);
+    playback = playAnimatic(canvas, timeline, images, { audio, onProgress, onEnd: () => recorder.stop() });
+  });
+
+  const cancel = () => {
+    cancelled = true;
+    playback?.stop();
+    if (recorder.state !== 'inactive') recorder.stop();
+  };
+
+  return { done, cancel };
+};
@@ -0,0 +1,182 @@
+import { Annotation, AnnotationTool, FrameAnnotations, FrameGuide, FramePoint } from "../types";
+import { Option } from "./cinematography";
+
+// Vector markup over rendered frames. One renderer draws it everywhere (viewer, editor, flattened exports),
+// so what the artist sees is what gets exported.
+
+export const ANNOTATION_TOOLS: Option<AnnotationTool>[] = [
+  { value: 'arrow', label: 'Arrow' },
+  { value: 'freehand', label: 'Freehand' },
+  { value: 'rect', label: 'Box' },
+  { value: 'text', label: 'Text' },
+];
+
+export const FRAME_GUIDES: Option<FrameGuide>[] = [
+  { value: 'action-safe', label: 'Action Safe' },
+  { value: 'title-safe', label: 'Title Safe' },
+  { value: 'thirds', label: 'Thirds' },
+  { value: 'center', label: 'Center' },
+  { value: '2.39:1', label: '2.39:1' },
+  { value: '1.85:1', label: '1.85:1' },
+  { value: '4:3', label: '4:3' },
+  { value: '1:1', label: '1:1' },
+  { value: '9:16', label: '9:16' },
+];
+
+export const ANNOTATION_COLORS = ['#facc15', '#ef4444', '#22d3ee', '#4ade80', '#ffffff'];
+
+// Default sizes as fractions of the frame width.
+export const STROKE_WIDTH = 0.004;
+export const TEXT_HEIGHT = 0.035;
+
+const ASPECT_GUIDES: Partial<Record<FrameGuide, number>> = {
+  '2.39:1': 2.39,
+  '1.85:1': 1.85,
+  '4:3': 4 / 3,
+  '1:1': 1,
+  '9:16': 9 / 16,
+};
+
+// Safe areas are insets from each edge, as fractions of the frame.
+const SAFE_INSETS: Partial<Record<FrameGuide, number>> = {
+  'action-safe': 0.05,
+  'title-safe': 0.1,
+};
+
+export const hasAnnotations = (annotations: FrameAnnotations | undefined): annotations is FrameAnnotations =>
+  !!annotations && (annotations.shapes.length > 0 || annotations.guides.length > 0);
+
+export const isVisible = (annotations: FrameAnnotations | undefined): annotations is FrameAnnotations =>
+  hasAnnotations(annotations) && !annotations.hidden;
+
+const drawGuides = (ctx: CanvasRenderingContext2D, guides: FrameGuide[], w: number, h: number) => {
+  ctx.save();
+  ctx.lineWidth = Math.max(1, w * 0.0015);
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.7)';
+  ctx.setLineDash([w * 0.01, w * 0.006]);
+  guides.forEach(guide => {
+    const inset = SAFE_INSETS[guide];
+    const ratio = ASPECT_GUIDES[guide];
+    if (inset !== undefined) {
+      ctx.strokeRect(w * inset, h * inset, w * (1 - inset * 2), h * (1 - inset * 2));
+    } else if (ratio !== undefined) {
+      // Shade what the target aspect would crop away: letterbox for wider ratios, pillarbox for narrower.
+      const innerW = ratio > w / h ? w : h * ratio;
+      const innerH = ratio > w / h ? w / ratio : h;
+      const x = (w - innerW) / 2;
+      const y = (h - innerH) / 2;
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.45)';
+      ctx.fillRect(0, 0, w, y);
+      ctx.fillRect(0, y + innerH, w, h - y - innerH);
+      ctx.fillRect(0, y, x, innerH);
+      ctx.fillRect(x + innerW, y, w - x - innerW, innerH);
+      ctx.strokeRect(x, y, innerW, innerH);
+    } else if (guide === 'thirds') {
+      ctx.beginPath();
+      [1, 2].forEach(n => {
+        ctx.moveTo(w * n / 3, 0);
+        ctx.lineTo(w * n / 3, h);
+        ctx.moveTo(0, h * n / 3);
+        ctx.lineTo(w, h * n / 3);
+      });
+      ctx.stroke();
+    } else if (guide === 'center') {
+      const arm = w * 0.02;
+      ctx.setLineDash([]);
+      ctx.beginPath();
+      ctx.moveTo(w / 2 - arm, h / 2);
+      ctx.lineTo(w / 2 + arm, h / 2);
+      ctx.moveTo(w / 2, h / 2 - arm);
+      ctx.lineTo(w / 2, h / 2 + arm);
+      ctx.stroke();
+      ctx.setLineDash([w * 0.01, w * 0.006]);
+    }
+  });
+  ctx.restore();
+};
+
+const drawShape = (ctx: CanvasRenderingContext2D, annotation: Annotation, w: number, h: number) => {
+  const at = (p: FramePoint): [number, number] => [p.x * w, p.y * h];
+  const size = annotation.width * w;
+  ctx.save();
+  ctx.strokeStyle = annotation.color;
+  ctx.fillStyle = annotation.color;
+  ctx.lineWidth = size;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  switch (annotation.kind) {
+    case 'arrow': {
+      const [x1, y1] = at(annotation.from);
+      const [x2, y2] = at(annotation.to);
+      const angle = Math.atan2(y2 - y1, x2 - x1);
+      const head = Math.max(size * 4, w * 0.015);
+      ctx.beginPath();
+      ctx.moveTo(x1, y1);
+      ctx.lineTo(x2 - Math.cos(angle) * head * 0.5, y2 - Math.sin(angle) * head * 0.5);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.moveTo(x2, y2);
+      ctx.lineTo(x2 - head * Math.cos(angle - Math.PI / 7), y2 - head * Math.sin(angle - Math.PI / 7));
+      ctx.lineTo(x2 - head * Math.cos(angle + Math.PI / 7), y2 - head * Math.sin(angle + Math.PI / 7));
+      ctx.closePath();
+      ctx.fill();
+      break;
+    }
+    case 'rect': {
+      const [x1, y1] = at(annotation.from);
+      const [x2, y2] = at(annotation.to);
+      ctx.strokeRect(Math.min(x1, x2), Math.min(y1, y2), Math.abs(x2 - x1), Math.abs(y2 - y1));
+      break;
+    }
+    case 'freehand': {
+      if (!annotation.points.length) break;
+      ctx.beginPath();
+      ctx.moveTo(...at(annotation.points[0]));
+      annotation.points.slice(1).forEach(point => ctx.lineTo(...at(point)));
+      if (annotation.points.length === 1) ctx.lineTo(...at(annotation.points[0]));
+      ctx.stroke();
+      break;
+    }
+    case 'text': {
+      // A dark outline keeps the label readable over bright and dark frames alike.
+      const [x, y] = at(annotation.at);
+      ctx.font = `bold ${size}px sans-serif`;
+      ctx.textBaseline = 'top';
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
+      ctx.lineWidth = size * 0.18;
+      ctx.strokeText(annotation.text, x, y);
+      ctx.fillText(annotation.text, x, y);
+      break;
+    }
+  }
+  ctx.restore();
+};
+
+export const drawAnnotations = (ctx: CanvasRenderingContext2D, annotations: Pick<FrameAnnotations, 'shapes' | 'guides'>, w: number, h: number) => {
+  drawGuides(ctx, annotations.guides, w, h);
+  annotations.shapes.forEach(shape => drawShape(ctx, shape, w, h));
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error("The frame could not be loaded for flattening."));
+  image.src = src;
+});
+
+/**
+ * Draws the markup into a copy of the frame at its full resolution and returns it as a PNG data URL.
+ * The stored frame is never changed.
+ */
+export const flattenAnnotations = async (src: string, annotations: FrameAnnotations): Promise<string> => {
+  const image = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+  ctx.drawImage(image, 0, 0);
+  drawAnnotations(ctx, annotations, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
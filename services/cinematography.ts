@@ -0,0 +1,106 @@
+import { CameraAngle, CameraMovement, Cinematography, LightingKey, Scene, ShotSize, TimeOfDay } from "../types";
+
+export interface Option<T extends string> {
+  value: T;
+  label: string;
+}
+
+export const SHOT_SIZES: Option<ShotSize>[] = [
+  { value: 'extreme-wide', label: 'Extreme Wide' },
+  { value: 'wide', label: 'Wide' },
+  { value: 'full', label: 'Full' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'medium-close-up', label: 'Medium Close-Up' },
+  { value: 'close-up', label: 'Close-Up' },
+  { value: 'extreme-close-up', label: 'Extreme Close-Up' },
+  { value: 'insert', label: 'Insert' },
+];
+
+export const CAMERA_ANGLES: Option<CameraAngle>[] = [
+  { value: 'eye-level', label: 'Eye Level' },
+  { value: 'high', label: 'High Angle' },
+  { value: 'low', label: 'Low Angle' },
+  { value: 'overhead', label: 'Overhead' },
+  { value: 'dutch', label: 'Dutch Angle' },
+  { value: 'over-the-shoulder', label: 'Over The Shoulder' },
+  { value: 'pov', label: 'POV' },
+];
+
+export const CAMERA_MOVEMENTS: Option<CameraMovement>[] = [
+  { value: 'static', label: 'Static' },
+  { value: 'pan', label: 'Pan' },
+  { value: 'tilt', label: 'Tilt' },
+  { value: 'dolly', label: 'Dolly' },
+  { value: 'tracking', label: 'Tracking' },
+  { value: 'handheld', label: 'Handheld' },
+  { value: 'crane', label: 'Crane' },
+  { value: 'zoom', label: 'Zoom' },
+];
+
+export const LIGHTING_KEYS: Option<LightingKey>[] = [
+  { value: 'low-key', label: 'Low Key' },
+  { value: 'high-key', label: 'High Key' },
+  { value: 'natural', label: 'Natural' },
+  { value: 'silhouette', label: 'Silhouette' },
+  { value: 'practical', label: 'Practicals' },
+];
+
+export const TIMES_OF_DAY: Option<TimeOfDay>[] = [
+  { value: 'dawn', label: 'Dawn' },
+  { value: 'day', label: 'Day' },
+  { value: 'dusk', label: 'Dusk' },
+  { value: 'night', label: 'Night' },
+];
+
+export const labelOf = <T extends string>(options: Option<T>[], value: T | undefined): string | undefined =>
+  options.find(option => option.value === value)?.label;
+
+const pick = <T extends string>(options: Option<T>[], value: unknown): T | undefined =>
+  options.find(option => option.value === value)?.value;
+
+const text = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+/**
+ * Keeps only recognised values from model output, so a hallucinated enum never reaches the UI or filters.
+ */
+export const sanitizeCinematography = (raw: unknown): Cinematography | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const source = raw as Record<string, unknown>;
+  const result: Cinematography = {
+    shotSize: pick(SHOT_SIZES, source.shotSize),
+    cameraAngle: pick(CAMERA_ANGLES, source.cameraAngle),
+    lens: text(source.lens),
+    movement: pick(CAMERA_MOVEMENTS, source.movement),
+    lighting: pick(LIGHTING_KEYS, source.lighting),
+    timeOfDay: pick(TIMES_OF_DAY, source.timeOfDay),
+    location: text(source.location),
+  };
+  const entries = Object.entries(result).filter(([, value]) => value !== undefined);
+  return entries.length ? Object.fromEntries(entries) as Cinematography : undefined;
+};
+
+/**
+ * The camera block appended to every image prompt, always in the same order and wording so frames that
+ * share a setup are described identically.
+ */
+export const cinematographyDirective = (c: Cinematography | undefined): string => {
+  if (!c) return '';
+  const camera = [
+    labelOf(SHOT_SIZES, c.shotSize)?.concat(' shot'),
+    labelOf(CAMERA_ANGLES, c.cameraAngle),
+    c.lens && `${c.lens} lens`,
+    c.movement && c.movement !== 'static' ? `${labelOf(CAMERA_MOVEMENTS, c.movement)} camera` : c.movement && 'Locked-off camera',
+  ].filter(Boolean);
+  const light = [labelOf(LIGHTING_KEYS, c.lighting)?.concat(' lighting'), labelOf(TIMES_OF_DAY, c.timeOfDay)].filter(Boolean);
+  return [
+    camera.length ? `CAMERA: ${camera.join(', ')}.` : '',
+    light.length ? `LIGHTING: ${light.join(', ')}.` : '',
+    c.location ? `LOCATION: ${c.location}.` : '',
+  ].filter(Boolean).join(' ');
+};
+
+export const composeImagePrompt = (scene: Pick<Scene, 'imagePrompt' | 'cinematography'>): string => {
+  const directive = cinematographyDirective(scene.cinematography);
+  return directive ? `${scene.imagePrompt}\n${directive}` : scene.imagePrompt;
+};
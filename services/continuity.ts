@@ -0,0 +1,62 @@
+import { ContinuityIssue, Scene } from "../types";
+import { ContinuityFinding } from "./aiProvider";
+
+// Frames per request. Windows overlap by one frame, so every pair of neighbouring frames is seen together.
+export const CONTINUITY_WINDOW = 3;
+
+/**
+ * Splits the rendered frames into overlapping windows of consecutive frames, e.g. five frames give
+ * [1,2,3] and [3,4,5]. Two frames make a single pair; fewer give nothing to compare.
+ */
+export const continuityWindows = <T>(frames: T[], size: number = CONTINUITY_WINDOW): T[][] => {
+  if (frames.length < 2) return [];
+  const step = Math.max(1, size - 1);
+  const windows: T[][] = [];
+  for (let start = 0; start < frames.length - 1; start += step) {
+    windows.push(frames.slice(start, start + size));
+  }
+  return windows;
+};
+
+/**
+ * Maps a window's findings from beat numbers back to scenes. Findings naming beats outside the window or
+ * without a usable fix are dropped rather than guessed at.
+ */
+export const findingsToIssues = (findings: ContinuityFinding[], window: Scene[], createId: () => string): ContinuityIssue[] => {
+  const byNumber = new Map(window.map(scene => [scene.sceneNumber, scene]));
+  return findings.flatMap(finding => {
+    const scenes = Array.from(new Set(finding.sceneNumbers)).map(n => byNumber.get(n)).filter((s): s is Scene => !!s);
+    const fixScene = byNumber.get(finding.fixSceneNumber);
+    if (!scenes.length || !fixScene || !finding.suggestedPrompt?.trim()) return [];
+    if (!scenes.includes(fixScene)) scenes.push(fixScene);
+    scenes.sort((a, b) => a.sceneNumber - b.sceneNumber);
+    return [{
+      id: createId(),
+      type: finding.type,
+      severity: finding.severity,
+      sceneIds: scenes.map(scene => scene.id),
+      imageIds: scenes.map(scene => scene.imageId ?? ''),
+      description: finding.description,
+      fixSceneId: fixScene.id,
+      suggestedPrompt: finding.suggestedPrompt.trim(),
+    }];
+  });
+};
+
+// The overlapping frame is checked twice; the same kind of issue on the same beats is kept once.
+export const dedupeIssues = (issues: ContinuityIssue[]): ContinuityIssue[] => {
+  const seen = new Set<string>();
+  return issues.filter(issue => {
+    const key = `${issue.type}:${issue.sceneIds.join(',')}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// An issue no longer describes what is on screen once any of its frames has been re-rendered or re-picked.
+export const isStaleIssue = (issue: ContinuityIssue, scenes: Scene[]): boolean =>
+  issue.sceneIds.some((id, i) => scenes.find(scene => scene.id === id)?.imageId !== issue.imageIds[i]);
+
+export const openIssuesFor = (report: { issues: ContinuityIssue[] } | undefined, sceneId: string): ContinuityIssue[] =>
+  (report?.issues ?? []).filter(issue => !issue.resolved && issue.sceneIds.includes(sceneId));
@@ -0,0 +1,314 @@
+import JSZip from "jszip";
+import * as pdfjsLib from "pdfjs-dist";
+import { createWorker, LoggerMessage, Worker as OcrWorker } from "tesseract.js";
+import { ImportedSource, SourceLine } from "../types";
+
+// Turns PDF and Word files into script text plus a line map back into the original file. Scanned PDF pages
+// are read with in-browser OCR; pages with a real text layer never go through it.
+
+export interface ImportResult {
+  text: string;
+  source: ImportedSource;
+}
+
+export interface ImportProgress {
+  page: number;
+  pageCount: number;
+  ocr: boolean; // The current page is being read with OCR
+  ocrProgress?: number; // 0 to 1, within the current page
+}
+
+export interface ImportOptions {
+  onProgress?: (progress: ImportProgress) => void;
+}
+
+// A page with fewer visible characters than this has no usable text layer.
+const MIN_PAGE_CHARS = 25;
+
+// Below this share of letters the text layer is taken for garbage, e.g. a scan with a broken font mapping.
+const MIN_LETTER_RATIO = 0.5;
+
+// Render scale for OCR. Around 2x the PDF's 72dpi is where Tesseract reads typewritten pages reliably.
+const OCR_SCALE = 2.5;
+
+const OCR_LANGUAGE = 'eng';
+
+// The app serves the OCR worker, core and language data itself (see vite.config.ts), so nothing is fetched from a CDN.
+const OCR_ASSET_PATH = '/ocr';
+
+// The OCR engine's files could not be loaded, as opposed to a page that OCR could not read.
+export class OcrLoadError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = 'OcrLoadError';
+    if (options?.cause !== undefined) (this as { cause?: unknown }).cause = options.cause;
+  }
+}
+
+const loadOcrWorker = async (logger: (message: LoggerMessage) => void): Promise<OcrWorker> => {
+  try {
+    return await createWorker(OCR_LANGUAGE, undefined, {
+      workerPath: `${OCR_ASSET_PATH}/worker.min.js`,
+      corePath: `${OCR_ASSET_PATH}/core`,
+      langPath: `${OCR_ASSET_PATH}/lang`,
+      workerBlobURL: false,
+      logger,
+      // Failures reject createWorker below instead of being thrown from the worker's message handler.
+      errorHandler: () => {},
+    });
+  } catch (err) {
+    const detail = err instanceof Error ? err.message : String(err ?? 'unknown error');
+    throw new OcrLoadError(`The OCR engine for scanned pages could not be loaded from ${OCR_ASSET_PATH}/ (${detail}). Check that the app's ocr/ files are deployed.`, { cause: err });
+  }
+};
+
+/**
+ * Accumulates script text line by line, recording where each line lands. Blank lines are kept in the
+ * text but not mapped, since there is nothing to point back at.
+ */
+const createLineWriter = () => {
+  let text = '';
+  const lines: SourceLine[] = [];
+  return {
+    write: (lineText: string, origin: Omit<SourceLine, 'start' | 'end'>) => {
+      if (text) text += '\n';
+      if (lineText.trim()) lines.push({ ...origin, start: text.length, end: text.length + lineText.length });
+      text += lineText;
+    },
+    blank: () => { text += '\n'; },
+    result: () => ({ text, lines }),
+  };
+};
+
+export const needsOcr = (pageText: string): boolean => {
+  const visible = pageText.replace(/\s/g, '');
+  if (visible.length < MIN_PAGE_CHARS) return true;
+  const letters = visible.match(/\p{L}/gu)?.length ?? 0;
+  return letters / visible.length < MIN_LETTER_RATIO;
+};
+
+type PdfPage = Awaited<ReturnType<pdfjsLib.PDFDocumentProxy['getPage']>>;
+
+/**
+ * Rebuilds lines from the text layer. pdf.js marks line ends itself; a space is inserted between runs
+ * only where the gap between them is wide enough to be one.
+ */
+const textLayerLines = async (page: PdfPage): Promise<string[]> => {
+  const content = await page.getTextContent();
+  const lines: string[] = [];
+  let line = '';
+  let lastEnd: number | null = null;
+  content.items.forEach(item => {
+    if (!('str' in item)) return;
+    const x = item.transform[4];
+    const gap = lastEnd === null ? 0 : x - lastEnd;
+    if (line && gap > item.height * 0.15 && !/\s$/.test(line) && !/^\s/.test(item.str)) line += ' ';
+    line += item.str;
+    lastEnd = x + item.width;
+    if (item.hasEOL) {
+      lines.push(line.trimEnd());
+      line = '';
+      lastEnd = null;
+    }
+  });
+  if (line.trim()) lines.push(line.trimEnd());
+  return lines;
+};
+
+const renderPage = async (page: PdfPage): Promise<HTMLCanvasElement> => {
+  const viewport = page.getViewport({ scale: OCR_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+  // Scans are often transparent-backed; OCR expects dark text on white.
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvasContext: ctx, viewport }).promise;
+  return canvas;
+};
+
+const ocrLines = async (worker: OcrWorker, canvas: HTMLCanvasElement): Promise<{ text: string; confidence: number }[]> => {
+  const { data } = await worker.recognize(canvas, {}, { blocks: true });
+  const lines = (data.blocks ?? []).flatMap(block => block.paragraphs.flatMap(paragraph => paragraph.lines));
+  if (lines.length) return lines.map(line => ({ text: line.text.trimEnd(), confidence: Math.round(line.confidence) }));
+  return data.text.split('\n').map(text => ({ text: text.trimEnd(), confidence: Math.round(data.confidence) }));
+};
+
+/**
+ * Reads a PDF page by page. Pages whose text layer is missing or unreadable are rendered and OCR'd
+ * instead; the OCR engine is only loaded when the first such page turns up.
+ */
+export const importPdf = async (fileName: string, data: ArrayBuffer, { onProgress }: ImportOptions = {}): Promise<ImportResult> => {
+  const pdf = await pdfjsLib.getDocument(data).promise;
+  const writer = createLineWriter();
+  const ocrPages: number[] = [];
+  let currentPage = 0;
+  let worker: OcrWorker | null = null;
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      currentPage = pageNumber;
+      onProgress?.({ page: pageNumber, pageCount: pdf.numPages, ocr: false });
+      const page = await pdf.getPage(pageNumber);
+      if (pageNumber > 1) writer.blank();
+
+      const layer = await textLayerLines(page);
+      if (!needsOcr(layer.join('\n'))) {
+        layer.forEach((text, i) => writer.write(text, { page: pageNumber, line: i + 1 }));
+        continue;
+      }
+
+      onProgress?.({ page: pageNumber, pageCount: pdf.numPages, ocr: true, ocrProgress: 0 });
+      worker ??= await loadOcrWorker(message => {
+        if (message.status === 'recognizing text') {
+          onProgress?.({ page: currentPage, pageCount: pdf.numPages, ocr: true, ocrProgress: message.progress });
+        }
+      });
+      const recognized = await ocrLines(worker, await renderPage(page));
+      recognized.forEach(({ text, confidence }, i) => writer.write(text, { page: pageNumber, line: i + 1, ocr: true, confidence }));
+      ocrPages.push(pageNumber);
+    }
+  } finally {
+    await worker?.terminate();
+    await pdf.destroy();
+  }
+
+  const { text, lines } = writer.result();
+  return { text, source: { fileName, format: 'pdf', pageCount: pdf.numPages, ocrPages, lines } };
+};
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const wAttr = (element: Element | undefined, name: string): string | undefined =>
+  element?.getAttributeNS(W_NS, name) ?? element?.getAttribute(`w:${name}`) ?? undefined;
+
+const wChild = (element: Element, name: string): Element | undefined =>
+  Array.from(element.children).find(child => child.namespaceURI === W_NS && child.localName === name);
+
+const parseXml = (xml: string, part: string): Document => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length) throw new Error(`Word document is damaged: ${part} is not valid XML.`);
+  return doc;
+};
+
+// Style ids are internal ("Heading1"); the display name ("heading 1") is what writers recognise.
+const styleNames = (doc: Document | null): Map<string, string> => new Map(
+  Array.from(doc?.getElementsByTagNameNS(W_NS, 'style') ?? []).flatMap(style => {
+    const id = wAttr(style, 'styleId');
+    const name = wAttr(wChild(style, 'name'), 'val');
+    return id ? [[id, name ?? id] as [string, string]] : [];
+  })
+);
+
+interface DocxParagraph {
+  text: string;
+  style?: string;
+  breaksBefore: number; // Page breaks ahead of the paragraph's first text: it starts on a later page
+  breaksAfter: number; // Page breaks after some of its text: the paragraphs that follow start later
+}
+
+/**
+ * Collects a paragraph's text in reading order. Nested paragraphs (text boxes) are skipped here because
+ * they are visited as paragraphs of their own.
+ */
+const readParagraph = (paragraph: Element, useRenderedBreaks: boolean): Omit<DocxParagraph, 'style'> => {
+  let text = '';
+  let breaksBefore = 0;
+  let breaksAfter = 0;
+  const pageBreak = () => text.trim() ? breaksAfter++ : breaksBefore++;
+  const walk = (node: Element) => {
+    Array.from(node.children).forEach(child => {
+      if (child.namespaceURI !== W_NS) return walk(child);
+      switch (child.localName) {
+        case 'p': return;
+        case 't': text += child.textContent ?? ''; return;
+        case 'tab': text += '\t'; return;
+        case 'cr': text += '\n'; return;
+        case 'br':
+          if (wAttr(child, 'type') !== 'page') text += '\n';
+          else if (!useRenderedBreaks) pageBreak();
+          return;
+        case 'lastRenderedPageBreak':
+          if (useRenderedBreaks) pageBreak();
+          return;
+        default: walk(child);
+      }
+    });
+  };
+  walk(paragraph);
+  return { text, breaksBefore, breaksAfter };
+};
+
+const insideFallback = (element: Element): boolean => {
+  for (let node = element.parentElement; node; node = node.parentElement) {
+    if (node.localName === 'Fallback') return true;
+  }
+  return false;
+};
+
+const docxParagraphs = (doc: Document, styles: Map<string, string>): { paragraphs: DocxParagraph[]; paginated: boolean } => {
+  const body = doc.getElementsByTagNameNS(W_NS, 'body')[0];
+  if (!body) throw new Error("Word document has no body.");
+  // Word saves where it last broke pages; when that is there it is the closest thing to the printed page numbers.
+  const useRenderedBreaks = body.getElementsByTagNameNS(W_NS, 'lastRenderedPageBreak').length > 0;
+  const paginated = useRenderedBreaks || Array.from(body.getElementsByTagNameNS(W_NS, 'br')).some(br => wAttr(br, 'type') === 'page');
+
+  // Alternate content repeats text boxes as a fallback for older readers; only the first copy is read.
+  const paragraphs = Array.from(body.getElementsByTagNameNS(W_NS, 'p')).filter(p => !insideFallback(p)).map(p => {
+    const pPr = wChild(p, 'pPr');
+    const styleId = pPr && wAttr(wChild(pPr, 'pStyle'), 'val');
+    return { ...readParagraph(p, useRenderedBreaks), style: styleId ? styles.get(styleId) ?? styleId : undefined };
+  });
+  return { paragraphs, paginated };
+};
+
+/**
+ * Reads a .docx paragraph by paragraph, keeping each paragraph's style name so headings and screenplay
+ * styles stay recognisable in the line map.
+ */
+export const importDocx = async (fileName: string, data: ArrayBuffer): Promise<ImportResult> => {
+  const zip = await JSZip.loadAsync(data);
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) throw new Error("Not a Word document: word/document.xml is missing.");
+  const stylesXml = await zip.file('word/styles.xml')?.async('string');
+  const styles = styleNames(stylesXml ? parseXml(stylesXml, 'styles.xml') : null);
+  const { paragraphs, paginated } = docxParagraphs(parseXml(documentXml, 'document.xml'), styles);
+
+  const writer = createLineWriter();
+  let page = 1;
+  paragraphs.forEach(({ text, style, breaksBefore, breaksAfter }, i) => {
+    page += breaksBefore;
+    writer.write(text, { page: paginated ? page : undefined, line: i + 1, style });
+    page += breaksAfter;
+  });
+
+  const { text, lines } = writer.result();
+  return { text, source: { fileName, format: 'docx', pageCount: paginated ? page : undefined, ocrPages: [], lines } };
+};
+
+/**
+ * The imported lines a span of script text covers, first and last. Undefined when the span falls
+ * entirely between mapped lines.
+ */
+export const linesForSpan = (source: ImportedSource, start: number, end: number): { first: SourceLine; last: SourceLine } | undefined => {
+  const covered = source.lines.filter(line => line.end > start && line.start < end);
+  return covered.length ? { first: covered[0], last: covered[covered.length - 1] } : undefined;
+};
+
+const formatLine = (line: SourceLine, format: ImportedSource['format']): string => {
+  const unit = format === 'docx' ? '¶' : 'l.';
+  return line.page !== undefined ? `p. ${line.page}, ${unit} ${line.line}` : `${unit} ${line.line}`;
+};
+
+export const formatSourceRange = (source: ImportedSource, start: number, end: number): string | undefined => {
+  const range = linesForSpan(source, start, end);
+  if (!range) return undefined;
+  const { first, last } = range;
+  if (first === last) return formatLine(first, source.format);
+  if (first.page === last.page && first.page !== undefined) {
+    return `${formatLine(first, source.format)}–${last.line}`;
+  }
+  return `${formatLine(first, source.format)} – ${formatLine(last, source.format)}`;
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AIProvider, AnalysisRequest, AnalyzedScene, ChunkAnalysis } from './aiProvider';
+import { BUILT_IN_TONE_PROFILES } from './toneProfiles';
+import { parseScript } from './geminiService';
+import { Scene } from '../types';
+
+const stub = vi.hoisted(() => ({ provider: {} as Partial<AIProvider> }));
+
+vi.mock('./aiProvider', async importOriginal => ({
+  ...await importOriginal<typeof import('./aiProvider')>(),
+  getProvider: () => stub.provider,
+}));
+
+const beat = (sceneNumber: number, title: string) =>
+  ({ id: `b${sceneNumber}`, sceneNumber, title, description: `${title} happens.`, imagePrompt: `${title}, wide shot.` }) as AnalyzedScene;
+
+describe('parseScript', () => {
+  it('keeps beat order when a streamed beat in the middle was malformed', async () => {
+    const beats = [beat(1, 'Arrival'), beat(2, 'Argument'), beat(3, 'Departure')];
+    stub.provider = {
+      analyzeScript: async ({ onScene }: AnalysisRequest): Promise<ChunkAnalysis> => {
+        onScene?.(beats[0]);
+        onScene?.(null);
+        onScene?.(beats[2]);
+        return { projectTitle: 'Station', projectStyle: 'Ink', scenes: beats, summary: 'Three beats.' };
+      },
+      reconcileBeats: vi.fn(),
+    };
+    const streamed: Scene[] = [];
+    const onReplaceScenes = vi.fn((removedIds: string[], replacements: Scene[]) => {
+      streamed.splice(0, streamed.length, ...streamed.filter(scene => !removedIds.includes(scene.id)), ...replacements);
+    });
+
+    const analysis = await parseScript('A train arrives. They argue. It leaves.', 'Station', 'Ink', BUILT_IN_TONE_PROFILES[0], 3, {
+      onScene: scene => streamed.push(scene),
+      onReplaceScenes,
+    });
+
+    expect(analysis.scenes.map(scene => scene.title)).toEqual(['Arrival', 'Argument', 'Departure']);
+    expect(analysis.scenes.map(scene => scene.sceneNumber)).toEqual([1, 2, 3]);
+    expect(new Set(analysis.scenes.map(scene => scene.id)).size).toBe(3);
+    expect(streamed.map(scene => scene.id)).toEqual(analysis.scenes.map(scene => scene.id));
+    expect(onReplaceScenes).toHaveBeenCalledOnce();
+    expect(stub.provider.reconcileBeats).not.toHaveBeenCalled();
+    expect(analysis.validation).toMatchObject({ beatsReceived: 3, beatsExpected: 3, issues: [] });
+  });
+});
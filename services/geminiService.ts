@@ -1,109 +1,382 @@
+import { BibleEntry, ContinuityIssue, ContinuityReport, PeriodNotes, Scene, Screenplay, ScriptAnalysis, ToneProfile, ValidationIssue } from "../types";
+import { AIProvider, AnalyzedScene, BeatDraft, ChunkAnalysis, ContinuityReference, ExtractedBibleEntry, getProvider, ImageResult, InlineImage, RewrittenPrompt, SoftenedPrompt } from "./aiProvider";
+import { toAIServiceError } from "./aiErrors";
+import { chunkScript, ScriptChunk } from "./scriptChunker";
+import { screenplayToSceneBlocks, screenplayToText } from "./screenplayParser";
+import { sanitizeCinematography } from "./cinematography";
+import { resolveSourceSpans, scriptFingerprint } from "./sourceSpans";
+import { checkBeatIdentity, repairBeat, RepairedBeat } from "./analysisValidation";
+import { continuityWindows, dedupeIssues, findingsToIssues } from "./continuity";
+import { findingsToNotes, researchBatches, toResearchBeat } from "./periodResearch";
+import { createId } from "./storageService";
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { Scene } from "../types";
+// The app-facing API. Calls go to whichever provider the model settings select (Gemini or the offline mock).
+// Whatever a provider or the SDK throws reaches callers as one of the typed errors in aiErrors.
+
+const provider = (): AIProvider => {
+  const current = getProvider();
+  const typed = <A extends unknown[], R>(call: (...args: A) => Promise<R>) =>
+    (...args: A): Promise<R> => call(...args).catch(err => { throw toAIServiceError(err); });
+  return {
+    suggestStyle: typed(current.suggestStyle),
+    analyzeScript: typed(current.analyzeScript),
+    reconcileBeats: typed(current.reconcileBeats),
+    extractBible: typed(current.extractBible),
+    draftBeat: typed(current.draftBeat),
+    generateImage: typed(current.generateImage),
+    refineImage: typed(current.refineImage),
+    softenPrompt: typed(current.softenPrompt),
+    rewritePrompt: typed(current.rewritePrompt),
+    checkContinuity: typed(current.checkContinuity),
+    researchPeriod: typed(current.researchPeriod),
+  };
+};
 
 export const suggestStyleFromTopic = async (topic: string): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: `Based on the movie/script topic "${topic}", suggest a professional cinematic visual style. 
-    Avoid "animated" or "cartoonish" styles. 
-    If the topic suggests history, war, or struggle, recommend styles like "Raw, desaturated 35mm documentary realism" or "High-contrast gritty historical noir". 
-    Return ONLY the style name.`,
-  });
-  return response.text?.trim() || "Cinematic, high-fidelity, photorealistic";
+  return provider().suggestStyle(topic);
 };
 
+export interface AnalysisProgress {
+  completedChunks: number;
+  totalChunks: number;
+  beats: number; // Beats received so far, across all chunks
+  totalBeats: number;
+}
+
+export interface ParseScriptOptions {
+  onProgress?: (progress: AnalysisProgress) => void;
+  // Each beat as soon as it has streamed in, already numbered and with its final id.
+  onScene?: (scene: Scene) => void;
+  // A chunk's streamed beats were replaced after the analyzer returned the wrong number of them.
+  onReplaceScenes?: (removedIds: string[], scenes: Scene[]) => void;
+  // Aborting stops the analysis and resolves with the beats received so far.
+  signal?: AbortSignal;
+}
+
+/**
+ * Scripts longer than one chunk are analysed part by part, each with a running summary of the
+ * earlier parts, and merged into a single analysis with continuous numbering. An imported screenplay
+ * is chunked on its real scene headings rather than guessed sluglines. Each beat's quoted source lines
+ * are located in the script text, so reviewers can trace it back to the passage it came from.
+ *
+ * Every beat is validated and repaired before it is accepted (see analysisValidation). A chunk that still
+ * has the wrong number of beats gets one follow-up call to fill in or consolidate them; everything found
+ * is returned in the analysis' validation report.
+ */
 export const parseScript = async (
-  scriptText: string, 
+  script: string | Screenplay, 
   topic: string, 
   style: string, 
-  frameCount: number = 24
-): Promise<{ projectTitle: string; projectStyle: string; scenes: Scene[] }> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  // Using Gemini 3 Pro for superior reasoning and historical/emotional context comprehension.
-  const response = await ai.models.generateContent({
-    model: "gemini-3-pro-preview",
-    contents: `You are a world-class Storyboard Director, Historian, and Narrative Specialist. 
-    Analyze the project titled "${topic}" and divide it into exactly ${frameCount} key visual beats.
-
-    MANDATORY VISUAL DIRECTIVES:
-    1. UNDERSTANDING CONTEXT: If the script involves prisoners, famine, war, or poverty, YOU MUST REFLECT THE REALITY OF SUFFERING. 
-    2. CHARACTER APPEARANCE: Characters must NOT look "healthy", "clean", or "Hollywood-polished". If they are prisoners, describe them as: emaciated, malnourished, covered in realistic grime and coal dust, eyes sunken, skin sallow and weathered, hair matted and thinning. Clothing must be tattered, ill-fitting, and stained with historical filth.
-    3. ENVIRONMENT: Avoid clean sets. Describe environments with authentic grit: rust, mud, harsh shadows, claustrophobic framing, and period-accurate squalor.
-    4. NO ANIMATION: Prompts are for RAW PHOTOGRAPHIC STILLS.
-    5. STYLE: Strictly adhere to the requested style "${style}" but filter it through a lens of historical authenticity and grit.
-
-    SCRIPT CONTENT:
-    ${scriptText.substring(0, 50000)}`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          projectTitle: { type: Type.STRING },
-          projectStyle: { type: Type.STRING },
-          scenes: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                id: { type: Type.STRING },
-                sceneNumber: { type: Type.INTEGER },
-                title: { type: Type.STRING },
-                description: { type: Type.STRING },
-                imagePrompt: { type: Type.STRING }
-              },
-              required: ["id", "sceneNumber", "title", "description", "imagePrompt"]
-            }
+  tone: ToneProfile,
+  frameCount: number = 24,
+  { onProgress, onScene, onReplaceScenes, signal }: ParseScriptOptions = {}
+): Promise<ScriptAnalysis> => {
+  const analyzer = provider();
+  const screenplay = typeof script === 'string' ? undefined : script;
+  const chunks = typeof script === 'string'
+    ? chunkScript(script, frameCount)
+    : chunkScript('', frameCount, screenplayToSceneBlocks(script));
+
+  const scriptText = typeof script === 'string' ? script : screenplayToText(script);
+  const totalBeats = chunks.reduce((sum, chunk) => sum + chunk.frameCount, 0);
+  const summaries: string[] = [];
+  const scenes: AnalyzedScene[] = [];
+  const issues: ValidationIssue[] = [];
+  let beatsReceived = 0;
+  let projectTitle = topic;
+  let projectStyle = style;
+
+  // Ids and numbers are always re-issued here, whatever the model returned, so they are unique and continuous.
+  const accept = (scene: AnalyzedScene): Scene => {
+    const sceneNumber = scenes.length + 1;
+    const accepted = { ...scene, id: createId(), sceneNumber, cinematography: sanitizeCinematography(scene.cinematography) };
+    scenes.push(accepted);
+    const { sourceStart, sourceEnd, ...visible } = accepted;
+    return visible;
+  };
+
+  const acceptRaw = (raw: unknown, chunkIndex: number, position: number): Scene | undefined => {
+    const { scene, issues: found } = repairBeat(raw, chunkIndex, position);
+    const accepted = scene ? accept(scene) : undefined;
+    issues.push(...found.map(issue => ({ ...issue, sceneId: accepted?.id })));
+    return accepted;
+  };
+
+  // Asks the model to bring the chunk's beats (the tail of `scenes`) to the wanted count and swaps them in.
+  const reconcile = async (chunk: ScriptChunk, firstIndex: number) => {
+    const kept = scenes.slice(firstIndex);
+    const message = `Part ${chunk.index + 1} returned ${kept.length} usable ${kept.length === 1 ? 'beat' : 'beats'} instead of ${chunk.frameCount}.`;
+    const flag = (action: string) => issues.push({ code: 'beat-count', chunkIndex: chunk.index, message, action, flagged: true });
+    let revised: RepairedBeat[];
+    try {
+      const beats = await analyzer.reconcileBeats({ chunk, scenes: kept, topic, style, tone, signal });
+      revised = (Array.isArray(beats) ? beats : []).map((beat, i) => repairBeat(beat, chunk.index, i + 1));
+    } catch (err) {
+      if (signal?.aborted) return;
+      flag(`The follow-up call to fix the count failed (${toAIServiceError(err).message}); kept the beats received.`);
+      return;
+    }
+    const usable = revised.filter(result => result.scene);
+    if (usable.length !== chunk.frameCount) {
+      flag(`The follow-up call returned ${usable.length} usable beats; kept the beats received.`);
+      return;
+    }
+
+    const removedIds = scenes.splice(firstIndex).map(scene => scene.id);
+    // Issues about the removed beats no longer have a beat to point at.
+    issues.forEach(issue => {
+      if (issue.sceneId && removedIds.includes(issue.sceneId)) delete issue.sceneId;
+    });
+    const replacements = revised.map(({ scene, issues: found }) => {
+      const accepted = accept(scene!);
+      issues.push(...found.map(issue => ({ ...issue, sceneId: accepted.id })));
+      return accepted;
+    });
+    const action = kept.length < chunk.frameCount ? 'A follow-up call filled in the missing beats.' : 'A follow-up call consolidated the extra beats.';
+    issues.push({ code: 'beat-count', chunkIndex: chunk.index, message, action, flagged: false });
+    onReplaceScenes?.(removedIds, replacements);
+  };
+
+  const finish = (): ScriptAnalysis => {
+    const spans = resolveSourceSpans(scriptText, scenes);
+    return {
+      projectTitle,
+      projectStyle,
+      scenes: scenes.map(({ sourceStart, sourceEnd, ...scene }, i) => ({ ...scene, sourceSpan: spans[i] })),
+      sourceFingerprint: scriptFingerprint(scriptText),
+      validation: { beatsReceived, beatsExpected: totalBeats, issues },
+    };
+  };
+
+  onProgress?.({ completedChunks: 0, totalChunks: chunks.length, beats: 0, totalBeats });
+  for (const chunk of chunks) {
+    const firstIndex = scenes.length;
+    const received: unknown[] = [];
+    // Where the chunk stood when the first malformed beat streamed in, so it can be taken again from there.
+    let gap: { position: number; sceneCount: number; issueCount: number; beatsReceived: number } | undefined;
+    const receive = (raw: unknown) => {
+      received.push(raw);
+      beatsReceived++;
+      return acceptRaw(raw, chunk.index, received.length);
+    };
+    let result: ChunkAnalysis;
+    try {
+      result = await analyzer.analyzeScript({
+        chunk, chunkCount: chunks.length, topic, style, previousSummaries: summaries, screenplay, tone, signal,
+        onScene: raw => {
+          if (raw === null) {
+            gap ??= { position: received.length, sceneCount: scenes.length, issueCount: issues.length, beatsReceived };
+            received.push(raw);
+            beatsReceived++;
+            return;
           }
+          const scene = receive(raw);
+          if (scene) onScene?.(scene);
+          onProgress?.({ completedChunks: chunk.index, totalChunks: chunks.length, beats: scenes.length, totalBeats });
         },
-        required: ["projectTitle", "projectStyle", "scenes"]
-      }
+      });
+    } catch (err) {
+      if (signal?.aborted) return finish();
+      throw err;
     }
-  });
+    if (chunk.index === 0) {
+      projectTitle = result.projectTitle;
+      projectStyle = result.projectStyle;
+    }
+    const resultScenes: unknown[] = Array.isArray(result.scenes) ? result.scenes : [];
+    summaries.push(result.summary || scenes.slice(firstIndex).map(s => s.title).join('; '));
+    if (gap && resultScenes.length > gap.position) {
+      // The final document holds the beat the stream could not read; take the chunk again from that beat on.
+      const removedIds = scenes.splice(gap.sceneCount).map(scene => scene.id);
+      issues.splice(gap.issueCount);
+      beatsReceived = gap.beatsReceived;
+      received.length = gap.position;
+      const replacements = resultScenes.slice(gap.position).map(receive).filter((scene): scene is Scene => !!scene);
+      onReplaceScenes?.(removedIds, replacements);
+    } else {
+      // Streamed beats are the same ones the final document holds; only ones the stream missed are added.
+      resultScenes.slice(received.length).forEach(raw => {
+        const scene = receive(raw);
+        if (scene) onScene?.(scene);
+      });
+    }
+    issues.push(...checkBeatIdentity(resultScenes.length >= received.length ? resultScenes : received, chunk.index));
+    if (scenes.length - firstIndex !== chunk.frameCount && !signal?.aborted) await reconcile(chunk, firstIndex);
+    onProgress?.({ completedChunks: chunk.index + 1, totalChunks: chunks.length, beats: scenes.length, totalBeats });
+    if (signal?.aborted) break;
+  }
+
+  return finish();
+};
 
-  const text = response.text;
-  if (!text) throw new Error("Empty response from script analyzer.");
-  return JSON.parse(text);
+/**
+ * Finds characters and locations that recur across the storyboard and writes one canonical visual
+ * description for each, so every frame they appear in can be rendered from the same description.
+ */
+export const extractBible = async (
+  scenes: Scene[],
+  topic: string,
+  style: string
+): Promise<ExtractedBibleEntry[]> => {
+  return provider().extractBible({ scenes, topic, style });
 };
 
-export const generateSceneImage = async (prompt: string, seed?: number): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  // We use very aggressive negative prompting inside the positive prompt to force the model away from its 'beauty' bias.
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
-    contents: {
-      parts: [{ 
-        text: `AUTHENTIC HISTORICAL PHOTOGRAPH. 
-               DIRECTIVE: ABSOLUTELY NO CLEAN SKIN. NO HEALTHY GLOW. NO PERFECT TEETH. NO POLISHED HAIR.
-               SUBJECTS: Must look physically exhausted, dirty, malnourished, and distressed. Emphasize raw textures, mud, dust, and sallow skin tones. 
-               STYLE: RAW CINEMATIC REALISM, 35mm grain, heavy atmospheric shadows.
-               
-               DETAILED SCENE: ${prompt}` 
-      }],
-    },
-    config: {
-      seed: seed || Math.floor(Math.random() * 1000000),
-      imageConfig: {
-        aspectRatio: "16:9"
-      }
-    },
+/**
+ * Drafts a beat to sit between two neighbours. Either neighbour may be missing at the ends of the storyboard.
+ */
+export const draftScene = async (
+  before: Scene | undefined,
+  after: Scene | undefined,
+  topic: string,
+  style: string
+): Promise<BeatDraft> => {
+  const draft = await provider().draftBeat({ before, after, topic, style });
+  return { ...draft, cinematography: sanitizeCinematography(draft.cinematography) };
+};
+
+export const generateSceneImage = async (
+  prompt: string,
+  tone: ToneProfile,
+  seed?: number,
+  references: ContinuityReference[] = []
+): Promise<ImageResult> => {
+  return provider().generateImage({
+    prompt,
+    seed: seed || Math.floor(Math.random() * 1000000),
+    references,
+    tone,
+  });
+};
+
+/**
+ * Edits an existing frame. With a mask only the white region changes; without one the instruction
+ * applies to the whole image (e.g. "make it dusk").
+ */
+export const refineSceneImage = async (
+  image: InlineImage,
+  instruction: string,
+  tone: ToneProfile,
+  mask?: InlineImage,
+  seed?: number
+): Promise<ImageResult> => {
+  return provider().refineImage({
+    image,
+    mask,
+    instruction,
+    seed: seed || Math.floor(Math.random() * 1000000),
+    tone,
   });
+};
 
-  const candidate = response.candidates?.[0];
-  if (!candidate) throw new Error("Safety filters blocked the image or API error.");
+/**
+ * Asks for a reworded prompt after a safety block or refusal. The result is only a suggestion: the
+ * caller shows it for review and nothing is rendered until the user approves it.
+ */
+export const suggestSoftenedPrompt = async (
+  prompt: string,
+  reason: string,
+  tone: ToneProfile
+): Promise<SoftenedPrompt> => {
+  return provider().softenPrompt({ prompt, reason, tone });
+};
 
-  for (const part of candidate.content.parts) {
-    if (part.inlineData) {
-      return `data:image/png;base64,${part.inlineData.data}`;
-    }
+/**
+ * Rewrites one beat's image prompt following the user's instruction, with its neighbours for context so
+ * the result stays consistent with the frames around it. Nothing is applied until the user accepts it.
+ */
+export const rewriteScenePrompt = async (
+  scene: Scene,
+  before: Scene | undefined,
+  after: Scene | undefined,
+  instruction: string,
+  topic: string,
+  style: string,
+  tone: ToneProfile
+): Promise<RewrittenPrompt> => {
+  return provider().rewritePrompt({ scene, before, after, instruction, topic, style, tone });
+};
+
+export interface ContinuityProgress {
+  completedWindows: number;
+  totalWindows: number;
+}
+
+export interface ContinuityCheckOptions {
+  onProgress?: (progress: ContinuityProgress) => void;
+  // Aborting stops after the current window and resolves with the issues found so far.
+  signal?: AbortSignal;
+}
+
+/**
+ * Compares consecutive rendered frames, a few at a time, with a multimodal model and collects the
+ * continuity errors it finds. Each window is sent with the bible entries tagged on its frames.
+ */
+export const checkContinuity = async (
+  frames: { scene: Scene; image: InlineImage }[],
+  bible: BibleEntry[],
+  topic: string,
+  style: string,
+  { onProgress, signal }: ContinuityCheckOptions = {}
+): Promise<ContinuityReport> => {
+  const checker = provider();
+  const windows = continuityWindows(frames);
+  const issues: ContinuityIssue[] = [];
+
+  onProgress?.({ completedWindows: 0, totalWindows: windows.length });
+  for (const [index, window] of windows.entries()) {
+    if (signal?.aborted) break;
+    const tagged = new Set(window.flatMap(({ scene }) => scene.bibleIds ?? []));
+    const findings = await checker.checkContinuity({
+      frames: window.map(({ scene, image }) => ({
+        sceneNumber: scene.sceneNumber,
+        title: scene.title,
+        description: scene.description,
+        imagePrompt: scene.imagePrompt,
+        cinematography: scene.cinematography,
+        image,
+      })),
+      bible: bible.filter(entry => tagged.has(entry.id)),
+      topic,
+      style,
+    });
+    issues.push(...findingsToIssues(Array.isArray(findings) ? findings : [], window.map(({ scene }) => scene), createId));
+    onProgress?.({ completedWindows: index + 1, totalWindows: windows.length });
+  }
+
+  return { checkedAt: Date.now(), frameCount: frames.length, issues: dedupeIssues(issues) };
+};
+
+export interface ResearchProgress {
+  completedBatches: number;
+  totalBatches: number;
+}
+
+export interface ResearchOptions {
+  onProgress?: (progress: ResearchProgress) => void;
+  // Aborting stops after the current batch and resolves with the notes written so far.
+  signal?: AbortSignal;
+}
+
+/**
+ * The optional research pass: period notes for every beat and anachronisms in its prompt, keyed by scene id.
+ * Beats are researched a few at a time so neighbouring beats are judged against the same era.
+ */
+export const researchPeriod = async (
+  scenes: Scene[],
+  topic: string,
+  style: string,
+  { onProgress, signal }: ResearchOptions = {}
+): Promise<Record<string, PeriodNotes>> => {
+  const researcher = provider();
+  const batches = researchBatches(scenes);
+  const notes: Record<string, PeriodNotes> = {};
+
+  onProgress?.({ completedBatches: 0, totalBatches: batches.length });
+  for (const [index, batch] of batches.entries()) {
+    if (signal?.aborted) break;
+    const findings = await researcher.researchPeriod({ beats: batch.map(toResearchBeat), topic, style });
+    Object.assign(notes, findingsToNotes(Array.isArray(findings) ? findings : [], batch, createId));
+    onProgress?.({ completedBatches: index + 1, totalBatches: batches.length });
   }
-  
-  const textRefusal = candidate.content.parts.find(p => p.text);
-  if (textRefusal) throw new Error(`Model Refused: ${textRefusal.text}`);
-  
-  throw new Error("No image data returned from Gemini.");
+  return notes;
 };
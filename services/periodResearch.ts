@@ -0,0 +1,52 @@
+import { Anachronism, PeriodNotes, Scene } from "../types";
+import { PeriodFinding, ResearchBeat } from "./aiProvider";
+
+// Beats per research request: enough shared context for the era to be judged consistently, small enough to answer quickly.
+export const RESEARCH_BATCH = 8;
+
+export const researchBatches = (scenes: Scene[], size: number = RESEARCH_BATCH): Scene[][] =>
+  Array.from({ length: Math.ceil(scenes.length / size) }, (_, i) => scenes.slice(i * size, (i + 1) * size));
+
+export const toResearchBeat = ({ sceneNumber, title, description, imagePrompt, cinematography }: Scene): ResearchBeat =>
+  ({ sceneNumber, title, description, imagePrompt, cinematography });
+
+const findTerm = (prompt: string, term: string): number => prompt.toLowerCase().indexOf(term.trim().toLowerCase());
+
+/**
+ * Maps a batch's findings back to scene ids by beat number. An anachronism is kept only when its wording
+ * actually occurs in the prompt, so every warning points at text that can be corrected.
+ */
+export const findingsToNotes = (findings: PeriodFinding[], batch: Scene[], createId: () => string): Record<string, PeriodNotes> => {
+  const byNumber = new Map(batch.map(scene => [scene.sceneNumber, scene]));
+  const notes: Record<string, PeriodNotes> = {};
+  findings.forEach(finding => {
+    const scene = byNumber.get(finding.sceneNumber);
+    if (!scene) return;
+    const anachronisms: Anachronism[] = (finding.anachronisms ?? [])
+      .filter(a => a.term?.trim() && findTerm(scene.imagePrompt, a.term) >= 0)
+      .map(({ term, explanation, correction }) => ({ id: createId(), term: term.trim(), explanation, correction: correction?.trim() ?? '' }));
+    notes[scene.id] = {
+      era: finding.era,
+      region: finding.region,
+      clothing: finding.clothing,
+      technology: finding.technology,
+      architecture: finding.architecture,
+      anachronisms,
+      researchedPrompt: scene.imagePrompt,
+      researchedAt: Date.now(),
+    };
+  });
+  return notes;
+};
+
+// Replaces the first occurrence of the term, case-insensitively; null when the prompt no longer contains it.
+export const applyCorrection = (prompt: string, { term, correction }: Pick<Anachronism, 'term' | 'correction'>): string | null => {
+  const at = findTerm(prompt, term);
+  if (at < 0) return null;
+  return `${prompt.slice(0, at)}${correction}${prompt.slice(at + term.trim().length)}`;
+};
+
+export const openAnachronisms = (scene: Scene): Anachronism[] =>
+  (scene.periodNotes?.anachronisms ?? []).filter(a => !a.resolved);
+
+export const hasPeriodWarnings = (scene: Scene): boolean => openAnachronisms(scene).length > 0;
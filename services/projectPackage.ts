@@ -0,0 +1,240 @@
+import JSZip from "jszip";
+import { Cinematography, Project, ProjectSummary, Scene, ToneProfile } from "../types";
+import { importProjectBundle, loadProjectBundle, StoredHistoryRecord } from "./storageService";
+import { CAMERA_ANGLES, CAMERA_MOVEMENTS, labelOf, LIGHTING_KEYS, SHOT_SIZES, TIMES_OF_DAY } from "./cinematography";
+import { openThreadCount, REVIEW_STATUSES, reviewStatusOf } from "./review";
+import { flattenAnnotations, isVisible } from "./annotations";
+
+// A package is a ZIP with the hero frames under frames/, every other stored blob (older takes, bible
+// references, the animatic scratch track) under images/, optionally hero frames with their markup burned in under
+// frames_markup/, a manifest.json that restores the project exactly, a shot list CSV
+// and a CSV of every review comment.
+
+const PACKAGE_FORMAT = "scriptvisualizer-package";
+const PACKAGE_VERSION = 1;
+
+interface FrameEntry {
+  sceneId: string;
+  sceneNumber: number;
+  title: string;
+  file: string | null;
+  markupFile?: string; // Copy with the hero take's markup flattened in; the untouched frame stays in `file`
+  takeId?: string;
+  seed?: number;
+  model?: string;
+  timestamp?: number;
+  style: string;
+}
+
+interface PackageManifest {
+  format: typeof PACKAGE_FORMAT;
+  version: number;
+  exportedAt: number;
+  project: Project;
+  images: Record<string, string>;
+  mimeTypes?: Record<string, string>; // Stored type of every blob in `images`, parameters included
+  history: StoredHistoryRecord[];
+  frames: FrameEntry[];
+  toneProfiles?: ToneProfile[]; // Custom profiles the project uses, so it renders the same elsewhere
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp',
+  'audio/mpeg': 'mp3', 'audio/wav': 'wav', 'audio/ogg': 'ogg', 'audio/mp4': 'm4a', 'audio/webm': 'weba',
+};
+// Aliases browsers report for the same formats. Only used for naming files.
+const EXTENSION_ALIASES: Record<string, string> = {
+  'audio/x-m4a': 'm4a', 'audio/aac': 'aac', 'audio/x-wav': 'wav', 'audio/wave': 'wav', 'audio/mp3': 'mp3',
+};
+
+// Parameters such as ";codecs=opus" are dropped for the lookup; types not in either table get a neutral extension.
+const extensionFor = (mimeType: string): string => {
+  const base = mimeType.split(';')[0].trim().toLowerCase();
+  return EXTENSIONS[base] ?? EXTENSION_ALIASES[base] ?? 'bin';
+};
+const MIME_TYPES: Record<string, string> = {
+  ...Object.fromEntries(Object.entries(EXTENSIONS).map(([mime, extension]) => [extension, mime])),
+  jpeg: 'image/jpeg',
+};
+
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 40) || 'untitled';
+
+const frameFileName = (scene: Pick<Scene, 'sceneNumber' | 'title'>, extension = 'png') =>
+  `S${String(scene.sceneNumber).padStart(3, '0')}_${slugify(scene.title)}.${extension}`;
+
+const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// The BOM makes Excel read the file as UTF-8 instead of the system code page.
+const toCsv = (rows: (string | number | undefined)[][]): string =>
+  '\uFEFF' + rows.map(row => row.map(csvCell).join(',')).join('\r\n');
+
+const shotList = (project: Project, frames: FrameEntry[]): string => {
+  const scenes = project.analysis?.scenes ?? [];
+  const bible = new Map((project.analysis?.bible ?? []).map(entry => [entry.id, entry.name]));
+  const header = [
+    'Scene', 'Title', 'Description', 'Image Prompt', 'Shot Size', 'Angle', 'Lens', 'Movement', 'Lighting', 'Time Of Day', 'Location',
+    'Frame File', 'Seed', 'Model', 'Rendered At', 'Takes', 'Continuity', 'Review Status', 'Open Comments',
+  ];
+  const rows = scenes.map((scene, i) => {
+    const frame = frames[i];
+    const camera: Cinematography = scene.cinematography ?? {};
+    return [
+      scene.sceneNumber,
+      scene.title,
+      scene.description,
+      scene.imagePrompt,
+      labelOf(SHOT_SIZES, camera.shotSize),
+      labelOf(CAMERA_ANGLES, camera.cameraAngle),
+      camera.lens,
+      labelOf(CAMERA_MOVEMENTS, camera.movement),
+      labelOf(LIGHTING_KEYS, camera.lighting),
+      labelOf(TIMES_OF_DAY, camera.timeOfDay),
+      camera.location,
+      frame.file ?? '',
+      frame.seed,
+      frame.model,
+      frame.timestamp ? new Date(frame.timestamp).toISOString() : '',
+      scene.takes?.length ?? 0,
+      (scene.bibleIds ?? []).map(id => bible.get(id)).filter(Boolean).join('; '),
+      labelOf(REVIEW_STATUSES, reviewStatusOf(scene)),
+      openThreadCount(scene),
+    ];
+  });
+  return toCsv([header, ...rows]);
+};
+
+// One row per comment, replies after the comment they answer. Pins are given as percentages of the frame.
+const reviewComments = (project: Project, paths: Record<string, string>): string => {
+  const header = ['Scene', 'Title', 'Comment Id', 'Reply To', 'Author', 'Written At', 'Frame File', 'Pin X %', 'Pin Y %', 'Resolved', 'Comment'];
+  const rows = (project.analysis?.scenes ?? []).flatMap(scene => (scene.review?.comments ?? []).map(comment => [
+    scene.sceneNumber,
+    scene.title,
+    comment.id,
+    comment.parentId,
+    comment.author,
+    new Date(comment.timestamp).toISOString(),
+    comment.imageId ? paths[comment.imageId] : undefined,
+    comment.pin && Math.round(comment.pin.x * 1000) / 10,
+    comment.pin && Math.round(comment.pin.y * 1000) / 10,
+    comment.resolved ? 'yes' : '',
+    comment.text,
+  ]));
+  return toCsv([header, ...rows]);
+};
+
+export interface PackageOptions {
+  includeMarkup?: boolean;
+}
+
+const flattenBlob = async (blob: Blob, scene: Scene): Promise<Blob | undefined> => {
+  const annotations = scene.takes?.find(take => take.id === scene.heroTakeId)?.annotations;
+  if (!isVisible(annotations)) return undefined;
+  const url = URL.createObjectURL(blob);
+  try {
+    return await (await fetch(await flattenAnnotations(url, annotations))).blob();
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Builds the handoff package for a saved project. Reads the stored copy, so callers should save first.
+ */
+export const exportProjectPackage = async (
+  projectId: string,
+  customToneProfiles: ToneProfile[] = [],
+  { includeMarkup = false }: PackageOptions = {}
+): Promise<{ fileName: string; blob: Blob }> => {
+  const bundle = await loadProjectBundle(projectId);
+  if (!bundle) throw new Error("Project not found.");
+  const { project } = bundle;
+  const zip = new JSZip();
+  const blobs = new Map(bundle.images.map(image => [image.id, image.blob]));
+  const paths: Record<string, string> = {};
+
+  const frames: FrameEntry[] = await Promise.all((project.analysis?.scenes ?? []).map(async scene => {
+    const hero = scene.takes?.find(take => take.id === scene.heroTakeId);
+    const blob = scene.imageId ? blobs.get(scene.imageId) : undefined;
+    let file: string | null = null;
+    let markupFile: string | undefined;
+    if (scene.imageId && blob) {
+      file = `frames/${frameFileName(scene, extensionFor(blob.type))}`;
+      paths[scene.imageId] = file;
+      zip.file(file, blob);
+      const flattened = includeMarkup ? await flattenBlob(blob, scene) : undefined;
+      if (flattened) {
+        markupFile = `frames_markup/${frameFileName(scene)}`;
+        zip.file(markupFile, flattened);
+      }
+    }
+    return {
+      sceneId: scene.id,
+      sceneNumber: scene.sceneNumber,
+      title: scene.title,
+      file,
+      markupFile,
+      takeId: hero?.id,
+      seed: hero?.seed,
+      model: hero?.model,
+      timestamp: hero?.timestamp,
+      style: project.analysis?.projectStyle ?? project.style,
+    };
+  }));
+
+  bundle.images.forEach(({ id, blob }) => {
+    if (paths[id]) return;
+    paths[id] = `images/${id}.${extensionFor(blob.type)}`;
+    zip.file(paths[id], blob);
+  });
+  const mimeTypes = Object.fromEntries(bundle.images.filter(({ blob }) => blob.type).map(({ id, blob }) => [id, blob.type]));
+
+  const manifest: PackageManifest = {
+    format: PACKAGE_FORMAT,
+    version: PACKAGE_VERSION,
+    exportedAt: Date.now(),
+    project,
+    images: paths,
+    mimeTypes,
+    history: bundle.history,
+    frames,
+    toneProfiles: customToneProfiles.filter(profile => (
+      profile.id === project.toneProfileId || project.analysis?.scenes.some(scene => scene.toneProfileId === profile.id)
+    )),
+  };
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+  zip.file('shot_list.csv', shotList(project, frames));
+  zip.file('review_comments.csv', reviewComments(project, paths));
+
+  return {
+    fileName: `${slugify(project.name)}.zip`,
+    blob: await zip.generateAsync({ type: 'blob' }),
+  };
+};
+
+/**
+ * Restores a package as a new project in the library, images and render history included. Custom tone
+ * profiles it carries are returned for the caller to merge into the local settings.
+ */
+export const importProjectPackage = async (file: Blob): Promise<{ project: ProjectSummary; toneProfiles: ToneProfile[] }> => {
+  const zip = await JSZip.loadAsync(file);
+  const manifestFile = zip.file('manifest.json');
+  if (!manifestFile) throw new Error("Not a storyboard package: manifest.json is missing.");
+  const manifest: PackageManifest = JSON.parse(await manifestFile.async('string'));
+  if (manifest.format !== PACKAGE_FORMAT) throw new Error("Not a storyboard package.");
+  if (manifest.version > PACKAGE_VERSION) throw new Error(`Package version ${manifest.version} is newer than this app supports.`);
+
+  const images = await Promise.all(Object.entries(manifest.images).map(async ([id, path]) => {
+    const entry = zip.file(path);
+    if (!entry) throw new Error(`Package is incomplete: ${path} is missing.`);
+    // Packages written before types were recorded only have the extension to go on.
+    const extension = path.split('.').pop()?.toLowerCase() ?? 'png';
+    const type = manifest.mimeTypes?.[id] ?? MIME_TYPES[extension] ?? 'image/png';
+    return { id, blob: new Blob([await entry.async('arraybuffer')], { type }) };
+  }));
+
+  const project = await importProjectBundle({ project: manifest.project, images, history: manifest.history ?? [] });
+  return { project, toneProfiles: manifest.toneProfiles ?? [] };
+};
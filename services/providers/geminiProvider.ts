@@ -0,0 +1,528 @@
+import { GenerateContentResponse, GoogleGenAI, Part, Type } from "@google/genai";
+import { Scene, ToneProfile } from "../../types";
+import {
+  AIProvider, AnalysisRequest, AnalyzedScene, BeatCountRequest, BeatDraft, BeatDraftRequest, BibleRequest, ChunkAnalysis, ContinuityFinding, ContinuityReference,
+  ContinuityRequest, PeriodFinding, PeriodResearchRequest, ExtractedBibleEntry, ImageRequest,
+  ImageResult, ModelIds, PromptRewriteRequest, RefineRequest, RewrittenPrompt, SoftenedPrompt, SoftenRequest
+} from "../aiProvider";
+import { EmptyResponseError, ModelRefusalError, parseModelJson, SafetyBlockError } from "../aiErrors";
+import { countScenes } from "../screenplayParser";
+import { createArrayItemStream } from "../streamingJson";
+import { CAMERA_ANGLES, CAMERA_MOVEMENTS, LIGHTING_KEYS, SHOT_SIZES, TIMES_OF_DAY } from "../cinematography";
+
+const values = (options: { value: string }[]) => options.map(option => option.value);
+
+const CINEMATOGRAPHY_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    shotSize: { type: Type.STRING, enum: values(SHOT_SIZES) },
+    cameraAngle: { type: Type.STRING, enum: values(CAMERA_ANGLES) },
+    lens: { type: Type.STRING },
+    movement: { type: Type.STRING, enum: values(CAMERA_MOVEMENTS) },
+    lighting: { type: Type.STRING, enum: values(LIGHTING_KEYS) },
+    timeOfDay: { type: Type.STRING, enum: values(TIMES_OF_DAY) },
+    location: { type: Type.STRING }
+  },
+  required: ["shotSize", "cameraAngle", "lens", "movement", "lighting", "timeOfDay", "location"]
+};
+
+const CINEMATOGRAPHY_DIRECTIVE = `For every beat also fill "cinematography" the way a director of photography would plan it:
+      shot size, camera angle, lens focal length (e.g. "35mm"), camera movement, lighting key, time of day and a short location name.
+      Keep imagePrompt about content and mood; framing belongs in cinematography.`;
+
+const SCENE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    id: { type: Type.STRING },
+    sceneNumber: { type: Type.INTEGER },
+    title: { type: Type.STRING },
+    description: { type: Type.STRING },
+    imagePrompt: { type: Type.STRING },
+    cinematography: CINEMATOGRAPHY_SCHEMA,
+    sourceStart: { type: Type.STRING },
+    sourceEnd: { type: Type.STRING }
+  },
+  required: ["id", "sceneNumber", "title", "description", "imagePrompt", "cinematography", "sourceStart", "sourceEnd"]
+};
+
+const SOURCE_LINES_DIRECTIVE = `SOURCE LINES: For each beat, "sourceStart" is the first line and "sourceEnd" the last line of the script passage the beat
+      depicts, each copied character for character from the SCRIPT CONTENT (one line each, never paraphrased or shortened).`;
+
+const continuityParts = (references: ContinuityReference[]): { text: string; images: Part[] } => {
+  if (!references.length) return { text: '', images: [] };
+  const text = `
+               CONTINUITY (these must look exactly as described in every frame):
+               ${references.map(({ entry }) => `- ${entry.name} (${entry.kind}): ${entry.description}`).join('\n               ')}`;
+  const images = references.flatMap(({ entry, image }): Part[] => image ? [
+    { text: `Reference image for ${entry.name} (${entry.kind}). Match this appearance; do not copy the composition.` },
+    { inlineData: { mimeType: image.mimeType, data: image.data } },
+  ] : []);
+  return { text, images };
+};
+
+const SAFETY_FINISH_REASONS = new Set(['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII']);
+
+// A blocked prompt comes back with no candidates at all, only prompt feedback.
+const checkBlocked = (response: GenerateContentResponse) => {
+  const feedback = response.promptFeedback;
+  if (feedback?.blockReason) throw new SafetyBlockError(feedback.blockReason, feedback.blockReasonMessage);
+  const candidate = response.candidates?.[0];
+  if (candidate?.finishReason && SAFETY_FINISH_REASONS.has(candidate.finishReason)) {
+    throw new SafetyBlockError(candidate.finishReason, candidate.finishMessage);
+  }
+};
+
+const jsonResult = <T>(response: GenerateContentResponse, what: string): T => {
+  checkBlocked(response);
+  return parseModelJson<T>(response.text, what);
+};
+
+const imageResult = (response: GenerateContentResponse, meta: Omit<ImageResult, 'dataUrl'>): ImageResult => {
+  checkBlocked(response);
+  const candidate = response.candidates?.[0];
+  const parts = candidate?.content?.parts ?? [];
+
+  for (const part of parts) {
+    if (part.inlineData) {
+      return { dataUrl: `data:image/png;base64,${part.inlineData.data}`, ...meta };
+    }
+  }
+
+  const textRefusal = parts.find(p => p.text);
+  if (textRefusal) throw new ModelRefusalError(textRefusal.text!);
+
+  throw new EmptyResponseError('image model');
+};
+
+// Shared by renders and refinements so a refined frame keeps the size and shape of the one it came from.
+const imageConfigFor = (tone: ToneProfile) => ({
+  aspectRatio: tone.aspectRatio,
+  // 1K is the default and the only size every image model accepts, so it is left implicit.
+  ...(tone.resolution !== '1K' ? { imageSize: tone.resolution } : {}),
+});
+
+export interface GeminiConnection {
+  apiKey: string;
+  // Overrides the Google endpoint, e.g. to point the API proxy at a local fake server in tests.
+  baseUrl?: string;
+}
+
+/**
+ * Calls Gemini directly with the API key, so it only ever runs inside the API proxy (server/), never in the browser.
+ */
+export const createGeminiProvider = (models: ModelIds, { apiKey, baseUrl }: GeminiConnection): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey, ...(baseUrl ? { httpOptions: { baseUrl } } : {}) });
+
+  const suggestStyle = async (topic: string, signal?: AbortSignal): Promise<string> => {
+    const response = await ai.models.generateContent({
+      model: models.textModel,
+      contents: `Based on the movie/script topic "${topic}", suggest a professional cinematic visual style.
+      Avoid "animated" or "cartoonish" styles.
+      If the topic suggests history, war, or struggle, recommend styles like "Raw, desaturated 35mm documentary realism" or "High-contrast gritty historical noir".
+      Return ONLY the style name.`,
+      config: { abortSignal: signal },
+    });
+    return response.text?.trim() || "Cinematic, high-fidelity, photorealistic";
+  };
+
+  const analyzeScript = async ({
+    chunk, chunkCount, topic, style, previousSummaries, screenplay, tone, onScene, signal
+  }: AnalysisRequest): Promise<ChunkAnalysis> => {
+    const structure = screenplay
+      ? `
+      The script below was imported from a ${screenplay.format === 'fdx' ? 'Final Draft' : 'Fountain'} screenplay (${countScenes(screenplay)} scenes in total).
+      Every "SCENE n:" line is a real scene heading. Each beat must stay inside one scene, beats must follow scene order,
+      and each scene should get at least one beat when the frame count allows. Start each beat title with its scene heading location.`
+      : '';
+
+    const continuity = chunkCount > 1
+      ? `
+      This is part ${chunk.index + 1} of ${chunkCount} of the full script. Storyboard ONLY this part.
+      ${previousSummaries.length ? `STORY SO FAR (for context only, do not storyboard it again):
+      ${previousSummaries.map((summary, i) => `Part ${i + 1}: ${summary}`).join('\n      ')}` : ''}
+      Also return "summary": two or three sentences describing what happens in this part, naming key characters and locations.`
+      : '';
+
+    // The analysis model (Gemini 3 Pro by default) is used for its reasoning and historical/emotional context comprehension.
+    // It is streamed so beats can be shown while the rest of a long breakdown is still being written.
+    const stream = await ai.models.generateContentStream({
+      model: models.analysisModel,
+      contents: `You are a world-class Storyboard Director, Historian, and Narrative Specialist.
+      Analyze the project titled "${topic}" and divide it into exactly ${chunk.frameCount} key visual beats.
+      ${continuity}
+      ${structure}
+
+      MANDATORY VISUAL DIRECTIVES:
+      ${tone.analysisDirectives.split('\n').join('\n      ')}
+      STYLE: Strictly adhere to the requested style "${style}".
+
+      ${CINEMATOGRAPHY_DIRECTIVE}
+
+      ${SOURCE_LINES_DIRECTIVE}
+
+      SCRIPT CONTENT:
+      ${chunk.text}`,
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            projectTitle: { type: Type.STRING },
+            projectStyle: { type: Type.STRING },
+            summary: { type: Type.STRING },
+            scenes: {
+              type: Type.ARRAY,
+              items: SCENE_SCHEMA
+            }
+          },
+          required: ["projectTitle", "projectStyle", "scenes"]
+        }
+      }
+    });
+
+    const items = createArrayItemStream('scenes');
+    let text = '';
+    for await (const part of stream) {
+      checkBlocked(part);
+      const piece = part.text ?? '';
+      text += piece;
+      items.push(piece).forEach(scene => onScene?.(scene as AnalyzedScene | null));
+    }
+    return parseModelJson<ChunkAnalysis>(text, 'script analyzer');
+  };
+
+  const reconcileBeats = async ({ chunk, scenes, topic, style, tone, signal }: BeatCountRequest): Promise<AnalyzedScene[]> => {
+    const wanted = chunk.frameCount;
+    const task = scenes.length < wanted
+      ? `It has only ${scenes.length}. Add the ${wanted - scenes.length} missing beats for moments of the script no beat covers yet, and keep every existing beat unchanged.`
+      : `It has ${scenes.length}. Consolidate beats that show the same moment until exactly ${wanted} remain, and keep every other beat unchanged.`;
+    const current = scenes.map(({ title, description, imagePrompt, cinematography, sourceStart, sourceEnd }, i) =>
+      ({ sceneNumber: i + 1, title, description, imagePrompt, cinematography, sourceStart, sourceEnd }));
+
+    const response = await ai.models.generateContent({
+      model: models.analysisModel,
+      contents: `You are the Storyboard Director for "${topic}". The storyboard for the script passage below must have exactly ${wanted} beats, in script order.
+      ${task}
+      Return the complete list of ${wanted} beats.
+
+      MANDATORY VISUAL DIRECTIVES:
+      ${tone.analysisDirectives.split('\n').join('\n      ')}
+      STYLE: Strictly adhere to the requested style "${style}".
+
+      ${CINEMATOGRAPHY_DIRECTIVE}
+
+      ${SOURCE_LINES_DIRECTIVE}
+
+      CURRENT BEATS:
+      ${JSON.stringify(current)}
+
+      SCRIPT CONTENT:
+      ${chunk.text}`,
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: { type: Type.ARRAY, items: SCENE_SCHEMA }
+      }
+    });
+    return jsonResult<AnalyzedScene[]>(response, 'beat count repair');
+  };
+
+  const extractBible = async ({ scenes, topic, style, signal }: BibleRequest): Promise<ExtractedBibleEntry[]> => {
+    const beats = scenes
+      .map(s => `BEAT ${s.sceneNumber}: ${s.title}\n${s.description}\nPROMPT: ${s.imagePrompt}`)
+      .join('\n\n');
+
+    const response = await ai.models.generateContent({
+      model: models.textModel,
+      contents: `You are the continuity supervisor for the storyboard of "${topic}" (visual style: "${style}").
+      From the beats below, list every CHARACTER and LOCATION that appears in more than one beat, plus any single-beat lead character.
+      For each, write a canonical visual description that an illustrator can reuse verbatim in every frame:
+      characters - age, build, face, hair, skin condition, wardrobe with colours and wear; locations - architecture, materials, light, weather, key props.
+      Use the most specific name used in the beats. List the beat numbers in which each entry appears.
+
+      BEATS:
+      ${beats}`,
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              kind: { type: Type.STRING, enum: ["character", "location"] },
+              name: { type: Type.STRING },
+              description: { type: Type.STRING },
+              sceneNumbers: { type: Type.ARRAY, items: { type: Type.INTEGER } }
+            },
+            required: ["kind", "name", "description", "sceneNumbers"]
+          }
+        }
+      }
+    });
+
+    return jsonResult<ExtractedBibleEntry[]>(response, 'bible extractor');
+  };
+
+  const draftBeat = async ({ before, after, topic, style, signal }: BeatDraftRequest): Promise<BeatDraft> => {
+    const describe = (label: string, scene?: { title: string; description: string; imagePrompt: string }) => scene
+      ? `${label}: ${scene.title}\n${scene.description}\nPROMPT: ${scene.imagePrompt}`
+      : `${label}: (none - this is the ${label === 'PREVIOUS BEAT' ? 'opening' : 'closing'} beat)`;
+
+    const response = await ai.models.generateContent({
+      model: models.textModel,
+      contents: `You are the storyboard director of "${topic}" (visual style: "${style}").
+      Write ONE new visual beat that bridges the two beats below naturally, without repeating either.
+      Keep characters, wardrobe, locations and lighting consistent with its neighbours.
+      The imagePrompt must be a detailed RAW PHOTOGRAPHIC STILL description in the same register as the neighbouring prompts.
+      ${CINEMATOGRAPHY_DIRECTIVE}
+
+      ${describe('PREVIOUS BEAT', before)}
+
+      ${describe('NEXT BEAT', after)}`,
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING },
+            description: { type: Type.STRING },
+            imagePrompt: { type: Type.STRING },
+            cinematography: CINEMATOGRAPHY_SCHEMA
+          },
+          required: ["title", "description", "imagePrompt", "cinematography"]
+        }
+      }
+    });
+
+    return jsonResult<BeatDraft>(response, 'beat drafter');
+  };
+
+  const generateImage = async ({ prompt, seed, references, tone, signal }: ImageRequest): Promise<ImageResult> => {
+    const continuity = continuityParts(references);
+    const fullPrompt = [
+      tone.imagePreamble,
+      tone.negativeGuidance && `DIRECTIVE: ${tone.negativeGuidance}`,
+      `DETAILED SCENE: ${prompt}`,
+      continuity.text.trim(),
+    ].filter(Boolean).join('\n\n');
+
+    // Negative guidance goes inside the positive prompt; the image models have no separate negative prompt.
+    const response = await ai.models.generateContent({
+      model: models.imageModel,
+      contents: {
+        parts: [{ text: fullPrompt }, ...continuity.images],
+      },
+      config: {
+        abortSignal: signal,
+        seed,
+        imageConfig: imageConfigFor(tone),
+      },
+    });
+
+    return imageResult(response, { fullPrompt, model: models.imageModel, seed });
+  };
+
+  const refineImage = async ({ image, mask, instruction, seed, tone, signal }: RefineRequest): Promise<ImageResult> => {
+    const fullPrompt = [
+      mask
+        ? `Edit the first image. The second image is a mask: change ONLY the area that is white in the mask and keep every other pixel identical.`
+        : `Edit this image as a whole. Keep the composition, framing, characters and their positions unchanged.`,
+      `CHANGE: ${instruction}`,
+      tone.negativeGuidance && `DIRECTIVE: ${tone.negativeGuidance}`,
+    ].filter(Boolean).join('\n\n');
+
+    const response = await ai.models.generateContent({
+      model: models.imageModel,
+      contents: {
+        parts: [
+          { text: fullPrompt },
+          { inlineData: { mimeType: image.mimeType, data: image.data } },
+          ...(mask ? [{ inlineData: { mimeType: mask.mimeType, data: mask.data } }] : []),
+        ],
+      },
+      config: {
+        abortSignal: signal,
+        seed,
+        imageConfig: imageConfigFor(tone),
+      },
+    });
+
+    return imageResult(response, { fullPrompt, model: models.imageModel, seed });
+  };
+
+  const softenPrompt = async ({ prompt, reason, tone, signal }: SoftenRequest): Promise<SoftenedPrompt> => {
+    const response = await ai.models.generateContent({
+      model: models.textModel,
+      contents: `An image model refused the storyboard frame prompt below (${reason}).
+      Rewrite it so it is likely to pass content filters while keeping the story beat, characters, setting, period and composition.
+      Prefer implication over depiction: replace graphic injury, gore, nudity or explicit violence with aftermath, shadow, framing or reaction.
+      Keep it a photographic still description of similar length. The intended look is: ${tone.imagePreamble.split('\n').join(' ')}
+      Also return "changes": one sentence telling the director what was toned down.
+
+      PROMPT:
+      ${prompt}`,
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            prompt: { type: Type.STRING },
+            changes: { type: Type.STRING }
+          },
+          required: ["prompt", "changes"]
+        }
+      }
+    });
+
+    return jsonResult<SoftenedPrompt>(response, 'prompt rewriter');
+  };
+
+  const rewritePrompt = async ({ scene, before, after, topic, style, instruction, tone, signal }: PromptRewriteRequest): Promise<RewrittenPrompt> => {
+    const describe = (label: string, beat?: Scene) => beat
+      ? `${label}: ${beat.title}\n${beat.description}\nPROMPT: ${beat.imagePrompt}`
+      : `${label}: (none - this is the ${label === 'PREVIOUS BEAT' ? 'opening' : 'closing'} beat)`;
+
+    const response = await ai.models.generateContent({
+      model: models.textModel,
+      contents: `You are the storyboard director of "${topic}" (visual style: "${style}").
+      Rewrite the image prompt of the CURRENT BEAT following the director's note below. Change only what the note asks for;
+      keep the story moment, characters, wardrobe, locations and period consistent with the neighbouring beats.
+      The prompt must stay a detailed RAW PHOTOGRAPHIC STILL description in the same register as its neighbours.
+      The intended look is: ${tone.imagePreamble.split('\n').join(' ')}
+      Also return "notes": one sentence telling the director what was changed.
+
+      DIRECTOR'S NOTE: ${instruction}
+
+      ${describe('PREVIOUS BEAT', before)}
+
+      ${describe('CURRENT BEAT', scene)}
+
+      ${describe('NEXT BEAT', after)}`,
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            prompt: { type: Type.STRING },
+            notes: { type: Type.STRING }
+          },
+          required: ["prompt", "notes"]
+        }
+      }
+    });
+
+    return jsonResult<RewrittenPrompt>(response, 'prompt rewriter');
+  };
+
+  // The text model is multimodal, so it reads the frames themselves rather than only their prompts.
+  const checkContinuity = async ({ frames, bible, topic, style, signal }: ContinuityRequest): Promise<ContinuityFinding[]> => {
+    const canon = bible.length
+      ? `
+      CANONICAL DESCRIPTIONS (how these must look in every frame):
+      ${bible.map(entry => `- ${entry.name} (${entry.kind}): ${entry.description}`).join('\n      ')}`
+      : '';
+    const frameParts = frames.flatMap((frame): Part[] => [
+      { text: `BEAT ${frame.sceneNumber}: ${frame.title}\n${frame.description}\nPROMPT: ${frame.imagePrompt}` },
+      { inlineData: { mimeType: frame.image.mimeType, data: frame.image.data } },
+    ]);
+
+    const response = await ai.models.generateContent({
+      model: models.textModel,
+      contents: {
+        parts: [
+          {
+            text: `You are the script supervisor on "${topic}" (visual style: "${style}").
+      Below are ${frames.length} consecutive storyboard frames, each after its beat text. Compare neighbouring frames for continuity errors:
+      wardrobe that changes, props that appear or vanish, time of day or lighting that flips, characters whose appearance drifts,
+      locations whose details change. Ignore changes the beat text explains, such as a new scene or a time jump.
+      For each error give its type, a severity (high: breaks the story, medium: a viewer would notice, low: a nitpick), the beat numbers
+      involved, one sentence describing it, the beat whose prompt should change ("fixSceneNumber", usually the one that drifted) and
+      "suggestedPrompt": that beat's complete prompt rewritten to restore continuity, otherwise unchanged.
+      Return an empty array when the frames are consistent.
+      ${canon}`
+          },
+          ...frameParts,
+        ],
+      },
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              type: { type: Type.STRING, enum: ['wardrobe', 'prop', 'time-of-day', 'lighting', 'character', 'location', 'other'] },
+              severity: { type: Type.STRING, enum: ['low', 'medium', 'high'] },
+              sceneNumbers: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+              description: { type: Type.STRING },
+              fixSceneNumber: { type: Type.INTEGER },
+              suggestedPrompt: { type: Type.STRING }
+            },
+            required: ["type", "severity", "sceneNumbers", "description", "fixSceneNumber", "suggestedPrompt"]
+          }
+        }
+      }
+    });
+
+    return jsonResult<ContinuityFinding[]>(response, 'continuity checker');
+  };
+
+  const researchPeriod = async ({ beats, topic, style, signal }: PeriodResearchRequest): Promise<PeriodFinding[]> => {
+    const response = await ai.models.generateContent({
+      model: models.textModel,
+      contents: `You are the period consultant on "${topic}" (visual style: "${style}"), working with a history documentary team.
+      For each beat below, establish the era and region it is set in and note what is plausible for that time and place:
+      clothing, technology, architecture. Keep each note to one or two concrete sentences.
+      Then check the beat's PROMPT for anachronisms: objects, materials, clothing, technology or wording that did not exist or
+      would be wrong for that era and region. For each, quote the "term" exactly as it appears in the prompt, explain why it is
+      wrong, and give a period-accurate "correction" that can replace the term word for word. Return no anachronisms for a clean prompt.
+
+      BEATS:
+      ${beats.map(beat => `BEAT ${beat.sceneNumber}: ${beat.title}\n${beat.description}\nPROMPT: ${beat.imagePrompt}`).join('\n\n      ')}`,
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              sceneNumber: { type: Type.INTEGER },
+              era: { type: Type.STRING },
+              region: { type: Type.STRING },
+              clothing: { type: Type.STRING },
+              technology: { type: Type.STRING },
+              architecture: { type: Type.STRING },
+              anachronisms: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    term: { type: Type.STRING },
+                    explanation: { type: Type.STRING },
+                    correction: { type: Type.STRING }
+                  },
+                  required: ["term", "explanation", "correction"]
+                }
+              }
+            },
+            required: ["sceneNumber", "era", "region", "clothing", "technology", "architecture", "anachronisms"]
+          }
+        }
+      }
+    });
+
+    return jsonResult<PeriodFinding[]>(response, 'period researcher');
+  };
+
+  return {
+    suggestStyle, analyzeScript, reconcileBeats, extractBible, draftBeat, generateImage, refineImage, softenPrompt, rewritePrompt, checkContinuity,
+    researchPeriod,
+  };
+};
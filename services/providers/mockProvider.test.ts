@@ -0,0 +1,124 @@
+import { inflateSync } from 'node:zlib';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisRequest, AnalyzedScene, DEFAULT_MODEL_SETTINGS, setModelSettings } from '../aiProvider';
+import { parseScript } from '../geminiService';
+import { BUILT_IN_TONE_PROFILES } from '../toneProfiles';
+import { createMockProvider } from './mockProvider';
+
+const TONE = BUILT_IN_TONE_PROFILES[0];
+
+const SCRIPT = `INT. KITCHEN - NIGHT
+MARTA counts coins at the table.
+
+EXT. HARBOUR - DAWN
+Fishing boats come in through the fog.
+
+INT. KITCHEN - DAY
+MARTA sets out three bowls.`;
+
+const analysisRequest = (frameCount: number, onScene?: AnalysisRequest['onScene']): AnalysisRequest => ({
+  chunk: { index: 0, text: SCRIPT, frameCount },
+  chunkCount: 1,
+  topic: 'Harbour Town',
+  style: 'Ink wash',
+  previousSummaries: [],
+  tone: TONE,
+  onScene,
+});
+
+// Resolves a call whose mock latency runs on the fake timers.
+const settle = async <T>(call: Promise<T>): Promise<T> => {
+  await vi.runAllTimersAsync();
+  return call;
+};
+
+const decodePng = (dataUrl: string) => {
+  const bytes = Buffer.from(dataUrl.replace(/^data:image\/png;base64,/, ''), 'base64');
+  expect([...bytes.subarray(0, 8)]).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  const chunks = new Map<string, Buffer>();
+  for (let offset = 8; offset < bytes.length;) {
+    const length = bytes.readUInt32BE(offset);
+    chunks.set(bytes.toString('latin1', offset + 4, offset + 8), bytes.subarray(offset + 8, offset + 8 + length));
+    offset += 12 + length;
+  }
+  const header = chunks.get('IHDR')!;
+  return {
+    width: header.readUInt32BE(0),
+    height: header.readUInt32BE(4),
+    pixels: inflateSync(chunks.get('IDAT')!),
+    ended: chunks.has('IEND'),
+  };
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('mock provider', () => {
+  it('answers the analysis with canned beats taken from the script', async () => {
+    const streamed: (AnalyzedScene | null)[] = [];
+    const result = await settle(createMockProvider().analyzeScript(analysisRequest(3, scene => streamed.push(scene))));
+
+    expect(result).toMatchObject({ projectTitle: 'Harbour Town', projectStyle: 'Ink wash' });
+    expect(result.scenes).toHaveLength(3);
+    expect(result.scenes[1]).toMatchObject({
+      id: 'mock-0-2',
+      sceneNumber: 2,
+      title: 'EXT. HARBOUR - DAWN',
+      description: 'EXT. HARBOUR - DAWN Fishing boats come in through the fog.',
+      imagePrompt: 'Ink wash still frame. EXT. HARBOUR - DAWN Fishing boats come in through the fog.',
+      sourceStart: 'EXT. HARBOUR - DAWN',
+      sourceEnd: 'Fishing boats come in through the fog.',
+    });
+    expect(result.scenes[1].cinematography).toMatchObject({ timeOfDay: 'dawn', location: 'HARBOUR' });
+    expect(streamed).toEqual(result.scenes);
+  });
+
+  it('paints a placeholder frame that decodes as a PNG of the tone profile aspect ratio', async () => {
+    const { dataUrl } = await settle(createMockProvider().generateImage({ prompt: 'Boats in fog', seed: 7, references: [], tone: TONE }));
+    const png = decodePng(dataUrl);
+
+    expect(png).toMatchObject({ width: 320, height: 180, ended: true });
+    expect(png.pixels).toHaveLength((png.width * 3 + 1) * png.height);
+  });
+
+  it('gives the same answer for the same input', async () => {
+    const provider = createMockProvider();
+    const image = (prompt: string, seed: number) => settle(provider.generateImage({ prompt, seed, references: [], tone: TONE }));
+
+    expect(await settle(provider.analyzeScript(analysisRequest(3)))).toEqual(await settle(provider.analyzeScript(analysisRequest(3))));
+    expect(await settle(provider.suggestStyle('Harbour Town'))).toBe(await settle(provider.suggestStyle('Harbour Town')));
+    const frame = (await image('Boats in fog', 7)).dataUrl;
+    expect((await image('Boats in fog', 7)).dataUrl).toBe(frame);
+    expect((await image('Boats in fog', 8)).dataUrl).not.toBe(frame);
+    expect((await image('Nets on the quay', 7)).dataUrl).not.toBe(frame);
+  });
+
+  it('flags modern terms only as whole words', async () => {
+    const beat = (sceneNumber: number, imagePrompt: string) =>
+      ({ sceneNumber, title: 'London, 1890', description: 'A street at night.', imagePrompt });
+    const findings = await settle(createMockProvider().researchPeriod({
+      beats: [beat(1, 'Constables led by a sergeant, a clerk with a ledger'), beat(2, 'A shop sign lit by an LED strip'), beat(3, 'Plastic bottles')],
+      topic: 'Victorian London',
+      style: 'Ink wash',
+    }));
+
+    expect(findings.map(finding => finding.anachronisms.map(({ term }) => term))).toEqual([[], ['LED'], ['plastic']]);
+  });
+
+  it('runs a whole script analysis end to end', async () => {
+    setModelSettings({ ...DEFAULT_MODEL_SETTINGS, provider: 'mock' });
+    const onScene = vi.fn();
+    const analysis = await settle(parseScript(SCRIPT, 'Harbour Town', 'Ink wash', TONE, 3, { onScene }));
+
+    expect(analysis.scenes.map(scene => scene.title)).toEqual(['INT. KITCHEN - NIGHT', 'EXT. HARBOUR - DAWN', 'INT. KITCHEN - DAY']);
+    expect(analysis.scenes.map(scene => scene.sceneNumber)).toEqual([1, 2, 3]);
+    expect(analysis.scenes.every(scene => scene.sourceSpan)).toBe(true);
+    expect(analysis.validation).toMatchObject({ beatsReceived: 3, beatsExpected: 3, issues: [] });
+    expect(onScene).toHaveBeenCalledTimes(3);
+  });
+});
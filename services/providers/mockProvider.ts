@@ -0,0 +1,432 @@
+import { Cinematography, TimeOfDay } from "../../types";
+import {
+  AIProvider, AnalysisRequest, AnalyzedScene, BeatCountRequest, BeatDraft, BeatDraftRequest, BibleRequest, ChunkAnalysis, ContinuityFinding, ContinuityRequest,
+  ExtractedBibleEntry, ImageRequest, ImageResult,
+  PeriodFinding, PeriodResearchRequest, PromptRewriteRequest, RefineRequest, RewrittenPrompt, SoftenedPrompt, SoftenRequest
+} from "../aiProvider";
+import { SafetyBlockError } from "../aiErrors";
+import { CAMERA_ANGLES, CAMERA_MOVEMENTS, LIGHTING_KEYS, SHOT_SIZES, TIMES_OF_DAY } from "../cinematography";
+
+/**
+ * Offline provider for development, demos and tests. Every answer is derived from the input alone,
+ * so the same script, topic and seed always produce the same beats and the same placeholder frame.
+ */
+
+const LATENCY_MS = 300;
+
+const STREAM_INTERVAL_MS = 60;
+
+const STYLES = [
+  "Raw, desaturated 35mm documentary realism",
+  "High-contrast gritty historical noir",
+  "Muted natural-light period realism",
+  "Cold, overcast handheld vérité",
+];
+
+const STOP_WORDS = new Set(['INT', 'EXT', 'EST', 'DAY', 'NIGHT', 'MORNING', 'EVENING', 'DUSK', 'DAWN', 'CONTINUOUS', 'LATER', 'SCENE', 'CUT', 'FADE', 'THE', 'AND']);
+
+// Prompts with these words are "blocked" so the safety recovery flow can be exercised offline.
+const BLOCKED_WORDS: Record<string, string> = {
+  gore: 'aftermath',
+  blood: 'dark stains',
+  bloody: 'stained',
+  corpse: 'still figure',
+  corpses: 'still figures',
+  severed: 'hidden',
+};
+
+const blockedWord = (text: string): string | undefined =>
+  text.toLowerCase().match(/[a-z]+/g)?.find(word => word in BLOCKED_WORDS);
+
+// Cancelling ends the wait the way an aborted fetch does, so callers see the same AbortError either way.
+const delay = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new DOMException("Request cancelled.", "AbortError"));
+    return;
+  }
+  const timer = setTimeout(resolve, LATENCY_MS);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException("Request cancelled.", "AbortError"));
+  }, { once: true });
+});
+
+const hash = (value: string): number => {
+  let h = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+};
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const clip = (text: string, max: number) => text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+
+// --- Minimal PNG encoder (uncompressed deflate) so placeholders need neither canvas nor network. ---
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let c = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+const adler32 = (bytes: Uint8Array): number => {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
+
+const u32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+
+const pngChunk = (type: string, data: Uint8Array): number[] => {
+  const body = new Uint8Array(4 + data.length);
+  body.set(Array.from(type, ch => ch.charCodeAt(0)));
+  body.set(data, 4);
+  return [...u32(data.length), ...body, ...u32(crc32(body))];
+};
+
+const zlibStored = (raw: Uint8Array): Uint8Array => {
+  const out: number[] = [0x78, 0x01];
+  for (let offset = 0; offset < raw.length || offset === 0; offset += 65535) {
+    const block = raw.subarray(offset, offset + 65535);
+    const final = offset + 65535 >= raw.length ? 1 : 0;
+    out.push(final, block.length & 0xff, block.length >>> 8, ~block.length & 0xff, (~block.length >>> 8) & 0xff);
+    for (let i = 0; i < block.length; i++) out.push(block[i]);
+    if (final) break;
+  }
+  out.push(...u32(adler32(raw)));
+  return new Uint8Array(out);
+};
+
+const encodePng = (width: number, height: number, pixel: (x: number, y: number) => [number, number, number]): Uint8Array => {
+  const raw = new Uint8Array((width * 3 + 1) * height);
+  let p = 0;
+  for (let y = 0; y < height; y++) {
+    raw[p++] = 0;
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = pixel(x, y);
+      raw[p++] = r;
+      raw[p++] = g;
+      raw[p++] = b;
+    }
+  }
+  const header = new Uint8Array([...u32(width), ...u32(height), 8, 2, 0, 0, 0]);
+  return new Uint8Array([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ...pngChunk('IHDR', header),
+    ...pngChunk('IDAT', zlibStored(raw)),
+    ...pngChunk('IEND', new Uint8Array()),
+  ]);
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Paints a 16:9 frame whose palette comes from the prompt and whose band layout comes from the seed,
+ * so "Maintain Seed" visibly keeps the composition while a new prompt changes the colours.
+ */
+const placeholderFrame = (prompt: string, seed: number, aspectRatio: string): string => {
+  const palette = hash(prompt);
+  const layout = hash(String(seed));
+  const top: [number, number, number] = [palette & 0x7f, (palette >>> 8) & 0x7f, (palette >>> 16) & 0x7f];
+  const bottom: [number, number, number] = [(palette >>> 4) & 0x3f, (palette >>> 12) & 0x3f, (palette >>> 20) & 0x3f];
+  const horizon = 0.35 + ((layout & 0xff) / 255) * 0.3;
+  const bandWidth = 8 + ((layout >>> 8) & 0x1f);
+
+  // Fixed 180px height; the width follows the tone profile's aspect ratio.
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const height = 180;
+  const width = Math.round((height * w) / h) || 320;
+  const png = encodePng(width, height, (x, y) => {
+    const t = y / (height - 1);
+    const shade = x % (bandWidth * 2) < bandWidth ? 1 : 0.85;
+    const ground = t > horizon ? 0.6 : 1;
+    return [0, 1, 2].map(i => Math.round((top[i] * (1 - t) + bottom[i] * t) * shade * ground + 20)) as [number, number, number];
+  });
+  return `data:image/png;base64,${toBase64(png)}`;
+};
+
+// --- Canned text answers ---
+
+const suggestStyle = async (topic: string, signal?: AbortSignal): Promise<string> => {
+  await delay(signal);
+  return STYLES[hash(topic) % STYLES.length];
+};
+
+const SLUGLINE = /^(?:SCENE [\w.]+:\s*)?((?:INT|EXT|EST|I\/E)[^\n]*)/m;
+
+// Picks stable values from the option lists so filters and the prompt directive have something to work on.
+const cannedCinematography = (key: string, heading?: string): Cinematography => {
+  const h = hash(key);
+  const time = heading?.match(/\b(DAWN|DAY|DUSK|NIGHT)\b/i)?.[1].toLowerCase() as TimeOfDay | undefined;
+  return {
+    shotSize: SHOT_SIZES[h % SHOT_SIZES.length].value,
+    cameraAngle: CAMERA_ANGLES[(h >>> 3) % CAMERA_ANGLES.length].value,
+    lens: ['24mm', '35mm', '50mm', '85mm'][(h >>> 6) % 4],
+    movement: CAMERA_MOVEMENTS[(h >>> 8) % CAMERA_MOVEMENTS.length].value,
+    lighting: LIGHTING_KEYS[(h >>> 11) % LIGHTING_KEYS.length].value,
+    timeOfDay: time ?? TIMES_OF_DAY[(h >>> 14) % TIMES_OF_DAY.length].value,
+    location: heading?.replace(/^(INT\.?\/EXT|EXT|INT|EST|I\/E)\.?\s*/i, '').split(/\s+-\s+/)[0],
+  };
+};
+
+const analyzeScript = async ({ chunk: scriptChunk, topic, style, onScene, signal }: AnalysisRequest): Promise<ChunkAnalysis> => {
+  await delay(signal);
+  const paragraphs = scriptChunk.text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+  const source = paragraphs.length ? paragraphs : [topic];
+
+  const scenes = Array.from({ length: scriptChunk.frameCount }, (_, i) => {
+    const start = Math.floor((i * source.length) / scriptChunk.frameCount);
+    const end = Math.max(start + 1, Math.floor(((i + 1) * source.length) / scriptChunk.frameCount));
+    const passage = source.slice(start, end).join('\n');
+    const lines = passage.split('\n').filter(line => line.trim());
+    const heading = passage.match(SLUGLINE)?.[1]?.trim();
+    const description = clip(collapse(passage), 240);
+    return {
+      id: `mock-${scriptChunk.index}-${i + 1}`,
+      sceneNumber: i + 1,
+      title: clip(heading ?? collapse(passage).split(' ').slice(0, 6).join(' '), 60),
+      description,
+      imagePrompt: `${style} still frame. ${description}`,
+      cinematography: cannedCinematography(`${scriptChunk.index}-${i}`, heading),
+      sourceStart: lines[0],
+      sourceEnd: lines[lines.length - 1],
+    };
+  });
+
+  // Beats trickle out one by one, like a streamed response, so progressive display and cancelling can be tried offline.
+  for (const scene of scenes) {
+    if (signal?.aborted) throw new DOMException("Analysis cancelled.", "AbortError");
+    await new Promise(resolve => setTimeout(resolve, STREAM_INTERVAL_MS));
+    onScene?.(scene);
+  }
+
+  return {
+    projectTitle: topic,
+    projectStyle: style,
+    summary: clip(collapse(scriptChunk.text), 300),
+    scenes,
+  };
+};
+
+// Short chunks get continuation beats after the last one; long ones have their final beats merged pairwise.
+const reconcileBeats = async ({ chunk, scenes, style, signal }: BeatCountRequest): Promise<AnalyzedScene[]> => {
+  await delay(signal);
+  const beats = [...scenes];
+  while (beats.length > Math.max(1, chunk.frameCount)) {
+    const last = beats.pop()!;
+    const previous = beats.pop()!;
+    const description = clip(`${previous.description} ${last.description}`, 240);
+    beats.push({ ...previous, description, imagePrompt: `${style} still frame. ${description}`, sourceEnd: last.sourceEnd });
+  }
+  for (let i = beats.length; i < chunk.frameCount; i++) {
+    const anchor = beats[beats.length - 1];
+    const description = anchor ? `The moment after "${anchor.title}".` : clip(collapse(chunk.text), 240);
+    beats.push({
+      id: `mock-${chunk.index}-fill-${i + 1}`,
+      sceneNumber: i + 1,
+      title: anchor ? clip(`After ${anchor.title}`, 60) : `Beat ${i + 1}`,
+      description,
+      imagePrompt: `${style} still frame. ${description}`,
+      cinematography: cannedCinematography(`${chunk.index}-fill-${i}`),
+      sourceStart: anchor?.sourceEnd,
+      sourceEnd: anchor?.sourceEnd,
+    });
+  }
+  return beats.map((beat, i) => ({ ...beat, sceneNumber: i + 1 }));
+};
+
+const extractBible = async ({ scenes, signal }: BibleRequest): Promise<ExtractedBibleEntry[]> => {
+  await delay(signal);
+  const characters = new Map<string, number[]>();
+  const locations = new Map<string, number[]>();
+  const add = (map: Map<string, number[]>, name: string, sceneNumber: number) => {
+    const list = map.get(name) ?? [];
+    if (!list.includes(sceneNumber)) list.push(sceneNumber);
+    map.set(name, list);
+  };
+
+  scenes.forEach(scene => {
+    const location = scene.title.match(/^(?:INT|EXT|EST|I\/E)[.\s/]*(?:EXT[.\s]*)?([^-–]+)/i)?.[1]?.trim();
+    if (location) add(locations, location.toUpperCase(), scene.sceneNumber);
+    (`${scene.title} ${scene.description}`.match(/\b[A-Z][A-Z'-]{2,}\b/g) ?? [])
+      .filter(word => !STOP_WORDS.has(word) && !location?.toUpperCase().includes(word))
+      .forEach(word => add(characters, word, scene.sceneNumber));
+  });
+
+  const entries = (map: Map<string, number[]>, kind: ExtractedBibleEntry['kind']): ExtractedBibleEntry[] =>
+    Array.from(map.entries())
+      .filter(([, sceneNumbers]) => kind === 'location' || sceneNumbers.length > 1)
+      .map(([name, sceneNumbers]) => ({
+        kind,
+        name,
+        sceneNumbers,
+        description: kind === 'character'
+          ? `${name}: placeholder character description generated offline.`
+          : `${name}: placeholder location description generated offline.`,
+      }));
+
+  return [...entries(characters, 'character'), ...entries(locations, 'location')];
+};
+
+const draftBeat = async ({ before, after, style, signal }: BeatDraftRequest): Promise<BeatDraft> => {
+  await delay(signal);
+  const from = before?.title ?? 'Opening';
+  const to = after?.title ?? 'Closing';
+  const description = `Bridging moment between "${from}" and "${to}".`;
+  return {
+    title: `Between ${clip(from, 24)} and ${clip(to, 24)}`,
+    description,
+    imagePrompt: `${style} still frame. ${description}`,
+    cinematography: cannedCinematography(description),
+  };
+};
+
+const generateImage = async ({ prompt, seed, references, tone, signal }: ImageRequest): Promise<ImageResult> => {
+  await delay(signal);
+  const blocked = blockedWord(prompt);
+  if (blocked) throw new SafetyBlockError('SAFETY', `the offline provider blocks the word "${blocked}"`);
+  const continuity = references.map(({ entry }) => `${entry.name}: ${entry.description}`).join('\n');
+  return {
+    dataUrl: placeholderFrame(prompt, seed, tone.aspectRatio),
+    fullPrompt: [tone.imagePreamble, prompt, continuity].filter(Boolean).join('\n'),
+    model: 'mock',
+    seed,
+  };
+};
+
+// The source image is ignored; a fresh placeholder keyed by the instruction makes each refinement visibly distinct.
+const refineImage = async ({ mask, instruction, seed, tone, signal }: RefineRequest): Promise<ImageResult> => {
+  await delay(signal);
+  return {
+    dataUrl: placeholderFrame(instruction, seed, tone.aspectRatio),
+    fullPrompt: `${mask ? 'MASKED EDIT' : 'EDIT'}: ${instruction}`,
+    model: 'mock',
+    seed,
+  };
+};
+
+const softenPrompt = async ({ prompt, signal }: SoftenRequest): Promise<SoftenedPrompt> => {
+  await delay(signal);
+  const replaced = new Set<string>();
+  const softened = prompt.replace(/[A-Za-z]+/g, word => {
+    const replacement = BLOCKED_WORDS[word.toLowerCase()];
+    if (!replacement) return word;
+    replaced.add(word.toLowerCase());
+    return replacement;
+  });
+  return {
+    prompt: softened,
+    changes: replaced.size ? `Replaced ${Array.from(replaced).map(word => `"${word}"`).join(', ')}.` : 'Nothing needed softening.',
+  };
+};
+
+// Appends the note to the prompt, so the diff view has a visible change to show offline.
+const rewritePrompt = async ({ scene, instruction, signal }: PromptRewriteRequest): Promise<RewrittenPrompt> => {
+  await delay(signal);
+  const note = collapse(instruction).replace(/[.\s]+$/, '');
+  return {
+    prompt: note ? `${scene.imagePrompt.trim().replace(/[.\s]*$/, '.')} ${note.charAt(0).toUpperCase()}${note.slice(1)}.` : scene.imagePrompt,
+    notes: note ? `Appended "${note}" to the prompt.` : 'No note given, so nothing changed.',
+  };
+};
+
+// Frames are not looked at; neighbours in the same location whose planned time of day or lighting differ are reported.
+const checkContinuity = async ({ frames, signal }: ContinuityRequest): Promise<ContinuityFinding[]> => {
+  await delay(signal);
+  return frames.slice(1).flatMap((frame, i): ContinuityFinding[] => {
+    const previous = frames[i];
+    const [a, b] = [previous.cinematography, frame.cinematography];
+    if (!a || !b || (a.location ?? '') !== (b.location ?? '')) return [];
+    const base = frame.imagePrompt.trim().replace(/[.\s]*$/, '.');
+    if (a.timeOfDay && b.timeOfDay && a.timeOfDay !== b.timeOfDay) {
+      return [{
+        type: 'time-of-day',
+        severity: 'medium',
+        sceneNumbers: [previous.sceneNumber, frame.sceneNumber],
+        description: `Beat ${frame.sceneNumber} is lit for ${b.timeOfDay} but beat ${previous.sceneNumber}, in the same place, for ${a.timeOfDay}.`,
+        fixSceneNumber: frame.sceneNumber,
+        suggestedPrompt: `${base} Same ${a.timeOfDay} light as the previous frame.`,
+      }];
+    }
+    if (a.lighting && b.lighting && a.lighting !== b.lighting) {
+      return [{
+        type: 'lighting',
+        severity: 'low',
+        sceneNumbers: [previous.sceneNumber, frame.sceneNumber],
+        description: `Lighting changes from ${a.lighting} to ${b.lighting} between beats ${previous.sceneNumber} and ${frame.sceneNumber}.`,
+        fixSceneNumber: frame.sceneNumber,
+        suggestedPrompt: `${base} Keep the ${a.lighting} lighting of the previous frame.`,
+      }];
+    }
+    return [];
+  });
+};
+
+// Modern things a period prompt might slip in, with the year they became common and a period stand-in.
+const MODERN_TERMS: { term: string; since: number; correction: string }[] = [
+  { term: 'smartphone', since: 2007, correction: 'folded letter' },
+  { term: 'laptop', since: 1985, correction: 'ledger' },
+  { term: 'digital watch', since: 1972, correction: 'pocket watch' },
+  { term: 'LED', since: 1995, correction: 'oil lamp' },
+  { term: 'drone', since: 2010, correction: 'distant bird' },
+  { term: 'ballpoint', since: 1945, correction: 'fountain pen' },
+  { term: 'helicopter', since: 1944, correction: 'biplane' },
+  { term: 'plastic', since: 1930, correction: 'tin' },
+  { term: 'neon', since: 1925, correction: 'gas-lit' },
+  { term: 'zipper', since: 1925, correction: 'buttoned' },
+  { term: 'sneakers', since: 1920, correction: 'leather boots' },
+];
+
+// Whole words only, and acronyms only in capitals, so "led the charge" or "ledger" is not read as LED.
+const mentions = (prompt: string, term: string) =>
+  new RegExp(`\\b${term}\\b`, term === term.toUpperCase() ? '' : 'i').test(prompt);
+
+// The era is the first four-digit year in the beat or topic; without one there is nothing to date the prompt against.
+const researchPeriod = async ({ beats, topic, signal }: PeriodResearchRequest): Promise<PeriodFinding[]> => {
+  await delay(signal);
+  return beats.map(beat => {
+    const year = Number(`${beat.title} ${beat.description} ${topic}`.match(/\b(1[0-9]{3})s?\b/)?.[1]) || undefined;
+    const era = year ? `${Math.floor(year / 10) * 10}s` : 'Period not stated';
+    return {
+      sceneNumber: beat.sceneNumber,
+      era,
+      region: beat.cinematography?.location ?? 'Unspecified',
+      clothing: `Offline placeholder: clothing typical of the ${era}.`,
+      technology: `Offline placeholder: technology available in the ${era}.`,
+      architecture: `Offline placeholder: buildings typical of the ${era}.`,
+      anachronisms: year
+        ? MODERN_TERMS
+          .filter(({ term, since }) => since > year && mentions(beat.imagePrompt, term))
+          .map(({ term, since, correction }) => ({
+            term,
+            explanation: `"${term}" dates from around ${since}, after this ${era} setting.`,
+            correction,
+          }))
+        : [],
+    };
+  });
+};
+
+export const createMockProvider = (): AIProvider => ({
+  suggestStyle, analyzeScript, reconcileBeats, extractBible, draftBeat, generateImage, refineImage, softenPrompt, rewritePrompt, checkContinuity,
+  researchPeriod,
+});
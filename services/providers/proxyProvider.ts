@@ -0,0 +1,76 @@
+import { AIProvider, AnalysisRequest, ChunkAnalysis, ModelIds } from "../aiProvider";
+import { deserializeAIError, EmptyResponseError, MalformedResponseError } from "../aiErrors";
+import { AnalysisStreamEvent, PROXY_ROUTES, ProxyErrorBody, ProxyMethod, ProxyRequestBody, StyleRequest } from "../proxyProtocol";
+
+/**
+ * Talks to the API proxy in server/, which holds the Gemini key and calls the real provider. Errors come
+ * back already typed, so callers see the same failures as if the provider ran locally.
+ */
+export const createProxyProvider = ({ textModel, analysisModel, imageModel }: ModelIds, baseUrl: string): AIProvider => {
+  const models: ModelIds = { textModel, analysisModel, imageModel };
+
+  const send = async (method: ProxyMethod, request: unknown, signal?: AbortSignal): Promise<Response> => {
+    const body: ProxyRequestBody<unknown> = { models, request };
+    const response = await fetch(`${baseUrl}/${PROXY_ROUTES[method]}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      const payload = await response.json().catch(() => null) as ProxyErrorBody | null;
+      throw payload?.error
+        ? deserializeAIError(payload.error)
+        : deserializeAIError({ kind: response.status === 429 ? 'rate-limit' : 'network', message: `API proxy answered ${response.status}.` });
+    }
+    return response;
+  };
+
+  // The signal stays here and cancels the fetch; the proxy aborts its upstream call when the connection closes.
+  const call = <T, R extends { signal?: AbortSignal } = { signal?: AbortSignal }>(method: ProxyMethod) =>
+    async ({ signal, ...request }: R): Promise<T> => {
+      const response = await send(method, request, signal);
+      return response.json() as Promise<T>;
+    };
+
+  const analyzeScript = async ({ onScene, signal, ...request }: AnalysisRequest): Promise<ChunkAnalysis> => {
+    const response = await send('analyzeScript', request, signal);
+    if (!response.body) throw new EmptyResponseError('API proxy');
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let pending = '';
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      pending += value;
+      const lines = pending.split('\n');
+      pending = lines.pop() ?? '';
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        let event: AnalysisStreamEvent;
+        try {
+          event = JSON.parse(line);
+        } catch (err) {
+          throw new MalformedResponseError('API proxy', err);
+        }
+        if ('scene' in event) onScene?.(event.scene);
+        else if ('error' in event) throw deserializeAIError(event.error);
+        else return event.result;
+      }
+    }
+    throw new EmptyResponseError('API proxy');
+  };
+
+  return {
+    suggestStyle: (topic, signal) => call<string, StyleRequest & { signal?: AbortSignal }>('suggestStyle')({ topic, signal }),
+    analyzeScript,
+    reconcileBeats: call('reconcileBeats'),
+    extractBible: call('extractBible'),
+    draftBeat: call('draftBeat'),
+    generateImage: call('generateImage'),
+    refineImage: call('refineImage'),
+    softenPrompt: call('softenPrompt'),
+    rewritePrompt: call('rewritePrompt'),
+    checkContinuity: call('checkContinuity'),
+    researchPeriod: call('researchPeriod'),
+  };
+};
@@ -0,0 +1,46 @@
+import { AIProvider, AnalysisRequest, AnalyzedScene, BeatCountRequest, ChunkAnalysis, ModelIds } from "./aiProvider";
+import { SerializedAIError } from "./aiErrors";
+
+/**
+ * The wire format between the browser (providers/proxyProvider) and the API proxy (server/). Each provider
+ * method is one POST route; the body carries the model ids from the user's settings plus the request.
+ */
+export const PROXY_ROUTES = {
+  suggestStyle: 'style',
+  analyzeScript: 'analyze',
+  reconcileBeats: 'reconcile',
+  extractBible: 'bible',
+  draftBeat: 'draft',
+  generateImage: 'image',
+  refineImage: 'refine',
+  softenPrompt: 'soften',
+  rewritePrompt: 'rewrite',
+  checkContinuity: 'continuity',
+  researchPeriod: 'research',
+} as const satisfies Record<keyof AIProvider, string>;
+
+export type ProxyMethod = keyof typeof PROXY_ROUTES;
+
+export interface ProxyRequestBody<T> {
+  models: ModelIds;
+  request: T;
+}
+
+export interface StyleRequest {
+  topic: string;
+}
+
+// Callbacks and the abort signal stay in the browser; cancelling closes the connection instead.
+export type WireAnalysisRequest = Omit<AnalysisRequest, 'onScene' | 'signal'>;
+
+export type WireBeatCountRequest = Omit<BeatCountRequest, 'signal'>;
+
+// Analysis answers with newline-delimited JSON: one line per beat as it streams, then the result or an error.
+export type AnalysisStreamEvent =
+  | { scene: AnalyzedScene | null }
+  | { result: ChunkAnalysis }
+  | { error: SerializedAIError };
+
+export interface ProxyErrorBody {
+  error: SerializedAIError;
+}
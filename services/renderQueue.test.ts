@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RenderQueueState, Scene } from '../types';
+import { RateLimitError } from './aiErrors';
+import { createRenderQueue, isRateLimitError } from './renderQueue';
+
+const scenes = (count: number): Scene[] =>
+  Array.from({ length: count }, (_, i) => ({ id: `s${i + 1}`, sceneNumber: i + 1, title: '', description: '', imagePrompt: '' }) as Scene);
+
+// A render that stays in flight until the test settles it.
+const controllableRender = () => {
+  const pending = new Map<string, { resolve: () => void; reject: (err: unknown) => void }>();
+  const render = vi.fn((sceneId: string) => new Promise<void>((resolve, reject) => pending.set(sceneId, { resolve, reject })));
+  return { render, pending };
+};
+
+const statuses = (state: RenderQueueState) => state.jobs.map(job => job.status);
+
+describe('isRateLimitError', () => {
+  it('recognises typed and message-only rate limits', () => {
+    expect(isRateLimitError(new RateLimitError())).toBe(true);
+    expect(isRateLimitError(new Error('429 RESOURCE_EXHAUSTED'))).toBe(true);
+    expect(isRateLimitError(new Error('Invalid prompt'))).toBe(false);
+  });
+});
+
+describe('createRenderQueue', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('keeps no more renders in flight than the concurrency allows', async () => {
+    const { render, pending } = controllableRender();
+    const queue = createRenderQueue(render, { concurrency: 2, onChange: () => {} });
+    queue.enqueue(scenes(4));
+    expect(render).toHaveBeenCalledTimes(2);
+
+    pending.get('s1')!.resolve();
+    await vi.runAllTimersAsync();
+    expect(render).toHaveBeenCalledTimes(3);
+    ['s2', 's3'].forEach(id => pending.get(id)!.resolve());
+    await vi.runAllTimersAsync();
+    pending.get('s4')!.resolve();
+    await vi.runAllTimersAsync();
+
+    expect(statuses(queue.getState())).toEqual(['done', 'done', 'done', 'done']);
+    expect(queue.getState().isRunning).toBe(false);
+  });
+
+  it('retries rate-limited renders with backoff and fails other errors at once', async () => {
+    let calls = 0;
+    const render = vi.fn(async (sceneId: string) => {
+      if (sceneId === 's2') throw new Error('Invalid prompt');
+      if (++calls < 3) throw new RateLimitError();
+    });
+    const queue = createRenderQueue(render, { concurrency: 2, baseDelayMs: 1000, onChange: () => {} });
+    queue.enqueue(scenes(2));
+    await vi.runAllTimersAsync();
+
+    const [first, second] = queue.getState().jobs;
+    expect(first).toMatchObject({ status: 'done', attempts: 3 });
+    expect(second).toMatchObject({ status: 'failed', attempts: 1, error: 'Invalid prompt' });
+  });
+
+  it('gives up on rate limits after maxRetries', async () => {
+    const queue = createRenderQueue(async () => { throw new RateLimitError(); }, { concurrency: 1, maxRetries: 2, baseDelayMs: 10, onChange: () => {} });
+    queue.enqueue(scenes(1));
+    await vi.runAllTimersAsync();
+    expect(queue.getState().jobs[0]).toMatchObject({ status: 'failed', attempts: 3 });
+  });
+
+  it('cancels queued jobs and lets renders in flight finish', async () => {
+    const { render, pending } = controllableRender();
+    const queue = createRenderQueue(render, { concurrency: 1, onChange: () => {} });
+    queue.enqueue(scenes(3));
+    queue.cancel();
+    expect(statuses(queue.getState())).toEqual(['rendering', 'cancelled', 'cancelled']);
+    expect(queue.getState().isRunning).toBe(true);
+
+    pending.get('s1')!.resolve();
+    await vi.runAllTimersAsync();
+    expect(statuses(queue.getState())).toEqual(['done', 'cancelled', 'cancelled']);
+    expect(queue.getState().isRunning).toBe(false);
+    expect(render).toHaveBeenCalledTimes(1);
+  });
+
+  it('marks a job cancelled, not failed, when cancel lands during the backoff wait', async () => {
+    const queue = createRenderQueue(async () => { throw new RateLimitError(); }, { concurrency: 1, baseDelayMs: 1000, onChange: () => {} });
+    queue.enqueue(scenes(1));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(statuses(queue.getState())).toEqual(['retrying']);
+    queue.cancel();
+    await vi.runAllTimersAsync();
+    expect(queue.getState().jobs[0]).toMatchObject({ status: 'cancelled', error: undefined });
+  });
+
+  it('requeues failed and cancelled jobs on retry', async () => {
+    let fail = true;
+    const queue = createRenderQueue(async () => { if (fail) throw new Error('boom'); }, { concurrency: 1, onChange: () => {} });
+    queue.enqueue(scenes(2));
+    await vi.runAllTimersAsync();
+    expect(statuses(queue.getState())).toEqual(['failed', 'failed']);
+
+    fail = false;
+    queue.retryFailed();
+    await vi.runAllTimersAsync();
+    expect(queue.getState().jobs).toMatchObject([{ status: 'done', attempts: 1 }, { status: 'done', attempts: 1 }]);
+  });
+
+  it('holds queued work while paused', async () => {
+    const { render, pending } = controllableRender();
+    const queue = createRenderQueue(render, { concurrency: 1, onChange: () => {} });
+    queue.enqueue(scenes(2));
+    queue.pause();
+    pending.get('s1')!.resolve();
+    await vi.runAllTimersAsync();
+    expect(render).toHaveBeenCalledTimes(1);
+    queue.resume();
+    expect(render).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,134 @@
+import { RenderJob, RenderQueueState, Scene } from "../types";
+import { RateLimitError } from "./aiErrors";
+
+export interface RenderQueueOptions {
+  concurrency: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  onChange: (state: RenderQueueState) => void;
+}
+
+export interface RenderQueue {
+  enqueue: (scenes: Scene[]) => void;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  retryFailed: () => void;
+  setConcurrency: (concurrency: number) => void;
+  getState: () => RenderQueueState;
+}
+
+export const isRateLimitError = (err: unknown): boolean => {
+  if (err instanceof RateLimitError) return true;
+  const message = err instanceof Error ? err.message : String(err);
+  return /429|RESOURCE_EXHAUSTED|rate.?limit|quota/i.test(message);
+};
+
+const isPending = (job: RenderJob) => job.status === 'queued' || job.status === 'rendering' || job.status === 'retrying';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs scene renders with a bounded number in flight. Rate-limit failures are retried with
+ * exponential backoff; any other failure marks the job as failed so it can be retried in bulk.
+ * Cancelling stops new work but lets renders already in flight finish.
+ */
+export const createRenderQueue = (
+  render: (sceneId: string) => Promise<void>,
+  { concurrency, maxRetries = 5, baseDelayMs = 2000, onChange }: RenderQueueOptions
+): RenderQueue => {
+  let state: RenderQueueState = { jobs: [], isRunning: false, isPaused: false, concurrency };
+  let active = 0;
+  let cancelRequested = false;
+
+  const emit = (patch: Partial<RenderQueueState>) => {
+    state = { ...state, ...patch };
+    onChange(state);
+  };
+
+  const updateJob = (sceneId: string, patch: Partial<RenderJob>) => {
+    emit({ jobs: state.jobs.map(job => job.sceneId === sceneId ? { ...job, ...patch } : job) });
+  };
+
+  const runJob = async (job: RenderJob) => {
+    active++;
+    let attempts = job.attempts;
+    updateJob(job.sceneId, { status: 'rendering', error: undefined });
+    while (true) {
+      attempts++;
+      try {
+        await render(job.sceneId);
+        updateJob(job.sceneId, { status: 'done', attempts });
+        break;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        if (!cancelRequested && isRateLimitError(err) && attempts <= maxRetries) {
+          updateJob(job.sceneId, { status: 'retrying', attempts, error: message });
+          await wait(baseDelayMs * 2 ** (attempts - 1) + Math.random() * 500);
+          if (!cancelRequested) continue;
+          // Cancelled while waiting out the backoff: that is the user's doing, not a render failure.
+          updateJob(job.sceneId, { status: 'cancelled', attempts, error: undefined });
+          break;
+        }
+        updateJob(job.sceneId, { status: 'failed', attempts, error: message });
+        break;
+      }
+    }
+    active--;
+    pump();
+  };
+
+  const pump = () => {
+    if (!state.isRunning || state.isPaused) return;
+    while (active < state.concurrency) {
+      const next = state.jobs.find(job => job.status === 'queued');
+      if (!next) break;
+      runJob(next);
+    }
+    if (active === 0 && !state.jobs.some(job => job.status === 'queued')) {
+      emit({ isRunning: false });
+    }
+  };
+
+  return {
+    enqueue: (scenes) => {
+      const busy = new Set(state.jobs.filter(isPending).map(job => job.sceneId));
+      const fresh: RenderJob[] = scenes
+        .filter(scene => !busy.has(scene.id))
+        .map(scene => ({ sceneId: scene.id, sceneNumber: scene.sceneNumber, status: 'queued', attempts: 0 }));
+      const freshIds = new Set(fresh.map(job => job.sceneId));
+      // A new batch on an idle queue replaces the previous report; while running, jobs are appended.
+      const previous = state.isRunning ? state.jobs.filter(job => !freshIds.has(job.sceneId)) : [];
+      cancelRequested = false;
+      emit({ jobs: [...previous, ...fresh], isRunning: true });
+      pump();
+    },
+    pause: () => emit({ isPaused: true }),
+    resume: () => {
+      emit({ isPaused: false });
+      pump();
+    },
+    cancel: () => {
+      cancelRequested = true;
+      emit({
+        isPaused: false,
+        jobs: state.jobs.map(job => job.status === 'queued' ? { ...job, status: 'cancelled' } : job),
+      });
+      emit({ isRunning: active > 0 });
+    },
+    retryFailed: () => {
+      cancelRequested = false;
+      emit({
+        jobs: state.jobs.map(job => job.status === 'failed' || job.status === 'cancelled' ? { ...job, status: 'queued', attempts: 0, error: undefined } : job),
+        isRunning: true,
+        isPaused: false,
+      });
+      pump();
+    },
+    setConcurrency: (value) => {
+      emit({ concurrency: Math.max(1, value) });
+      pump();
+    },
+    getState: () => state,
+  };
+};
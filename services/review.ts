@@ -0,0 +1,74 @@
+import { ReviewComment, ReviewStatus, Scene, SceneReview, ScriptAnalysis } from "../types";
+import { Option } from "./cinematography";
+
+export const REVIEW_STATUSES: Option<ReviewStatus>[] = [
+  { value: 'draft', label: 'Draft' },
+  { value: 'in-review', label: 'In Review' },
+  { value: 'needs-changes', label: 'Needs Changes' },
+  { value: 'approved', label: 'Approved' },
+];
+
+export const reviewStatusOf = (scene: Pick<Scene, 'review'>): ReviewStatus => scene.review?.status ?? 'draft';
+
+export interface CommentThread {
+  comment: ReviewComment;
+  replies: ReviewComment[];
+}
+
+// Replies whose parent has gone are shown as threads of their own rather than lost.
+export const commentThreads = (comments: ReviewComment[]): CommentThread[] => {
+  const ids = new Set(comments.map(comment => comment.id));
+  return comments
+    .filter(comment => !comment.parentId || !ids.has(comment.parentId))
+    .map(comment => ({ comment, replies: comments.filter(reply => reply.parentId === comment.id) }));
+};
+
+export const openThreadCount = (scene: Scene): number =>
+  commentThreads(scene.review?.comments ?? []).filter(thread => !thread.comment.resolved).length;
+
+const updateReview = (analysis: ScriptAnalysis, sceneId: string, edit: (review: SceneReview) => SceneReview): ScriptAnalysis => ({
+  ...analysis,
+  scenes: analysis.scenes.map(scene => scene.id === sceneId
+    ? { ...scene, review: edit(scene.review ?? { status: 'draft', comments: [] }) }
+    : scene),
+});
+
+export const setReviewStatus = (analysis: ScriptAnalysis, sceneId: string, status: ReviewStatus, author: string): ScriptAnalysis =>
+  updateReview(analysis, sceneId, review => ({ ...review, status, statusChangedAt: Date.now(), statusChangedBy: author }));
+
+export const addReviewComment = (analysis: ScriptAnalysis, sceneId: string, comment: ReviewComment): ScriptAnalysis =>
+  updateReview(analysis, sceneId, review => ({ ...review, comments: [...review.comments, comment] }));
+
+export const updateReviewComment = (
+  analysis: ScriptAnalysis,
+  sceneId: string,
+  commentId: string,
+  patch: Partial<Pick<ReviewComment, 'text' | 'resolved'>>
+): ScriptAnalysis =>
+  updateReview(analysis, sceneId, review => ({
+    ...review,
+    comments: review.comments.map(comment => comment.id === commentId ? { ...comment, ...patch } : comment),
+  }));
+
+// Deleting a comment takes its replies with it.
+export const deleteReviewComment = (analysis: ScriptAnalysis, sceneId: string, commentId: string): ScriptAnalysis =>
+  updateReview(analysis, sceneId, review => ({
+    ...review,
+    comments: review.comments.filter(comment => comment.id !== commentId && comment.parentId !== commentId),
+  }));
+
+export interface ReviewSummary {
+  counts: Record<ReviewStatus, number>;
+  openThreads: number;
+  total: number;
+}
+
+export const summarizeReview = (scenes: Scene[]): ReviewSummary => {
+  const counts: Record<ReviewStatus, number> = { 'draft': 0, 'in-review': 0, 'needs-changes': 0, 'approved': 0 };
+  scenes.forEach(scene => counts[reviewStatusOf(scene)]++);
+  return {
+    counts,
+    openThreads: scenes.reduce((sum, scene) => sum + openThreadCount(scene), 0),
+    total: scenes.length,
+  };
+};
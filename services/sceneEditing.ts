@@ -0,0 +1,190 @@
+import { FrameAnnotations, Scene, ScriptAnalysis, Take } from "../types";
+import { createId } from "./storageService";
+
+// Pure edits over a ScriptAnalysis. Every operation returns a new analysis with sceneNumbers renumbered 1..n.
+
+const renumber = (scenes: Scene[]): Scene[] => scenes.map((scene, i) => (
+  scene.sceneNumber === i + 1 ? scene : { ...scene, sceneNumber: i + 1 }
+));
+
+const withScenes = (analysis: ScriptAnalysis, scenes: Scene[]): ScriptAnalysis => ({ ...analysis, scenes: renumber(scenes) });
+
+export const updateSceneFields = (
+  analysis: ScriptAnalysis,
+  sceneId: string,
+  patch: Partial<Pick<Scene, 'title' | 'description' | 'imagePrompt' | 'cinematography' | 'toneProfileId'>>
+): ScriptAnalysis => ({
+  ...analysis,
+  scenes: analysis.scenes.map(scene => scene.id === sceneId ? { ...scene, ...patch } : scene),
+});
+
+// Replaces a beat's prompt and keeps the one it replaced in the beat's revision history.
+export const reviseScenePrompt = (analysis: ScriptAnalysis, sceneId: string, imagePrompt: string, instruction: string): ScriptAnalysis => ({
+  ...analysis,
+  scenes: analysis.scenes.map(scene => scene.id === sceneId
+    ? {
+      ...scene,
+      imagePrompt,
+      promptRevisions: [...(scene.promptRevisions ?? []), { id: createId(), prompt: scene.imagePrompt, instruction, timestamp: Date.now() }],
+    }
+    : scene),
+});
+
+export const moveScene = (analysis: ScriptAnalysis, fromIndex: number, toIndex: number): ScriptAnalysis => {
+  if (fromIndex === toIndex) return analysis;
+  const scenes = [...analysis.scenes];
+  const [moved] = scenes.splice(fromIndex, 1);
+  scenes.splice(toIndex, 0, moved);
+  return withScenes(analysis, scenes);
+};
+
+export const createBlankScene = (): Scene => ({
+  id: createId(),
+  sceneNumber: 0,
+  title: 'New Beat',
+  description: '',
+  imagePrompt: '',
+});
+
+export const insertScene = (analysis: ScriptAnalysis, index: number, scene: Scene): ScriptAnalysis => {
+  const scenes = [...analysis.scenes];
+  scenes.splice(index, 0, scene);
+  return withScenes(analysis, scenes);
+};
+
+export const deleteScene = (analysis: ScriptAnalysis, sceneId: string): ScriptAnalysis =>
+  withScenes(analysis, analysis.scenes.filter(scene => scene.id !== sceneId));
+
+// Splits at the sentence boundary nearest the middle, falling back to the nearest space.
+const splitText = (text: string): [string, string] => {
+  const middle = text.length / 2;
+  const boundaries = Array.from(text.matchAll(/[.!?]\s+/g)).map(m => (m.index ?? 0) + m[0].length);
+  const spaces = Array.from(text.matchAll(/\s+/g)).map(m => m.index ?? 0);
+  const candidates = boundaries.length ? boundaries : spaces;
+  if (!candidates.length) return [text, text];
+  const cut = candidates.reduce((best, pos) => Math.abs(pos - middle) < Math.abs(best - middle) ? pos : best);
+  return [text.slice(0, cut).trim(), text.slice(cut).trim()];
+};
+
+/**
+ * Splits one beat into two halves. The rendered frame stays with the first half; the second
+ * half starts unrendered.
+ */
+export const splitScene = (analysis: ScriptAnalysis, sceneId: string): ScriptAnalysis => {
+  const index = analysis.scenes.findIndex(scene => scene.id === sceneId);
+  if (index < 0) return analysis;
+  const scene = analysis.scenes[index];
+  const [descA, descB] = splitText(scene.description);
+  const [promptA, promptB] = splitText(scene.imagePrompt);
+  const first: Scene = { ...scene, description: descA, imagePrompt: promptA };
+  const second: Scene = {
+    id: createId(),
+    sceneNumber: 0,
+    title: `${scene.title} (cont.)`,
+    description: descB,
+    imagePrompt: promptB,
+    bibleIds: scene.bibleIds,
+    cinematography: scene.cinematography,
+    sourceSpan: scene.sourceSpan,
+  };
+  const scenes = [...analysis.scenes];
+  scenes.splice(index, 1, first, second);
+  return withScenes(analysis, scenes);
+};
+
+/**
+ * Merges a beat with the one after it. The first beat's frame is kept and continuity tags are combined.
+ */
+export const mergeWithNext = (analysis: ScriptAnalysis, sceneId: string): ScriptAnalysis => {
+  const index = analysis.scenes.findIndex(scene => scene.id === sceneId);
+  if (index < 0 || index >= analysis.scenes.length - 1) return analysis;
+  const [first, second] = analysis.scenes.slice(index, index + 2);
+  const merged: Scene = {
+    ...first,
+    title: `${first.title} / ${second.title}`,
+    description: [first.description, second.description].filter(Boolean).join(' '),
+    imagePrompt: [first.imagePrompt, second.imagePrompt].filter(Boolean).join(' '),
+    bibleIds: Array.from(new Set([...(first.bibleIds ?? []), ...(second.bibleIds ?? [])])),
+    sourceSpan: first.sourceSpan && second.sourceSpan
+      ? { start: Math.min(first.sourceSpan.start, second.sourceSpan.start), end: Math.max(first.sourceSpan.end, second.sourceSpan.end) }
+      : first.sourceSpan ?? second.sourceSpan,
+  };
+  const scenes = [...analysis.scenes];
+  scenes.splice(index, 2, merged);
+  return withScenes(analysis, scenes);
+};
+
+/**
+ * Used when undo/redo restores an older snapshot: renders and takes, render flags and errors, continuity tags, period notes, review state,
+ * the bible, the animatic and the continuity report are not edit history, so they are taken from the current state rather than rolled back.
+ */
+export const reconcileLiveFields = (snapshot: ScriptAnalysis | null, current: ScriptAnalysis | null): ScriptAnalysis | null => {
+  if (!snapshot || !current) return snapshot;
+  const live = new Map(current.scenes.map(scene => [scene.id, scene]));
+  return {
+    ...snapshot,
+    bible: current.bible,
+    animatic: current.animatic,
+    continuity: current.continuity,
+    scenes: snapshot.scenes.map(scene => {
+      const now = live.get(scene.id);
+      return now
+        ? {
+          ...scene,
+          imageUrl: now.imageUrl,
+          imageId: now.imageId,
+          takes: now.takes,
+          heroTakeId: now.heroTakeId,
+          isGenerating: now.isGenerating,
+          renderError: now.renderError,
+          bibleIds: now.bibleIds,
+          periodNotes: now.periodNotes,
+          review: now.review,
+        }
+        : scene;
+    }),
+  };
+};
+
+const heroFields = (take: Take | undefined): Pick<Scene, 'heroTakeId' | 'imageId' | 'imageUrl'> => ({
+  heroTakeId: take?.id,
+  imageId: take?.imageId,
+  imageUrl: take?.imageUrl,
+});
+
+/**
+ * Adds a freshly rendered take and makes it the hero, which is what a re-render has always shown.
+ */
+export const appendTake = (analysis: ScriptAnalysis, sceneId: string, take: Take): ScriptAnalysis => ({
+  ...analysis,
+  scenes: analysis.scenes.map(scene => scene.id === sceneId
+    ? { ...scene, takes: [...(scene.takes ?? []), take], ...heroFields(take) }
+    : scene),
+});
+
+// The hero take is the frame used everywhere a scene has "its" image: exports, references, the batch queue.
+export const setHeroTake = (analysis: ScriptAnalysis, sceneId: string, takeId: string): ScriptAnalysis => ({
+  ...analysis,
+  scenes: analysis.scenes.map(scene => {
+    if (scene.id !== sceneId) return scene;
+    const take = scene.takes?.find(t => t.id === takeId);
+    return take ? { ...scene, ...heroFields(take) } : scene;
+  }),
+});
+
+export const deleteTake = (analysis: ScriptAnalysis, sceneId: string, takeId: string): ScriptAnalysis => ({
+  ...analysis,
+  scenes: analysis.scenes.map(scene => {
+    if (scene.id !== sceneId) return scene;
+    const takes = (scene.takes ?? []).filter(t => t.id !== takeId);
+    const hero = scene.heroTakeId === takeId ? takes[takes.length - 1] : takes.find(t => t.id === scene.heroTakeId);
+    return { ...scene, takes, ...heroFields(hero) };
+  }),
+});
+
+export const setTakeAnnotations = (analysis: ScriptAnalysis, sceneId: string, takeId: string, annotations: FrameAnnotations): ScriptAnalysis => ({
+  ...analysis,
+  scenes: analysis.scenes.map(scene => scene.id === sceneId
+    ? { ...scene, takes: scene.takes?.map(take => take.id === takeId ? { ...take, annotations } : take) }
+    : scene),
+});
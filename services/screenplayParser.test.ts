@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { countScenes, parseFountain, screenplayToSceneBlocks } from './screenplayParser';
+
+const SCRIPT = `Title: The Lighthouse
+Author: A. Writer
+
+INT. LIGHTHOUSE - NIGHT #1#
+
+The lamp turns. Rain hammers the glass.
+
+KEEPER (V.O.)
+(whispering)
+It never stops.
+Never.
+
+/* cut this */
+[[check the lamp model]]
+
+CUT TO:
+
+.DREAMSCAPE
+
+Fog everywhere.
+A bell, far away.
+
+> THE END <
+`;
+
+describe('parseFountain', () => {
+  const screenplay = parseFountain(SCRIPT);
+
+  it('reads the title page', () => {
+    expect(screenplay.title).toBe('The Lighthouse');
+    expect(screenplay.titlePage.author).toBe('A. Writer');
+  });
+
+  it('types every element and drops boneyard and notes', () => {
+    expect(screenplay.elements.map(e => e.type)).toEqual([
+      'scene_heading', 'action', 'character', 'parenthetical', 'dialogue', 'transition', 'scene_heading', 'action', 'centered',
+    ]);
+    expect(screenplay.elements.some(e => /cut this|lamp model/.test(e.text))).toBe(false);
+  });
+
+  it('keeps scene numbers, forced headings, multi-line dialogue and action paragraphs', () => {
+    const [heading, , character, , dialogue, , forced, action] = screenplay.elements;
+    expect(heading).toMatchObject({ text: 'INT. LIGHTHOUSE - NIGHT', sceneNumber: '1' });
+    expect(character.text).toBe('KEEPER (V.O.)');
+    expect(dialogue.text).toBe('It never stops.\nNever.');
+    expect(forced.text).toBe('DREAMSCAPE');
+    expect(action.text).toBe('Fog everywhere.\nA bell, far away.');
+    expect(countScenes(screenplay)).toBe(2);
+  });
+
+  it('does not take an all-caps line without dialogue for a character cue', () => {
+    const { elements } = parseFountain('INT. HALL - DAY\n\nBANG!\n\nSilence.');
+    expect(elements.map(e => e.type)).toEqual(['scene_heading', 'action', 'action']);
+  });
+});
+
+describe('screenplayToSceneBlocks', () => {
+  it('renders one numbered block per scene', () => {
+    const blocks = screenplayToSceneBlocks(parseFountain(SCRIPT));
+    expect(blocks).toHaveLength(2);
+    expect(blocks[0].startsWith('SCENE 1: INT. LIGHTHOUSE - NIGHT')).toBe(true);
+    expect(blocks[1].startsWith('SCENE 2: DREAMSCAPE')).toBe(true);
+  });
+
+  it('keeps text before the first heading as its own block', () => {
+    const blocks = screenplayToSceneBlocks(parseFountain('A cold open.\n\nINT. CAR - DAY\n\nEngine idles.'));
+    expect(blocks).toHaveLength(2);
+    expect(blocks[0]).toBe('A cold open.');
+  });
+});
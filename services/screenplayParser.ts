@@ -0,0 +1,199 @@
+import { Screenplay, ScriptElement } from "../types";
+
+const SCENE_HEADING = /^(?:INT|EXT|EST|INT\.?\/EXT|INT\/EXT|I\/E)[.\s]/i;
+const TRANSITION = /^[A-Z\s]+TO:$/;
+const SCENE_NUMBER = /\s*#([\w.\-]+)#\s*$/;
+
+const isBlank = (line: string | undefined) => line === undefined || line.trim() === '';
+
+const isCharacterCue = (line: string, next: string | undefined): boolean => {
+  if (isBlank(next)) return false;
+  if (line.startsWith('@')) return true;
+  // A cue is all caps once any (V.O.)-style extension is removed, and contains at least one letter.
+  const name = line.replace(/\(.*?\)/g, '').replace(/\^$/, '').trim();
+  return /[A-Z]/.test(name) && name === name.toUpperCase() && !/[a-z]/.test(name);
+};
+
+const parseTitlePage = (lines: string[]): { titlePage: Record<string, string>; bodyStart: number } => {
+  const titlePage: Record<string, string> = {};
+  if (!/^[A-Za-z ]+:/.test(lines[0] ?? '')) return { titlePage, bodyStart: 0 };
+
+  let key = '';
+  let i = 0;
+  for (; i < lines.length && !isBlank(lines[i]); i++) {
+    const match = lines[i].match(/^([A-Za-z ]+):\s*(.*)$/);
+    if (match && !/^\s{3,}|\t/.test(lines[i])) {
+      key = match[1].trim().toLowerCase();
+      titlePage[key] = match[2].trim();
+    } else if (key) {
+      titlePage[key] = [titlePage[key], lines[i].trim()].filter(Boolean).join('\n');
+    }
+  }
+  return { titlePage, bodyStart: i };
+};
+
+/**
+ * Parses Fountain (https://fountain.io) into typed elements. Boneyard and [[notes]] are dropped
+ * because they are never meant to reach the page.
+ */
+export const parseFountain = (source: string): Screenplay => {
+  const cleaned = source
+    .replace(/\r\n?/g, '\n')
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/\[\[[\s\S]*?\]\]/g, '');
+  const lines = cleaned.split('\n');
+  const { titlePage, bodyStart } = parseTitlePage(lines);
+  const elements: ScriptElement[] = [];
+
+  let i = bodyStart;
+  while (i < lines.length) {
+    const raw = lines[i];
+    const line = raw.trim();
+    const prev = lines[i - 1];
+    const next = lines[i + 1];
+
+    if (!line || line === '===') {
+      i++;
+      continue;
+    }
+
+    if (line.startsWith('#')) {
+      elements.push({ type: 'section', text: line.replace(/^#+\s*/, '') });
+    } else if (line.startsWith('=') && !line.startsWith('==')) {
+      elements.push({ type: 'synopsis', text: line.slice(1).trim() });
+    } else if (line.startsWith('>') && line.endsWith('<')) {
+      elements.push({ type: 'centered', text: line.slice(1, -1).trim() });
+    } else if (line.startsWith('>')) {
+      elements.push({ type: 'transition', text: line.slice(1).trim() });
+    } else if (line.startsWith('!')) {
+      elements.push({ type: 'action', text: line.slice(1) });
+    } else if (isBlank(prev) && ((line.startsWith('.') && !line.startsWith('..')) || SCENE_HEADING.test(line))) {
+      const numberMatch = line.match(SCENE_NUMBER);
+      const text = line.replace(SCENE_NUMBER, '').replace(/^\./, '').trim();
+      elements.push({ type: 'scene_heading', text: text.toUpperCase(), sceneNumber: numberMatch?.[1] });
+    } else if (isBlank(prev) && isBlank(next) && TRANSITION.test(line)) {
+      elements.push({ type: 'transition', text: line });
+    } else if (isBlank(prev) && isCharacterCue(line, next)) {
+      const dual = line.endsWith('^');
+      elements.push({ type: 'character', text: line.replace(/^@/, '').replace(/\^$/, '').trim(), dual: dual || undefined });
+      i++;
+      // Dialogue block runs until the next blank line.
+      while (i < lines.length && !isBlank(lines[i])) {
+        const dialogueLine = lines[i].trim();
+        if (dialogueLine.startsWith('(') && dialogueLine.endsWith(')')) {
+          elements.push({ type: 'parenthetical', text: dialogueLine });
+        } else {
+          const last = elements[elements.length - 1];
+          if (last.type === 'dialogue') {
+            last.text += `\n${dialogueLine}`;
+          } else {
+            elements.push({ type: 'dialogue', text: dialogueLine.replace(/^~/, '') });
+          }
+        }
+        i++;
+      }
+      continue;
+    } else {
+      // Consecutive action lines form one paragraph.
+      const last = elements[elements.length - 1];
+      if (last?.type === 'action' && !isBlank(prev)) {
+        last.text += `\n${raw.trimEnd()}`;
+      } else {
+        elements.push({ type: 'action', text: raw.trimEnd() });
+      }
+    }
+    i++;
+  }
+
+  return { format: 'fountain', title: titlePage.title, titlePage, elements };
+};
+
+const FDX_TYPES: Record<string, ScriptElement['type']> = {
+  'Scene Heading': 'scene_heading',
+  'Action': 'action',
+  'General': 'action',
+  'Shot': 'action',
+  'Character': 'character',
+  'Parenthetical': 'parenthetical',
+  'Dialogue': 'dialogue',
+  'Transition': 'transition',
+};
+
+const paragraphText = (paragraph: Element): string =>
+  Array.from(paragraph.getElementsByTagName('Text')).map(node => node.textContent ?? '').join('').trim();
+
+/**
+ * Parses a Final Draft .fdx file. Unknown paragraph types are kept as action so no story text is lost.
+ */
+export const parseFdx = (xml: string): Screenplay => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length) {
+    throw new Error("Final Draft file is not valid XML.");
+  }
+
+  const content = doc.getElementsByTagName('Content')[0];
+  if (!content) throw new Error("Final Draft file has no script content.");
+
+  const elements: ScriptElement[] = [];
+  Array.from(content.children).forEach(paragraph => {
+    if (paragraph.tagName !== 'Paragraph') return;
+    const text = paragraphText(paragraph);
+    if (!text) return;
+    const type = FDX_TYPES[paragraph.getAttribute('Type') ?? ''] ?? 'action';
+    elements.push({
+      type,
+      text: type === 'scene_heading' || type === 'character' ? text.toUpperCase() : text,
+      sceneNumber: type === 'scene_heading' ? paragraph.getAttribute('Number') ?? undefined : undefined,
+    });
+  });
+
+  const titlePage: Record<string, string> = {};
+  const titleParagraphs = Array.from(doc.getElementsByTagName('TitlePage')[0]?.getElementsByTagName('Paragraph') ?? [])
+    .map(paragraphText)
+    .filter(Boolean);
+  if (titleParagraphs.length) titlePage.title = titleParagraphs[0];
+
+  return { format: 'fdx', title: titlePage.title, titlePage, elements };
+};
+
+const formatElement = (element: ScriptElement): string => {
+  switch (element.type) {
+    case 'scene_heading': return element.text;
+    case 'character': return `                    ${element.text}`;
+    case 'parenthetical': return `               ${element.text}`;
+    case 'dialogue': return element.text.split('\n').map(line => `          ${line}`).join('\n');
+    case 'transition': return `                                        ${element.text}`;
+    case 'centered': return `> ${element.text} <`;
+    case 'section': return `# ${element.text}`;
+    case 'synopsis': return `= ${element.text}`;
+    default: return element.text;
+  }
+};
+
+/**
+ * Renders the screenplay back to plain text, one string per scene. Scene headings are prefixed with
+ * their number so the analyzer can refer to real scenes; anything before the first heading is its own block.
+ */
+export const screenplayToSceneBlocks = (screenplay: Screenplay): string[] => {
+  const blocks: string[][] = [];
+  let sceneIndex = 0;
+  screenplay.elements.forEach(element => {
+    if (element.type === 'scene_heading' || blocks.length === 0) blocks.push([]);
+    const current = blocks[blocks.length - 1];
+    if (element.type === 'scene_heading') {
+      sceneIndex++;
+      current.push(`SCENE ${element.sceneNumber ?? sceneIndex}: ${element.text}`);
+    } else {
+      // Dialogue hangs directly under its cue; everything else is separated by a blank line.
+      const joinTight = element.type === 'dialogue' || element.type === 'parenthetical';
+      if (current.length && !joinTight) current.push('');
+      current.push(formatElement(element));
+    }
+  });
+  return blocks.map(lines => lines.join('\n'));
+};
+
+export const screenplayToText = (screenplay: Screenplay): string => screenplayToSceneBlocks(screenplay).join('\n\n');
+
+export const countScenes = (screenplay: Screenplay): number =>
+  screenplay.elements.filter(element => element.type === 'scene_heading').length;
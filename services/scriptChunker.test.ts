@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { allocateFrames, chunkScript, MAX_CHUNK_CHARS } from './scriptChunker';
+
+const scene = (n: number, length: number) => `INT. ROOM ${n} - DAY\n${'x'.repeat(length)}`;
+
+describe('allocateFrames', () => {
+  it('always hands out exactly frameCount frames', () => {
+    expect(allocateFrames([100, 300, 600], 13)).toEqual([2, 4, 7]);
+    expect(allocateFrames([1, 1, 1], 7).reduce((a, b) => a + b, 0)).toBe(7);
+  });
+
+  it('gives every chunk at least one frame when there are enough', () => {
+    expect(allocateFrames([10, 10000, 10000], 3)).toEqual([1, 1, 1]);
+  });
+
+  it('leaves chunks without frames when there are fewer frames than chunks', () => {
+    expect(allocateFrames([100, 100, 100], 2)).toEqual([1, 1, 0]);
+  });
+});
+
+describe('chunkScript', () => {
+  it('keeps a short script in one chunk', () => {
+    const chunks = chunkScript(scene(1, 200), 12);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({ index: 0, frameCount: 12 });
+  });
+
+  it('splits long scripts at scene headings and never exceeds the chunk limit', () => {
+    const script = Array.from({ length: 6 }, (_, i) => scene(i + 1, 20000)).join('\n');
+    const chunks = chunkScript(script, 24);
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => {
+      expect(chunk.text.length).toBeLessThanOrEqual(MAX_CHUNK_CHARS);
+      expect(chunk.text.startsWith('INT. ROOM')).toBe(true);
+    });
+    expect(chunks.map(chunk => chunk.text).join('\n')).toBe(script);
+    expect(chunks.reduce((sum, chunk) => sum + chunk.frameCount, 0)).toBe(24);
+  });
+
+  it('analyses every chunk even when fewer frames than chunks were requested', () => {
+    const script = Array.from({ length: 5 }, (_, i) => scene(i + 1, 45000)).join('\n');
+    const chunks = chunkScript(script, 2);
+    expect(chunks).toHaveLength(5);
+    expect(chunks.every(chunk => chunk.frameCount === 1)).toBe(true);
+    expect(chunks.map(chunk => chunk.index)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('hard-splits a single scene larger than the limit on line breaks', () => {
+    const lines = Array.from({ length: 2000 }, (_, i) => `Line ${i} ${'y'.repeat(60)}`);
+    const chunks = chunkScript(`INT. HALL - NIGHT\n${lines.join('\n')}`, 4);
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => expect(chunk.text.length).toBeLessThanOrEqual(MAX_CHUNK_CHARS));
+  });
+
+  it('prefers pre-split blocks over slugline detection', () => {
+    const blocks = ['SCENE 1: INT. A', 'SCENE 2: EXT. B'];
+    const chunks = chunkScript('', 3, blocks);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].text).toBe('SCENE 1: INT. A\nSCENE 2: EXT. B');
+  });
+});
@@ -0,0 +1,91 @@
+// Largest slice of script sent to the analyzer in one request.
+export const MAX_CHUNK_CHARS = 50000;
+
+export interface ScriptChunk {
+  index: number;
+  text: string;
+  frameCount: number;
+}
+
+const SLUGLINE = /^\s*(?:\d+\s*)?(?:INT\.?|EXT\.?|INT\.?\/EXT\.?|I\/E\.?|EST\.?)[\s.]/i;
+
+/**
+ * Splits the script into blocks that each start at a scene heading. Scripts without sluglines
+ * fall back to paragraph breaks so the split never lands mid-sentence.
+ */
+const splitIntoBlocks = (scriptText: string): string[] => {
+  const lines = scriptText.split('\n');
+  const hasSluglines = lines.some(line => SLUGLINE.test(line));
+  const blocks: string[] = [];
+  let current: string[] = [];
+
+  lines.forEach(line => {
+    const isBoundary = hasSluglines ? SLUGLINE.test(line) : line.trim() === '';
+    if (isBoundary && current.some(l => l.trim())) {
+      blocks.push(current.join('\n'));
+      current = [];
+    }
+    current.push(line);
+  });
+  if (current.some(l => l.trim())) blocks.push(current.join('\n'));
+  return blocks;
+};
+
+// A single block larger than the limit (e.g. one endless scene) is hard-split on line breaks.
+const splitOversized = (block: string): string[] => {
+  if (block.length <= MAX_CHUNK_CHARS) return [block];
+  const pieces: string[] = [];
+  let rest = block;
+  while (rest.length > MAX_CHUNK_CHARS) {
+    let cut = rest.lastIndexOf('\n', MAX_CHUNK_CHARS);
+    if (cut <= 0) cut = MAX_CHUNK_CHARS;
+    pieces.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  if (rest.trim()) pieces.push(rest);
+  return pieces;
+};
+
+/**
+ * Distributes frames across chunks in proportion to their length using largest remainders, so the
+ * total always equals frameCount and every chunk gets at least one frame when there are enough.
+ */
+export const allocateFrames = (lengths: number[], frameCount: number): number[] => {
+  const total = lengths.reduce((sum, len) => sum + len, 0) || 1;
+  const floor = frameCount >= lengths.length ? 1 : 0;
+  const spare = frameCount - floor * lengths.length;
+  const exact = lengths.map(len => (len / total) * spare);
+  const counts = exact.map(value => floor + Math.floor(value));
+  let remaining = frameCount - counts.reduce((sum, n) => sum + n, 0);
+  exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(({ index }) => {
+      if (remaining > 0) {
+        counts[index]++;
+        remaining--;
+      }
+    });
+  return counts;
+};
+
+/**
+ * Pre-split blocks (e.g. one per scene of an imported screenplay) take precedence over the
+ * slugline heuristics applied to raw text. Every chunk is analysed: when there are more chunks than
+ * requested frames, each still gets one, so the storyboard comes out longer rather than losing script.
+ */
+export const chunkScript = (scriptText: string, frameCount: number, blocks: string[] = splitIntoBlocks(scriptText)): ScriptChunk[] => {
+  const texts: string[] = [];
+  let current = '';
+  blocks.flatMap(splitOversized).forEach(block => {
+    if (current && current.length + block.length + 1 > MAX_CHUNK_CHARS) {
+      texts.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n${block}` : block;
+  });
+  if (current) texts.push(current);
+
+  const frames = allocateFrames(texts.map(t => t.length), Math.max(frameCount, texts.length));
+  return texts.map((text, index) => ({ index, text, frameCount: frames[index] }));
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { Scene } from '../types';
+import { resolveSourceSpans, sceneAtOffset, scriptFingerprint, uncoveredSpans } from './sourceSpans';
+
+const SCRIPT = `INT. KITCHEN - NIGHT
+Maria pours the coffee slowly.
+She hears a knock at the door.
+
+EXT. PORCH - NIGHT
+A stranger waits in the rain.
+He knocks again, harder.
+
+INT. KITCHEN - NIGHT
+Maria pours the coffee slowly.
+This time she does not look up.`;
+
+const sceneWith = (id: string, start: number, end: number): Scene =>
+  ({ id, sceneNumber: 1, title: id, description: '', imagePrompt: '', sourceSpan: { start, end } }) as Scene;
+
+describe('resolveSourceSpans', () => {
+  it('maps quotes to offsets, tolerating reflowed whitespace, case and curly quotes', () => {
+    const [span] = resolveSourceSpans(SCRIPT, [{ sourceStart: 'maria  pours the\ncoffee', sourceEnd: 'knock at the door.' }]);
+    expect(SCRIPT.slice(span!.start, span!.end)).toBe('Maria pours the coffee slowly.\nShe hears a knock at the door.');
+  });
+
+  it('resolves repeated lines to the occurrence after the previous beat', () => {
+    const spans = resolveSourceSpans(SCRIPT, [
+      { sourceStart: 'Maria pours the coffee slowly.', sourceEnd: 'knock at the door.' },
+      { sourceStart: 'A stranger waits in the rain.', sourceEnd: 'He knocks again, harder.' },
+      { sourceStart: 'Maria pours the coffee slowly.', sourceEnd: 'does not look up.' },
+    ]);
+    expect(spans[2]!.start).toBe(SCRIPT.lastIndexOf('Maria pours'));
+    expect(spans[2]!.end).toBe(SCRIPT.length);
+  });
+
+  it('runs a beat without an end quote up to the next located beat', () => {
+    const spans = resolveSourceSpans(SCRIPT, [
+      { sourceStart: 'Maria pours the coffee slowly.' },
+      { sourceStart: 'A stranger waits in the rain.', sourceEnd: 'He knocks again, harder.' },
+    ]);
+    expect(spans[0]!.end).toBe(spans[1]!.start);
+  });
+
+  it('leaves beats with short or missing quotes unresolved', () => {
+    expect(resolveSourceSpans(SCRIPT, [{ sourceStart: 'Maria' }, { sourceStart: 'Not in the script at all' }])).toEqual([undefined, undefined]);
+  });
+});
+
+describe('uncoveredSpans', () => {
+  it('reports gaps between beats, trimmed of whitespace', () => {
+    const porch = SCRIPT.indexOf('EXT. PORCH');
+    const gaps = uncoveredSpans(SCRIPT, [sceneWith('a', 0, porch), sceneWith('b', SCRIPT.indexOf('INT. KITCHEN', porch), SCRIPT.length)]);
+    expect(gaps).toHaveLength(1);
+    expect(SCRIPT.slice(gaps[0].start, gaps[0].end)).toBe('EXT. PORCH - NIGHT\nA stranger waits in the rain.\nHe knocks again, harder.');
+  });
+
+  it('ignores whitespace-only gaps', () => {
+    expect(uncoveredSpans('one\n\n\ntwo', [sceneWith('a', 0, 3), sceneWith('b', 6, 9)])).toEqual([]);
+  });
+});
+
+describe('sceneAtOffset', () => {
+  it('picks the narrowest beat containing the offset', () => {
+    const scenes = [sceneWith('wide', 0, 100), sceneWith('narrow', 10, 20)];
+    expect(sceneAtOffset(scenes, 15)?.id).toBe('narrow');
+    expect(sceneAtOffset(scenes, 50)?.id).toBe('wide');
+    expect(sceneAtOffset(scenes, 100)).toBeUndefined();
+  });
+});
+
+describe('scriptFingerprint', () => {
+  it('changes when the text changes', () => {
+    expect(scriptFingerprint(SCRIPT)).toBe(scriptFingerprint(`${SCRIPT}`));
+    expect(scriptFingerprint(SCRIPT)).not.toBe(scriptFingerprint(SCRIPT.replace('slowly', 'quickly')));
+  });
+});
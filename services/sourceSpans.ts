@@ -0,0 +1,126 @@
+import { Scene, SourceSpan } from "../types";
+
+export interface SourceQuotes {
+  sourceStart?: string; // First line of the passage, as quoted by the analyzer
+  sourceEnd?: string; // Last line of the passage
+}
+
+// Shorter quotes match too many places to be trusted.
+const MIN_QUOTE_CHARS = 8;
+
+// Retried with only the opening characters when a quote was paraphrased towards its end.
+const PREFIX_CHARS = 40;
+
+interface NormalizedText {
+  text: string;
+  offsets: number[]; // Original offset of each normalized character
+}
+
+/**
+ * Lowercases and collapses whitespace (and curly quotes) so a quote survives the reflowing models tend to
+ * apply, while keeping a map back to offsets in the original text.
+ */
+const normalize = (source: string): NormalizedText => {
+  let text = '';
+  const offsets: number[] = [];
+  let pendingSpace = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      pendingSpace = text.length > 0;
+      continue;
+    }
+    if (pendingSpace) {
+      text += ' ';
+      offsets.push(i - 1);
+      pendingSpace = false;
+    }
+    text += ch.replace(/[‘’]/g, "'").replace(/[“”]/g, '"').toLowerCase();
+    offsets.push(i);
+  }
+  return { text, offsets };
+};
+
+const find = (haystack: NormalizedText, quote: string | undefined, from: number): { start: number; end: number } | undefined => {
+  const needle = normalize(quote ?? '').text;
+  if (needle.length < MIN_QUOTE_CHARS) return undefined;
+  const normalizedFrom = haystack.offsets.findIndex(offset => offset >= from);
+  if (normalizedFrom < 0) return undefined;
+  for (const candidate of [needle, needle.slice(0, PREFIX_CHARS)]) {
+    if (candidate.length < MIN_QUOTE_CHARS) continue;
+    const at = haystack.text.indexOf(candidate, normalizedFrom);
+    if (at >= 0) {
+      return { start: haystack.offsets[at], end: haystack.offsets[at + candidate.length - 1] + 1 };
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Turns the analyzer's start and end quotes into character offsets in the script. Quotes that cannot be
+ * found verbatim (give or take whitespace and case) leave the beat without a span rather than guessing.
+ * Beats are searched in order so repeated lines resolve to the occurrence nearest the previous beat; a
+ * beat whose end quote is missing runs up to the start of the next located beat.
+ */
+export const resolveSourceSpans = <T extends SourceQuotes>(scriptText: string, beats: T[]): (SourceSpan | undefined)[] => {
+  const haystack = normalize(scriptText);
+  let cursor = 0;
+  const located = beats.map(beat => {
+    const start = find(haystack, beat.sourceStart, cursor) ?? find(haystack, beat.sourceStart, 0);
+    if (!start) return undefined;
+    cursor = start.start;
+    const end = find(haystack, beat.sourceEnd, start.start);
+    return { start: start.start, end: end?.end };
+  });
+
+  return located.map((span, i) => {
+    if (!span) return undefined;
+    if (span.end !== undefined) return { start: span.start, end: span.end };
+    const next = located.slice(i + 1).find(other => other && other.start > span.start);
+    return { start: span.start, end: next?.start ?? scriptText.length };
+  });
+};
+
+/**
+ * Spans of script text that no beat covers. Whitespace-only gaps are ignored.
+ */
+export const uncoveredSpans = (scriptText: string, scenes: Scene[]): SourceSpan[] => {
+  const covered = scenes
+    .map(scene => scene.sourceSpan)
+    .filter((span): span is SourceSpan => !!span)
+    .sort((a, b) => a.start - b.start);
+  const gaps: SourceSpan[] = [];
+  let cursor = 0;
+  const addGap = (start: number, end: number) => {
+    const text = scriptText.slice(start, end);
+    if (!text.trim()) return;
+    gaps.push({ start: start + (text.length - text.trimStart().length), end: end - (text.length - text.trimEnd().length) });
+  };
+  covered.forEach(span => {
+    if (span.start > cursor) addGap(cursor, span.start);
+    cursor = Math.max(cursor, span.end);
+  });
+  if (cursor < scriptText.length) addGap(cursor, scriptText.length);
+  return gaps;
+};
+
+/**
+ * The beat whose span contains the offset; with overlapping spans the narrowest one wins.
+ */
+export const sceneAtOffset = (scenes: Scene[], offset: number): Scene | undefined =>
+  scenes
+    .filter(scene => scene.sourceSpan && scene.sourceSpan.start <= offset && offset < scene.sourceSpan.end)
+    .sort((a, b) => (a.sourceSpan!.end - a.sourceSpan!.start) - (b.sourceSpan!.end - b.sourceSpan!.start))[0];
+
+/**
+ * Spans are only meaningful against the exact text they were resolved from, so the analysis records a
+ * fingerprint of it and the script view stops highlighting once the script has been edited.
+ */
+export const scriptFingerprint = (scriptText: string): string => {
+  let h = 2166136261;
+  for (let i = 0; i < scriptText.length; i++) {
+    h ^= scriptText.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return `${scriptText.length}:${(h >>> 0).toString(16)}`;
+};
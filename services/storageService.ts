@@ -0,0 +1,430 @@
+import { Animatic, BibleEntry, GeneratedImageRecord, Project, ProjectSummary, ReviewStatus, Scene, ScriptAnalysis, UserSettings } from "../types";
+
+const DB_NAME = "scriptvisualizer";
+const DB_VERSION = 1;
+
+const PROJECTS = "projects";
+const IMAGES = "images";
+const HISTORY = "history";
+const SETTINGS = "settings";
+
+interface StoredImage {
+  id: string;
+  projectId: string;
+  blob: Blob;
+}
+
+export type StoredHistoryRecord = Omit<GeneratedImageRecord, 'imageUrl'>;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Object URLs are created once per stored image and reused for the lifetime of the tab.
+const imageUrlCache = new Map<string, string>();
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(PROJECTS)) {
+        db.createObjectStore(PROJECTS, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(IMAGES)) {
+        db.createObjectStore(IMAGES, { keyPath: "id" }).createIndex("projectId", "projectId");
+      }
+      if (!db.objectStoreNames.contains(HISTORY)) {
+        db.createObjectStore(HISTORY, { keyPath: "id" }).createIndex("projectId", "projectId");
+      }
+      if (!db.objectStoreNames.contains(SETTINGS)) {
+        db.createObjectStore(SETTINGS);
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  return dbPromise;
+};
+
+const promisify = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const complete = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const createId = (): string => crypto.randomUUID();
+
+const stripScene = ({ imageUrl, isGenerating, renderError, takes, ...rest }: Scene): Scene => ({
+  ...rest,
+  takes: takes?.map(({ imageUrl: _url, ...take }) => take),
+});
+
+// Frames rendered before takes existed become a single take so every scene has the same shape.
+const withTakes = (scene: Scene): Scene => {
+  if (scene.takes || !scene.imageId) return scene;
+  const take = { id: createId(), imageId: scene.imageId, prompt: scene.imagePrompt, timestamp: Date.now() };
+  return { ...scene, takes: [take], heroTakeId: take.id };
+};
+
+const hydrateScene = async (stored: Scene): Promise<Scene> => {
+  const scene = withTakes(stored);
+  const takes = scene.takes && await Promise.all(scene.takes.map(async take => ({ ...take, imageUrl: await getImageUrl(take.imageId) })));
+  return {
+    ...scene,
+    takes,
+    imageUrl: scene.imageId ? await getImageUrl(scene.imageId) : undefined,
+  };
+};
+
+const stripBibleEntry = ({ referenceImageUrl, ...rest }: BibleEntry): BibleEntry => rest;
+
+const stripAnimatic = ({ audioUrl, ...rest }: Animatic): Animatic => rest;
+
+const toSummary = (project: Project): ProjectSummary => ({
+  id: project.id,
+  name: project.name,
+  topic: project.topic,
+  style: project.style,
+  createdAt: project.createdAt,
+  updatedAt: project.updatedAt,
+  sceneCount: project.analysis?.scenes.length ?? 0,
+  renderedCount: project.analysis?.scenes.filter(s => s.imageId).length ?? 0,
+});
+
+export const getImageUrl = async (imageId: string): Promise<string | undefined> => {
+  const cached = imageUrlCache.get(imageId);
+  if (cached) return cached;
+  const db = await openDb();
+  const stored = await promisify<StoredImage | undefined>(db.transaction(IMAGES).objectStore(IMAGES).get(imageId));
+  if (!stored) return undefined;
+  const url = URL.createObjectURL(stored.blob);
+  imageUrlCache.set(imageId, url);
+  return url;
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Reads a stored image back as base64 so it can be sent to the model as an inline part.
+ */
+export const getImageData = async (imageId: string): Promise<{ mimeType: string; data: string } | undefined> => {
+  const db = await openDb();
+  const stored = await promisify<StoredImage | undefined>(db.transaction(IMAGES).objectStore(IMAGES).get(imageId));
+  if (!stored) return undefined;
+  return { mimeType: stored.blob.type || 'image/png', data: await blobToBase64(stored.blob) };
+};
+
+const forgetImageUrl = (imageId: string) => {
+  const url = imageUrlCache.get(imageId);
+  if (url) URL.revokeObjectURL(url);
+  imageUrlCache.delete(imageId);
+};
+
+const storeBlob = async (projectId: string, blob: Blob): Promise<{ id: string; url: string }> => {
+  const image: StoredImage = { id: createId(), projectId, blob };
+  const db = await openDb();
+  const tx = db.transaction(IMAGES, "readwrite");
+  tx.objectStore(IMAGES).put(image);
+  await complete(tx);
+  const url = URL.createObjectURL(blob);
+  imageUrlCache.set(image.id, url);
+  return { id: image.id, url };
+};
+
+/**
+ * Stores a rendered frame as a Blob and returns its id together with an object URL for display.
+ */
+export const saveImage = async (projectId: string, dataUrl: string): Promise<{ imageId: string; imageUrl: string }> => {
+  const { id, url } = await storeBlob(projectId, await (await fetch(dataUrl)).blob());
+  return { imageId: id, imageUrl: url };
+};
+
+/**
+ * Stores an animatic scratch track alongside the project's images, so it is duplicated, packaged and
+ * deleted with them. getImageUrl resolves it like any other stored blob.
+ */
+export const saveAudio = async (projectId: string, file: Blob): Promise<{ audioId: string; audioUrl: string }> => {
+  const { id, url } = await storeBlob(projectId, file);
+  return { audioId: id, audioUrl: url };
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  const projects = await promisify<Project[]>(db.transaction(PROJECTS).objectStore(PROJECTS).getAll());
+  return projects.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<Project | null> => {
+  const db = await openDb();
+  const project = await promisify<Project | undefined>(db.transaction(PROJECTS).objectStore(PROJECTS).get(id));
+  if (!project) return null;
+  if (project.analysis) {
+    const scenes = await Promise.all(project.analysis.scenes.map(hydrateScene));
+    const bible = project.analysis.bible && await Promise.all(project.analysis.bible.map(async entry => (
+      entry.referenceImageId ? { ...entry, referenceImageUrl: await getImageUrl(entry.referenceImageId) } : entry
+    )));
+    const { animatic } = project.analysis;
+    const audioUrl = animatic?.audioId ? await getImageUrl(animatic.audioId) : undefined;
+    project.analysis = { ...project.analysis, scenes, bible, animatic: animatic && { ...animatic, audioUrl } };
+  }
+  return project;
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+  const stored: Project = {
+    ...project,
+    analysis: project.analysis && {
+      ...project.analysis,
+      scenes: project.analysis.scenes.map(stripScene),
+      bible: project.analysis.bible?.map(stripBibleEntry),
+      animatic: project.analysis.animatic && stripAnimatic(project.analysis.animatic),
+    },
+  };
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS, "readwrite");
+  tx.objectStore(PROJECTS).put(stored);
+  await complete(tx);
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS, "readwrite");
+  const store = tx.objectStore(PROJECTS);
+  const project = await promisify<Project | undefined>(store.get(id));
+  if (project) store.put({ ...project, name, updatedAt: Date.now() });
+  await complete(tx);
+};
+
+// Points every scene, take, review comment and bible reference at re-issued image ids.
+const remapImageIds = (analysis: ScriptAnalysis | null, imageIds: Map<string, string>): ScriptAnalysis | null => analysis && {
+  ...analysis,
+  scenes: analysis.scenes.map(scene => ({
+    ...scene,
+    imageId: scene.imageId && imageIds.get(scene.imageId),
+    takes: scene.takes?.map(take => ({ ...take, imageId: imageIds.get(take.imageId) ?? take.imageId })),
+    review: scene.review && {
+      ...scene.review,
+      comments: scene.review.comments.map(comment => (
+        comment.imageId ? { ...comment, imageId: imageIds.get(comment.imageId) ?? comment.imageId } : comment
+      )),
+    },
+  })),
+  bible: analysis.bible?.map(entry => (
+    entry.referenceImageId ? { ...entry, referenceImageId: imageIds.get(entry.referenceImageId) } : entry
+  )),
+  animatic: analysis.animatic && {
+    ...analysis.animatic,
+    audioId: analysis.animatic.audioId && imageIds.get(analysis.animatic.audioId),
+  },
+};
+
+/**
+ * Copies a project together with its stored images and history. Image ids are re-issued so that
+ * deleting either copy never removes frames the other one still references.
+ */
+export const duplicateProject = async (id: string): Promise<ProjectSummary | null> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, IMAGES, HISTORY], "readwrite");
+  const projects = tx.objectStore(PROJECTS);
+  const images = tx.objectStore(IMAGES);
+  const history = tx.objectStore(HISTORY);
+
+  const source = await promisify<Project | undefined>(projects.get(id));
+  if (!source) return null;
+  const sourceImages = await promisify<StoredImage[]>(images.index("projectId").getAll(id));
+  const sourceHistory = await promisify<StoredHistoryRecord[]>(history.index("projectId").getAll(id));
+
+  const now = Date.now();
+  const copyId = createId();
+  const imageIds = new Map<string, string>();
+  sourceImages.forEach(image => {
+    const newId = createId();
+    imageIds.set(image.id, newId);
+    images.put({ ...image, id: newId, projectId: copyId });
+  });
+  sourceHistory.forEach(record => {
+    history.put({ ...record, id: createId(), projectId: copyId, imageId: imageIds.get(record.imageId) ?? record.imageId });
+  });
+
+  const copy: Project = {
+    ...source,
+    id: copyId,
+    name: `${source.name} (Copy)`,
+    createdAt: now,
+    updatedAt: now,
+    analysis: remapImageIds(source.analysis, imageIds),
+  };
+  projects.put(copy);
+  await complete(tx);
+  return toSummary(copy);
+};
+
+/**
+ * Everything stored for one project, in its stored form (no object URLs), for packaging.
+ */
+export interface ProjectBundle {
+  project: Project;
+  images: { id: string; blob: Blob }[];
+  history: StoredHistoryRecord[];
+}
+
+export const loadProjectBundle = async (id: string): Promise<ProjectBundle | null> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, IMAGES, HISTORY]);
+  const project = await promisify<Project | undefined>(tx.objectStore(PROJECTS).get(id));
+  if (!project) return null;
+  const images = await promisify<StoredImage[]>(tx.objectStore(IMAGES).index("projectId").getAll(id));
+  const history = await promisify<StoredHistoryRecord[]>(tx.objectStore(HISTORY).index("projectId").getAll(id));
+  return { project, images: images.map(({ id, blob }) => ({ id, blob })), history };
+};
+
+/**
+ * Stores a bundle as a new project. Project and image ids are re-issued, like a duplicate, so importing
+ * the same package twice never overwrites the first copy.
+ */
+export const importProjectBundle = async (bundle: ProjectBundle): Promise<ProjectSummary> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, IMAGES, HISTORY], "readwrite");
+  const projectId = createId();
+  const imageIds = new Map<string, string>();
+  bundle.images.forEach(({ id, blob }) => {
+    const newId = createId();
+    imageIds.set(id, newId);
+    tx.objectStore(IMAGES).put({ id: newId, projectId, blob });
+  });
+  bundle.history.forEach(record => {
+    tx.objectStore(HISTORY).put({ ...record, id: createId(), projectId, imageId: imageIds.get(record.imageId) ?? record.imageId });
+  });
+  const project: Project = {
+    ...bundle.project,
+    id: projectId,
+    updatedAt: Date.now(),
+    analysis: remapImageIds(bundle.project.analysis, imageIds),
+  };
+  tx.objectStore(PROJECTS).put(project);
+  await complete(tx);
+  return toSummary(project);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, IMAGES, HISTORY], "readwrite");
+  tx.objectStore(PROJECTS).delete(id);
+  const imageIds = await promisify<IDBValidKey[]>(tx.objectStore(IMAGES).index("projectId").getAllKeys(id));
+  imageIds.forEach(key => {
+    tx.objectStore(IMAGES).delete(key);
+    forgetImageUrl(key as string);
+  });
+  const historyIds = await promisify<IDBValidKey[]>(tx.objectStore(HISTORY).index("projectId").getAllKeys(id));
+  historyIds.forEach(key => tx.objectStore(HISTORY).delete(key));
+  await complete(tx);
+};
+
+// Every stored blob an analysis points at: scene and take frames, review comment frames, bible references, the scratch track.
+const referencedImageIds = (analysis: ScriptAnalysis | null): Set<string> => new Set([
+  ...(analysis?.scenes ?? []).flatMap(scene => [
+    scene.imageId,
+    ...(scene.takes ?? []).map(take => take.imageId),
+    ...(scene.review?.comments ?? []).map(comment => comment.imageId),
+  ]),
+  ...(analysis?.bible ?? []).map(entry => entry.referenceImageId),
+  analysis?.animatic?.audioId,
+].filter((id): id is string => !!id));
+
+/**
+ * Deletes a project's stored blobs that neither the given analysis nor the project's render history
+ * refers to. With `onlyIds`, just those candidates are considered, e.g. the frame of a take that was
+ * just deleted. Callers pass the analysis as it stands once nothing can bring the blobs back.
+ */
+export const deleteUnreferencedImages = async (projectId: string, analysis: ScriptAnalysis | null, onlyIds?: string[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([IMAGES, HISTORY], "readwrite");
+  const images = tx.objectStore(IMAGES);
+  const history = await promisify<StoredHistoryRecord[]>(tx.objectStore(HISTORY).index("projectId").getAll(projectId));
+  const keep = referencedImageIds(analysis);
+  history.forEach(record => keep.add(record.imageId));
+  const candidates = onlyIds ?? (await promisify<IDBValidKey[]>(images.index("projectId").getAllKeys(projectId))) as string[];
+  candidates.filter(id => !keep.has(id)).forEach(id => {
+    images.delete(id);
+    forgetImageUrl(id);
+  });
+  await complete(tx);
+};
+
+export const addHistoryRecord = async ({ imageUrl, ...record }: GeneratedImageRecord): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(HISTORY, "readwrite");
+  tx.objectStore(HISTORY).put(record);
+  await complete(tx);
+};
+
+/**
+ * Copies a scene's review status onto the history records of its takes, so the archive can be filtered by it.
+ */
+export const setHistoryReviewStatus = async (projectId: string, takeIds: string[], reviewStatus: ReviewStatus): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(HISTORY, "readwrite");
+  const store = tx.objectStore(HISTORY);
+  const records = await promisify<StoredHistoryRecord[]>(store.index("projectId").getAll(projectId));
+  records
+    .filter(record => record.takeId && takeIds.includes(record.takeId))
+    .forEach(record => store.put({ ...record, reviewStatus }));
+  await complete(tx);
+};
+
+/**
+ * Loads render history for one project, or across every project when no id is given.
+ */
+export const listHistory = async (projectId?: string): Promise<GeneratedImageRecord[]> => {
+  const db = await openDb();
+  const store = db.transaction(HISTORY).objectStore(HISTORY);
+  const records = await promisify<StoredHistoryRecord[]>(
+    projectId ? store.index("projectId").getAll(projectId) : store.getAll()
+  );
+  const hydrated = await Promise.all(records.map(async record => ({
+    ...record,
+    imageUrl: (await getImageUrl(record.imageId)) ?? '',
+  })));
+  return hydrated.filter(record => record.imageUrl);
+};
+
+/**
+ * Removes history entries only. Images stay in place because scenes may still display them.
+ */
+export const clearHistory = async (projectId?: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(HISTORY, "readwrite");
+  const store = tx.objectStore(HISTORY);
+  if (projectId) {
+    const keys = await promisify<IDBValidKey[]>(store.index("projectId").getAllKeys(projectId));
+    keys.forEach(key => store.delete(key));
+  } else {
+    store.clear();
+  }
+  await complete(tx);
+};
+
+export const loadSettings = async (): Promise<UserSettings | undefined> => {
+  const db = await openDb();
+  return promisify<UserSettings | undefined>(db.transaction(SETTINGS).objectStore(SETTINGS).get("user"));
+};
+
+export const saveSettings = async (settings: UserSettings): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(SETTINGS, "readwrite");
+  tx.objectStore(SETTINGS).put(settings, "user");
+  await complete(tx);
+};
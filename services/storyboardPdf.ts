@@ -0,0 +1,197 @@
+import { jsPDF } from "jspdf";
+import { Scene, ScriptAnalysis } from "../types";
+import { getImageData } from "./storageService";
+import { flattenAnnotations, isVisible } from "./annotations";
+
+export type PanelLayout = 1 | 2 | 3 | 6;
+
+export interface StoryboardPdfOptions {
+  layout: PanelLayout;
+  includePrompts: boolean;
+  includeMarkup: boolean; // Flatten the hero takes' visible annotations into the panels
+}
+
+// Landscape A4 in millimetres.
+const PAGE_W = 297;
+const PAGE_H = 210;
+const MARGIN = 14;
+const HEADER_H = 10;
+const FOOTER_H = 8;
+const GAP = 8;
+
+const GRID: Record<PanelLayout, { cols: number; rows: number }> = {
+  1: { cols: 1, rows: 1 },
+  2: { cols: 2, rows: 1 },
+  3: { cols: 3, rows: 1 },
+  6: { cols: 3, rows: 2 },
+};
+
+// Font size and line budget for the text under each frame, per layout.
+const TEXT: Record<PanelLayout, { title: number; body: number; descLines: number; promptLines: number }> = {
+  1: { title: 13, body: 10, descLines: 3, promptLines: 3 },
+  2: { title: 11, body: 8.5, descLines: 5, promptLines: 5 },
+  3: { title: 10, body: 8, descLines: 7, promptLines: 6 },
+  6: { title: 8.5, body: 7, descLines: 3, promptLines: 2 },
+};
+
+const PT_TO_MM = 0.3528;
+
+const lineHeight = (fontSize: number) => fontSize * PT_TO_MM * 1.25;
+
+const clampLines = (doc: jsPDF, text: string, width: number, maxLines: number): string[] => {
+  const lines: string[] = doc.splitTextToSize(text, width);
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = `${kept[maxLines - 1].replace(/\s*\S*$/, '')}...`;
+  return kept;
+};
+
+const loadFrame = async (scene: Scene, includeMarkup: boolean): Promise<string | undefined> => {
+  if (!scene.imageId) return undefined;
+  const image = await getImageData(scene.imageId);
+  if (!image) return undefined;
+  const dataUrl = `data:${image.mimeType};base64,${image.data}`;
+  const annotations = scene.takes?.find(take => take.id === scene.heroTakeId)?.annotations;
+  return includeMarkup && isVisible(annotations) ? flattenAnnotations(dataUrl, annotations) : dataUrl;
+};
+
+const drawFrame = (doc: jsPDF, dataUrl: string | undefined, x: number, y: number, w: number, h: number) => {
+  doc.setFillColor(15, 23, 42);
+  doc.rect(x, y, w, h, 'F');
+
+  if (!dataUrl) {
+    doc.setDrawColor(100, 116, 139);
+    doc.setLineDashPattern([1.5, 1.5], 0);
+    doc.rect(x + 2, y + 2, w - 4, h - 4, 'S');
+    doc.setLineDashPattern([], 0);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(Math.max(7, Math.min(14, w / 10)));
+    doc.setTextColor(100, 116, 139);
+    doc.text('NOT YET RENDERED', x + w / 2, y + h / 2, { align: 'center', baseline: 'middle' });
+    return;
+  }
+
+  // Letterbox rather than stretch: older frames or other providers may not be exactly 16:9.
+  const props = doc.getImageProperties(dataUrl);
+  const scale = Math.min(w / props.width, h / props.height);
+  const iw = props.width * scale;
+  const ih = props.height * scale;
+  doc.addImage(dataUrl, props.fileType, x + (w - iw) / 2, y + (h - ih) / 2, iw, ih);
+};
+
+const drawPanel = (
+  doc: jsPDF,
+  scene: Scene,
+  frame: string | undefined,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  options: StoryboardPdfOptions
+) => {
+  const text = TEXT[options.layout];
+  const textH = lineHeight(text.title) + 1.5
+    + text.descLines * lineHeight(text.body)
+    + (options.includePrompts ? 1.5 + text.promptLines * lineHeight(text.body) : 0);
+
+  const frameH = Math.min((w * 9) / 16, h - textH - 3);
+  drawFrame(doc, frame, x, y, w, frameH);
+
+  let cursor = y + frameH + 3 + lineHeight(text.title) * 0.8;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(text.title);
+  doc.setTextColor(15, 23, 42);
+  doc.text(clampLines(doc, `${scene.sceneNumber}. ${scene.title.toUpperCase()}`, w, 1), x, cursor);
+  cursor += lineHeight(text.title) * 0.2 + 1.5;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(text.body);
+  doc.setTextColor(51, 65, 85);
+  // splitTextToSize measures with the current font, so wrap only after setting it.
+  clampLines(doc, scene.description, w, text.descLines).forEach(line => {
+    cursor += lineHeight(text.body);
+    doc.text(line, x, cursor);
+  });
+
+  if (options.includePrompts && scene.imagePrompt) {
+    cursor += 1.5;
+    doc.setFont('helvetica', 'italic');
+    doc.setTextColor(100, 116, 139);
+    clampLines(doc, scene.imagePrompt, w, text.promptLines).forEach(line => {
+      cursor += lineHeight(text.body);
+      doc.text(line, x, cursor);
+    });
+  }
+};
+
+const drawCover = (doc: jsPDF, analysis: ScriptAnalysis) => {
+  const rendered = analysis.scenes.filter(scene => scene.imageId).length;
+  doc.setFillColor(2, 6, 23);
+  doc.rect(0, 0, PAGE_W, PAGE_H, 'F');
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.setTextColor(59, 130, 246);
+  doc.text('STORYBOARD', PAGE_W / 2, PAGE_H / 2 - 28, { align: 'center' });
+
+  doc.setFontSize(32);
+  doc.setTextColor(255, 255, 255);
+  const title: string[] = doc.splitTextToSize(analysis.projectTitle || 'Untitled Project', PAGE_W - MARGIN * 4);
+  doc.text(title, PAGE_W / 2, PAGE_H / 2 - 12, { align: 'center' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(12);
+  doc.setTextColor(148, 163, 184);
+  const style: string[] = doc.splitTextToSize(analysis.projectStyle, PAGE_W - MARGIN * 6);
+  doc.text(style, PAGE_W / 2, PAGE_H / 2 + 4 + (title.length - 1) * 12, { align: 'center' });
+
+  doc.setFontSize(9);
+  doc.setTextColor(100, 116, 139);
+  doc.text(
+    `${analysis.scenes.length} beats  |  ${rendered} rendered  |  ${new Date().toLocaleDateString()}`,
+    PAGE_W / 2,
+    PAGE_H - MARGIN - 4,
+    { align: 'center' }
+  );
+};
+
+/**
+ * Lays the storyboard out as a printable PDF: a cover page followed by N-up panel pages. Runs entirely
+ * in the browser; frames are read straight from IndexedDB.
+ */
+export const buildStoryboardPdf = async (analysis: ScriptAnalysis, options: StoryboardPdfOptions): Promise<Blob> => {
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+  drawCover(doc, analysis);
+
+  const { cols, rows } = GRID[options.layout];
+  const perPage = cols * rows;
+  const cellW = (PAGE_W - MARGIN * 2 - GAP * (cols - 1)) / cols;
+  const cellH = (PAGE_H - MARGIN * 2 - HEADER_H - FOOTER_H - GAP * (rows - 1)) / rows;
+
+  for (let start = 0; start < analysis.scenes.length; start += perPage) {
+    doc.addPage();
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(8);
+    doc.setTextColor(100, 116, 139);
+    doc.text(analysis.projectTitle.toUpperCase(), MARGIN, MARGIN + 3);
+
+    const pageScenes = analysis.scenes.slice(start, start + perPage);
+    const frames = await Promise.all(pageScenes.map(scene => loadFrame(scene, options.includeMarkup)));
+    pageScenes.forEach((scene, i) => {
+      const x = MARGIN + (i % cols) * (cellW + GAP);
+      const y = MARGIN + HEADER_H + Math.floor(i / cols) * (cellH + GAP);
+      drawPanel(doc, scene, frames[i], x, y, cellW, cellH, options);
+    });
+  }
+
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 2; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(148, 163, 184);
+    doc.text(`Page ${page - 1} of ${pageCount - 1}`, PAGE_W - MARGIN, PAGE_H - MARGIN + 2, { align: 'right' });
+  }
+
+  return doc.output('blob');
+};
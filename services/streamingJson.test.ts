@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { createArrayItemStream } from './streamingJson';
+
+const DOCUMENT = JSON.stringify({
+  projectTitle: 'Brace [ { yourself',
+  scenes: [{ id: 'a', text: 'He said "}" and left' }, { id: 'b', nested: { list: [1, 2] } }],
+  after: [{ id: 'ignored' }],
+});
+
+describe('createArrayItemStream', () => {
+  it('returns each item as soon as it is complete, however the text is split', () => {
+    for (const size of [1, 3, 17, DOCUMENT.length]) {
+      const stream = createArrayItemStream('scenes');
+      const items: unknown[] = [];
+      for (let i = 0; i < DOCUMENT.length; i += size) items.push(...stream.push(DOCUMENT.slice(i, i + size)));
+      expect(items).toEqual(JSON.parse(DOCUMENT).scenes);
+    }
+  });
+
+  it('yields an item on the push that completes it', () => {
+    const stream = createArrayItemStream('scenes');
+    expect(stream.push('{"scenes": [{"id": "a"')).toEqual([]);
+    expect(stream.push('}, {"id"')).toEqual([{ id: 'a' }]);
+    expect(stream.push(': "b"}]}')).toEqual([{ id: 'b' }]);
+  });
+
+  it('holds the place of malformed items and stops at the end of the array', () => {
+    const stream = createArrayItemStream('scenes');
+    expect(stream.push('{"scenes": [{"id": "a"}, {"id": nope}, {"id": "ok"}], "more": [{"id": "x"}]}'))
+      .toEqual([{ id: 'a' }, null, { id: 'ok' }]);
+    expect(stream.push('{"id": "late"}')).toEqual([]);
+  });
+});
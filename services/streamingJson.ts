@@ -0,0 +1,64 @@
+/**
+ * Pulls complete objects out of a JSON array while the surrounding document is still streaming in,
+ * e.g. each beat of `{"projectTitle": "...", "scenes": [{...}, {...`. Text is fed as it arrives; every
+ * call returns the items that were completed by that piece, with `null` in place of an item that is not
+ * valid JSON so later items keep their positions. The full document is still parsed normally
+ * once the stream ends; this is only for showing results early.
+ */
+export interface ArrayItemStream {
+  push: (text: string) => unknown[];
+}
+
+export const createArrayItemStream = (key: string): ArrayItemStream => {
+  const opener = new RegExp(`"${key}"\\s*:\\s*\\[`);
+  let buffer = '';
+  let position = -1; // Next character to scan; -1 until the array has been found
+  let done = false;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let itemStart = -1;
+
+  const push = (text: string): unknown[] => {
+    buffer += text;
+    if (done) return [];
+    if (position < 0) {
+      const match = opener.exec(buffer);
+      if (!match) return [];
+      position = match.index + match[0].length;
+    }
+
+    const items: unknown[] = [];
+    for (; position < buffer.length; position++) {
+      const ch = buffer[position];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === '\\') escaped = true;
+        else if (ch === '"') inString = false;
+        continue;
+      }
+      if (ch === '"') {
+        inString = true;
+      } else if (ch === '{' || ch === '[') {
+        if (depth === 0) itemStart = position;
+        depth++;
+      } else if (ch === '}' || ch === ']') {
+        if (depth === 0) {
+          done = true; // The array itself closed
+          break;
+        }
+        depth--;
+        if (depth === 0) {
+          try {
+            items.push(JSON.parse(buffer.slice(itemStart, position + 1)));
+          } catch {
+            items.push(null);
+          }
+        }
+      }
+    }
+    return items;
+  };
+
+  return { push };
+};
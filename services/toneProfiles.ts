@@ -0,0 +1,91 @@
+import { AspectRatio, ImageResolution, ToneProfile } from "../types";
+import { createId } from "./storageService";
+
+export const ASPECT_RATIOS: AspectRatio[] = ['16:9', '21:9', '4:3', '3:2', '1:1', '4:5', '9:16'];
+
+export const RESOLUTIONS: ImageResolution[] = ['1K', '2K', '4K'];
+
+// The original, and still default, look: projects saved before tone profiles existed keep rendering with it.
+export const DEFAULT_TONE_PROFILE_ID = 'historical-grit';
+
+export const BUILT_IN_TONE_PROFILES: ToneProfile[] = [
+  {
+    id: 'historical-grit',
+    name: 'Historical Grit',
+    builtIn: true,
+    analysisDirectives: `1. UNDERSTANDING CONTEXT: If the script involves prisoners, famine, war, or poverty, YOU MUST REFLECT THE REALITY OF SUFFERING.
+2. CHARACTER APPEARANCE: Characters must NOT look "healthy", "clean", or "Hollywood-polished". If they are prisoners, describe them as: emaciated, malnourished, covered in realistic grime and coal dust, eyes sunken, skin sallow and weathered, hair matted and thinning. Clothing must be tattered, ill-fitting, and stained with historical filth.
+3. ENVIRONMENT: Avoid clean sets. Describe environments with authentic grit: rust, mud, harsh shadows, claustrophobic framing, and period-accurate squalor.
+4. NO ANIMATION: Prompts are for RAW PHOTOGRAPHIC STILLS.
+5. Filter the requested style through a lens of historical authenticity and grit.`,
+    imagePreamble: `AUTHENTIC HISTORICAL PHOTOGRAPH.
+SUBJECTS: Must look physically exhausted, dirty, malnourished, and distressed. Emphasize raw textures, mud, dust, and sallow skin tones.
+STYLE: RAW CINEMATIC REALISM, 35mm grain, heavy atmospheric shadows.`,
+    negativeGuidance: 'ABSOLUTELY NO CLEAN SKIN. NO HEALTHY GLOW. NO PERFECT TEETH. NO POLISHED HAIR.',
+    aspectRatio: '16:9',
+    resolution: '1K',
+  },
+  {
+    id: 'period-drama',
+    name: 'Period Drama',
+    builtIn: true,
+    analysisDirectives: `1. PERIOD ACCURACY: Costume, hair, props and architecture must match the era and social class of each character.
+2. CHARACTER APPEARANCE: Describe wardrobe fabrics, tailoring and condition; wealth and poverty should both read clearly.
+3. ENVIRONMENT: Describe interiors by their light sources (candles, oil lamps, windows) and materials.
+4. Prompts are for photographic film stills, never illustration.`,
+    imagePreamble: `PRESTIGE PERIOD DRAMA FILM STILL.
+STYLE: Painterly natural light, soft window key light, rich but restrained colour, shallow depth of field, fine film grain.`,
+    negativeGuidance: 'No modern objects, fabrics, hairstyles or makeup. No anachronistic signage. No cartoon or illustration look.',
+    aspectRatio: '16:9',
+    resolution: '1K',
+  },
+  {
+    id: 'documentary',
+    name: 'Documentary',
+    builtIn: true,
+    analysisDirectives: `1. OBSERVATIONAL: Describe what a camera operator could actually capture on location; no staged glamour.
+2. PEOPLE: Real, unposed people with natural skin, ordinary clothing and candid expressions.
+3. ENVIRONMENT: Practical, available light and real locations with their everyday clutter.
+4. Prompts are for photographic stills.`,
+    imagePreamble: `DOCUMENTARY PHOTOGRAPH, captured on location.
+STYLE: Available light, handheld feel, honest colour, natural skin texture.`,
+    negativeGuidance: 'No studio lighting, no retouched skin, no dramatic colour grading, no posed compositions.',
+    aspectRatio: '16:9',
+    resolution: '1K',
+  },
+  {
+    id: 'commercial',
+    name: 'Commercial',
+    builtIn: true,
+    analysisDirectives: `1. CLARITY: Every beat must make the product, person or message immediately readable.
+2. PEOPLE: Well-groomed, expressive talent styled for the brand.
+3. ENVIRONMENT: Clean, art-directed sets with deliberate colour palettes and uncluttered backgrounds.
+4. Prompts are for high-end photographic stills.`,
+    imagePreamble: `HIGH-END COMMERCIAL PHOTOGRAPH.
+STYLE: Polished studio-quality lighting, crisp focus, vibrant controlled colour, premium production value.`,
+    negativeGuidance: 'No grime, no clutter, no harsh unflattering shadows, no visible text or logos.',
+    aspectRatio: '16:9',
+    resolution: '1K',
+  },
+];
+
+export const allToneProfiles = (custom: ToneProfile[] = []): ToneProfile[] => [...BUILT_IN_TONE_PROFILES, ...custom];
+
+/**
+ * Returns the first profile that exists among the given ids (e.g. scene override, then project), falling
+ * back to the default preset so a deleted custom profile never breaks rendering.
+ */
+export const resolveToneProfile = (profiles: ToneProfile[], ...ids: (string | undefined)[]): ToneProfile => {
+  for (const id of ids) {
+    const match = id && profiles.find(profile => profile.id === id);
+    if (match) return match;
+  }
+  return profiles.find(profile => profile.id === DEFAULT_TONE_PROFILE_ID) ?? BUILT_IN_TONE_PROFILES[0];
+};
+
+export const copyToneProfile = (base: ToneProfile): ToneProfile => ({
+  ...base,
+  id: createId(),
+  name: `${base.name} (Custom)`,
+  builtIn: false,
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { diffWords } from './wordDiff';
+
+const side = (segments: ReturnType<typeof diffWords>, kind: 'added' | 'removed') =>
+  segments.filter(segment => segment.kind !== kind).map(segment => segment.text).join('');
+
+describe('diffWords', () => {
+  it('marks replaced words and merges runs of the same kind', () => {
+    expect(diffWords('a red car at dusk', 'a blue car at night')).toEqual([
+      { kind: 'same', text: 'a ' },
+      { kind: 'removed', text: 'red ' },
+      { kind: 'added', text: 'blue ' },
+      { kind: 'same', text: 'car at ' },
+      { kind: 'removed', text: 'dusk' },
+      { kind: 'added', text: 'night' },
+    ]);
+  });
+
+  it('reproduces both texts from their segments', () => {
+    const before = 'Wide shot, rain on the window.\nA figure waits.';
+    const after = 'Close shot, rain on the window.\nA figure waits outside.';
+    const segments = diffWords(before, after);
+    expect(side(segments, 'added')).toBe(before);
+    expect(side(segments, 'removed')).toBe(after);
+  });
+
+  it('matches words regardless of surrounding whitespace, keeping the new spacing', () => {
+    const segments = diffWords('rain  on the\nwindow', 'rain on the window');
+    expect(segments).toEqual([{ kind: 'same', text: 'rain on the window' }]);
+  });
+
+  it('handles empty sides', () => {
+    expect(diffWords('', 'new text')).toEqual([{ kind: 'added', text: 'new text' }]);
+    expect(diffWords('old', '')).toEqual([{ kind: 'removed', text: 'old' }]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+});
@@ -0,0 +1,51 @@
+export type DiffKind = 'same' | 'added' | 'removed';
+
+export interface DiffSegment {
+  kind: DiffKind;
+  text: string;
+}
+
+// Words keep their trailing whitespace, so joining the segments of either side reproduces that text exactly.
+const tokenize = (text: string): string[] => text.match(/\s+|\S+\s*/g) ?? [];
+
+const sameWord = (a: string, b: string) => a.trim() === b.trim();
+
+/**
+ * Word-level diff of two prompts via a longest common subsequence. Prompts are a few hundred words at most,
+ * so the quadratic table is cheap. Runs of the same kind are merged into one segment.
+ */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  // lcs[i][j] is the LCS length of a[i..] and b[j..].
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = sameWord(a[i], b[j]) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const emit = (kind: DiffKind, text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else segments.push({ kind, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (sameWord(a[i], b[j])) {
+      emit('same', b[j]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      emit('removed', a[i++]);
+    } else {
+      emit('added', b[j++]);
+    }
+  }
+  while (i < a.length) emit('removed', a[i++]);
+  while (j < b.length) emit('added', b[j++]);
+  return segments;
+};
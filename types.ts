@@ -6,22 +6,292 @@ export interface Scene {
   description: string;
   imagePrompt: string;
   imageUrl?: string;
+  imageId?: string;
+  takes?: Take[];
+  heroTakeId?: string;
+  bibleIds?: string[];
+  cinematography?: Cinematography;
+  sourceSpan?: SourceSpan;
+  toneProfileId?: string; // Overrides the project's tone profile for this frame
+  promptRevisions?: PromptRevision[]; // Earlier prompts replaced by rewrites, oldest first
+  periodNotes?: PeriodNotes; // From the optional period research pass
+  review?: SceneReview; // Sign-off state and reviewer comments; not edit history
   isGenerating?: boolean;
+  renderError?: SceneError; // Last failed render or refinement; cleared by the next attempt
+}
+
+export interface PromptRevision {
+  id: string;
+  prompt: string; // The prompt as it was before this revision replaced it
+  instruction: string; // What the rewrite was asked to change
+  timestamp: number;
+}
+
+export interface Anachronism {
+  id: string;
+  term: string; // The wording in the prompt that is out of period
+  explanation: string;
+  correction: string; // Period-accurate wording to use instead
+  resolved?: boolean; // The correction was applied, or the warning was dismissed
+}
+
+export interface PeriodNotes {
+  era: string;
+  region: string;
+  clothing: string;
+  technology: string;
+  architecture: string;
+  anachronisms: Anachronism[];
+  researchedPrompt: string; // The prompt the notes were written against; a different prompt now may need new research
+  researchedAt: number;
+}
+
+export type ReviewStatus = 'draft' | 'in-review' | 'needs-changes' | 'approved';
+
+// Fractions of the frame's width and height, so a pin stays put at any display size.
+export interface CommentPin {
+  x: number;
+  y: number;
+}
+
+export interface ReviewComment {
+  id: string;
+  author: string;
+  text: string;
+  timestamp: number;
+  imageId?: string; // The frame on screen when the comment was left
+  parentId?: string; // Set on replies; threads are one level deep
+  pin?: CommentPin;
+  resolved?: boolean; // Only top-level comments are resolved, which closes the whole thread
+}
+
+export interface SceneReview {
+  status: ReviewStatus;
+  comments: ReviewComment[];
+  statusChangedAt?: number;
+  statusChangedBy?: string;
+}
+
+export type AIErrorKind = 'safety' | 'refusal' | 'rate-limit' | 'network' | 'malformed' | 'empty' | 'unknown';
+
+export interface SceneError {
+  kind: AIErrorKind;
+  message: string;
+  blockReason?: string;
+  prompt?: string; // The scene prompt that failed, when a reworded retry makes sense
+  timestamp: number;
+}
+
+// Character offsets into the project's script text, end exclusive.
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+export type ShotSize = 'extreme-wide' | 'wide' | 'full' | 'medium' | 'medium-close-up' | 'close-up' | 'extreme-close-up' | 'insert';
+
+export type CameraAngle = 'eye-level' | 'high' | 'low' | 'overhead' | 'dutch' | 'over-the-shoulder' | 'pov';
+
+export type CameraMovement = 'static' | 'pan' | 'tilt' | 'dolly' | 'tracking' | 'handheld' | 'crane' | 'zoom';
+
+export type LightingKey = 'low-key' | 'high-key' | 'natural' | 'silhouette' | 'practical';
+
+export type TimeOfDay = 'dawn' | 'day' | 'dusk' | 'night';
+
+export interface Cinematography {
+  shotSize?: ShotSize;
+  cameraAngle?: CameraAngle;
+  lens?: string; // Free text, e.g. "35mm" or "85mm anamorphic"
+  movement?: CameraMovement;
+  lighting?: LightingKey;
+  timeOfDay?: TimeOfDay;
+  location?: string;
+}
+
+export interface Take {
+  id: string;
+  imageId: string;
+  imageUrl?: string;
+  // Undefined only for frames rendered before seeds were recorded.
+  seed?: number;
+  prompt: string;
+  model?: string;
+  timestamp: number;
+  // Set on refinements: the take that was edited and the instruction used.
+  parentTakeId?: string;
+  refinement?: string;
+  masked?: boolean;
+  annotations?: FrameAnnotations; // Markup drawn over this take; never baked into the stored image
+}
+
+// Fractions of the frame's width and height, so markup scales with the frame.
+export interface FramePoint {
+  x: number;
+  y: number;
+}
+
+export type AnnotationTool = 'arrow' | 'freehand' | 'rect' | 'text';
+
+export type AnnotationShape =
+  | { kind: 'arrow'; from: FramePoint; to: FramePoint }
+  | { kind: 'rect'; from: FramePoint; to: FramePoint }
+  | { kind: 'freehand'; points: FramePoint[] }
+  | { kind: 'text'; at: FramePoint; text: string };
+
+export type Annotation = AnnotationShape & {
+  id: string;
+  color: string;
+  width: number; // Stroke width, or text height, as a fraction of the frame width
+};
+
+export type FrameGuide = 'action-safe' | 'title-safe' | 'thirds' | 'center' | '2.39:1' | '1.85:1' | '4:3' | '1:1' | '9:16';
+
+export interface FrameAnnotations {
+  shapes: Annotation[];
+  guides: FrameGuide[];
+  hidden?: boolean; // Switched off in the viewer; hidden markup is left out of exports too
+}
+
+export type BibleEntryKind = 'character' | 'location';
+
+export interface BibleEntry {
+  id: string;
+  kind: BibleEntryKind;
+  name: string;
+  description: string;
+  referenceImageId?: string;
+  referenceImageUrl?: string;
 }
 
 export interface GeneratedImageRecord {
+  id: string;
+  projectId: string;
+  imageId: string;
   timestamp: number;
   imageUrl: string;
   prompt: string;
   sceneTitle: string;
   sceneNumber: number;
   style: string;
+  seed?: number;
+  model?: string;
+  takeId?: string;
+  cinematography?: Cinematography; // As it was when the frame was rendered
+  reviewStatus?: ReviewStatus; // The scene's review status, kept in step when it changes
+}
+
+export type ScriptElementType =
+  | 'scene_heading'
+  | 'action'
+  | 'character'
+  | 'parenthetical'
+  | 'dialogue'
+  | 'transition'
+  | 'centered'
+  | 'section'
+  | 'synopsis';
+
+export interface ScriptElement {
+  type: ScriptElementType;
+  text: string;
+  sceneNumber?: string;
+  dual?: boolean;
+}
+
+export interface Screenplay {
+  format: 'fountain' | 'fdx';
+  title?: string;
+  titlePage: Record<string, string>;
+  elements: ScriptElement[];
+}
+
+export type ImportFormat = 'pdf' | 'docx';
+
+// One line of imported text: where it sits in the script text and where it came from in the original file.
+export interface SourceLine {
+  start: number; // Offsets into the script text, end exclusive
+  end: number;
+  page?: number; // 1-based; for Word documents, taken from the pagination Word last saved, when present
+  line: number; // 1-based line on the page for PDFs; paragraph number for Word documents
+  style?: string; // Word paragraph style, e.g. "Scene Heading"
+  ocr?: boolean; // Recognized from the page image rather than read from its text layer
+  confidence?: number; // OCR confidence, 0 to 100
+}
+
+export interface ImportedSource {
+  fileName: string;
+  format: ImportFormat;
+  pageCount?: number;
+  ocrPages: number[]; // Pages with no usable text layer that were read with OCR
+  lines: SourceLine[];
+}
+
+export type AnimaticTransition = 'cut' | 'crossfade' | 'fade-black';
+
+export type CameraMove = 'none' | 'zoom-in' | 'zoom-out' | 'pan-left' | 'pan-right';
+
+export interface AnimaticShot {
+  durationMs: number;
+  transition: AnimaticTransition; // How this shot enters from the previous one
+  move: CameraMove;
+  titleCard?: string; // Shown on black before the shot
+}
+
+export interface Animatic {
+  shots: Record<string, AnimaticShot>; // Keyed by scene id; scenes without an entry use the defaults
+  audioId?: string;
+  audioName?: string;
+  audioUrl?: string; // Object URL, not persisted
 }
 
 export interface ScriptAnalysis {
   projectTitle: string;
   projectStyle: string;
   scenes: Scene[];
+  bible?: BibleEntry[];
+  animatic?: Animatic;
+  sourceFingerprint?: string; // Fingerprint of the script text the scenes' source spans point into
+  validation?: ValidationReport; // What was wrong with the analyzer's raw output and how it was repaired
+  continuity?: ContinuityReport; // Last continuity check over the rendered frames
+}
+
+export type ContinuityIssueType = 'wardrobe' | 'prop' | 'time-of-day' | 'lighting' | 'character' | 'location' | 'other';
+
+export type ContinuitySeverity = 'low' | 'medium' | 'high';
+
+export interface ContinuityIssue {
+  id: string;
+  type: ContinuityIssueType;
+  severity: ContinuitySeverity;
+  sceneIds: string[]; // The beats involved, in storyboard order
+  imageIds: string[]; // Their frames when checked; a different frame now means the issue may be stale
+  description: string;
+  fixSceneId: string; // The beat whose prompt should change
+  suggestedPrompt: string; // Full replacement prompt for that beat
+  resolved?: boolean; // The fix was applied, or the issue was dismissed
+}
+
+export interface ContinuityReport {
+  checkedAt: number;
+  frameCount: number; // Rendered frames included in the check
+  issues: ContinuityIssue[];
+}
+
+export type ValidationIssueCode = 'duplicate-id' | 'numbering-gap' | 'missing-field' | 'empty-beat' | 'empty-prompt' | 'beat-count';
+
+export interface ValidationIssue {
+  code: ValidationIssueCode;
+  chunkIndex: number;
+  message: string; // What the analyzer returned
+  action: string; // What was done about it
+  flagged: boolean; // Needs a human look; unflagged issues were repaired fully
+  sceneId?: string; // The beat concerned, once it has its final id
+}
+
+export interface ValidationReport {
+  beatsReceived: number; // Raw beats from the analyzer, before repairs
+  beatsExpected: number;
+  issues: ValidationIssue[];
 }
 
 export enum AppStatus {
@@ -31,6 +301,71 @@ export enum AppStatus {
   ERROR = 'ERROR'
 }
 
+export type ProviderId = 'gemini' | 'mock';
+
+export interface ModelSettings {
+  provider: ProviderId;
+  textModel: string;
+  analysisModel: string;
+  imageModel: string;
+}
+
+export type AspectRatio = '16:9' | '21:9' | '4:3' | '3:2' | '1:1' | '4:5' | '9:16';
+
+export type ImageResolution = '1K' | '2K' | '4K';
+
+export interface ToneProfile {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  analysisDirectives: string; // Visual directives given to the script analyzer
+  imagePreamble: string; // Placed before every image prompt
+  negativeGuidance: string; // What frames must avoid, phrased as instructions
+  aspectRatio: AspectRatio;
+  resolution: ImageResolution;
+}
+
 export interface UserSettings {
   generatedImageCount: number;
+  lastProjectId?: string;
+  models: ModelSettings;
+  toneProfiles?: ToneProfile[]; // Custom profiles only; presets ship with the app
+  reviewerName?: string; // Signs review comments and status changes
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  scriptText: string;
+  screenplay?: Screenplay | null;
+  importedSource?: ImportedSource | null; // Where the script text came from, for PDF and Word imports
+  topic: string;
+  style: string;
+  frameCount: number;
+  toneProfileId?: string;
+  analysis: ScriptAnalysis | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ProjectSummary = Pick<Project, 'id' | 'name' | 'topic' | 'style' | 'createdAt' | 'updatedAt'> & {
+  sceneCount: number;
+  renderedCount: number;
+};
+
+export type RenderJobStatus = 'queued' | 'rendering' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+export interface RenderJob {
+  sceneId: string;
+  sceneNumber: number;
+  status: RenderJobStatus;
+  attempts: number;
+  error?: string;
+}
+
+export interface RenderQueueState {
+  jobs: RenderJob[];
+  isRunning: boolean;
+  isPaused: boolean;
+  concurrency: number;
 }
@@ -1,18 +1,56 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// The OCR engine's worker, WebAssembly core and English model, served under /ocr/ (see services/documentImport.ts)
+// instead of being fetched from a CDN when the first scanned page turns up. Tesseract picks the core variant
+// the browser supports, so all three LSTM builds are shipped.
+const OCR_ASSETS: Record<string, string> = {
+  'worker.min.js': 'node_modules/tesseract.js/dist/worker.min.js',
+  'core/tesseract-core-lstm.wasm.js': 'node_modules/tesseract.js-core/tesseract-core-lstm.wasm.js',
+  'core/tesseract-core-simd-lstm.wasm.js': 'node_modules/tesseract.js-core/tesseract-core-simd-lstm.wasm.js',
+  'core/tesseract-core-relaxedsimd-lstm.wasm.js': 'node_modules/tesseract.js-core/tesseract-core-relaxedsimd-lstm.wasm.js',
+  'lang/eng.traineddata.gz': 'node_modules/@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz',
+};
+
+const ocrAssets = (): Plugin => ({
+  name: 'ocr-assets',
+  configureServer(server) {
+    server.middlewares.use((req, res, next) => {
+      const name = req.url?.split('?')[0].match(/^\/ocr\/(.+)$/)?.[1];
+      const file = name && OCR_ASSETS[name];
+      if (!file) return next();
+      res.setHeader('Content-Type', name.endsWith('.js') ? 'text/javascript' : 'application/octet-stream');
+      fs.createReadStream(path.resolve(__dirname, file)).on('error', next).pipe(res);
+    });
+  },
+  generateBundle() {
+    for (const [name, file] of Object.entries(OCR_ASSETS)) {
+      this.emitFile({ type: 'asset', fileName: `ocr/${name}`, source: fs.readFileSync(path.resolve(__dirname, file)) });
+    }
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The Gemini key stays with the API proxy (npm run server); the browser only learns whether one is set.
+    const proxy = {
+      '/api': { target: env.AI_PROXY_TARGET || 'http://localhost:8787', changeOrigin: true },
+    };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy,
+      },
+      preview: {
+        proxy,
       },
-      plugins: [react()],
+      plugins: [react(), ocrAssets()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_CONFIGURED': JSON.stringify(env.GEMINI_API_KEY ? 'true' : ''),
+        'process.env.AI_PROXY_URL': JSON.stringify(env.AI_PROXY_URL || '')
       },
       resolve: {
         alias: {